@@ -1,5 +1,5 @@
 import { Tabs } from 'expo-router';
-import { Calculator, Package } from 'lucide-react-native';
+import { Calculator, Package, History } from 'lucide-react-native';
 import { useTranslation } from 'react-i18next';
 import { useTheme } from '@/contexts/ThemeContext';
 import { Platform, View } from 'react-native';
@@ -106,6 +106,25 @@ export default function TabLayout() {
           ),
         }}
       />
+      <Tabs.Screen
+        name="history"
+        options={{
+          title: t('tabs.history'),
+          tabBarIcon: ({ color, focused }) => (
+            <View style={{
+              padding: 6,
+              borderRadius: 10,
+              backgroundColor: focused
+                ? theme.isDark
+                  ? 'rgba(129, 140, 248, 0.2)'
+                  : 'rgba(99, 102, 241, 0.12)'
+                : 'transparent',
+            }}>
+              <History size={24} color={color} strokeWidth={focused ? 2.5 : 2} />
+            </View>
+          ),
+        }}
+      />
     </Tabs>
   );
 }
\ No newline at end of file
@@ -0,0 +1,592 @@
+import React, { useState, useCallback, useMemo } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  ScrollView,
+  StyleSheet,
+  Alert,
+  RefreshControl,
+} from 'react-native';
+import { StatusBar } from 'expo-status-bar';
+import { LinearGradient } from 'expo-linear-gradient';
+import { Search, X, Trash2, Coins, Scale, Tag, ChevronRight } from 'lucide-react-native';
+import Animated, { FadeInDown, Layout } from 'react-native-reanimated';
+import { useFocusEffect } from '@react-navigation/native';
+import { useRouter } from 'expo-router';
+import { useTranslation } from 'react-i18next';
+
+import {
+  getCalculations,
+  clearCalculations,
+  type Calculation,
+} from '@/utils/storage';
+import { formatQuantity, unitLabel } from '@/utils/units';
+import { formatTareWeights, replayInput } from '@/utils/tare';
+import { formatCalculationYield } from '@/utils/yield';
+import { useTheme } from '@/contexts/ThemeContext';
+import { ThemeToggle } from '@/components/ThemeToggle';
+import { GlassCard } from '@/components/GlassCard';
+import { AnimatedEmptyState } from '@/components/AnimatedEmptyState';
+import { SkeletonCard } from '@/components/SkeletonLoader';
+import { LanguageSwitcher } from '@/components/LanguageSwitcher';
+import { SettingsButton } from '@/components/SettingsButton';
+import { useHaptics } from '@/hooks/useHaptics';
+import { useCurrency } from '@/hooks/useCurrency';
+
+type ModeFilter = 'all' | Calculation['mode'];
+
+interface CalculationGroup {
+  dayKey: string;
+  timestamp: number;
+  calculations: Calculation[];
+}
+
+// Calculation History Tab Component
+export default function HistoryTab() {
+  const { theme } = useTheme();
+  const { impact, notification, selection } = useHaptics();
+  const { t, i18n } = useTranslation();
+  const { formatCurrency } = useCurrency();
+  const router = useRouter();
+
+  const [calculations, setCalculations] = useState<Calculation[]>([]);
+  const [searchQuery, setSearchQuery] = useState('');
+  const [modeFilter, setModeFilter] = useState<ModeFilter>('all');
+  const [itemFilter, setItemFilter] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+
+  const loadCalculations = async () => {
+    try {
+      const loadedCalculations = await getCalculations();
+      setCalculations(loadedCalculations);
+    } catch (error) {
+      console.error('Error loading calculations:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useFocusEffect(
+    useCallback(() => {
+      loadCalculations();
+    }, [])
+  );
+
+  const onRefresh = async () => {
+    setRefreshing(true);
+    await loadCalculations();
+    setRefreshing(false);
+    notification('success');
+  };
+
+  const handleClearHistory = () => {
+    Alert.alert(
+      t('history.clear.title'),
+      t('history.clear.message'),
+      [
+        { text: t('common.cancel'), style: 'cancel' },
+        {
+          text: t('common.delete'),
+          style: 'destructive',
+          onPress: async () => {
+            await clearCalculations();
+            setCalculations([]);
+            setItemFilter(null);
+            impact('medium');
+          },
+        },
+      ]
+    );
+  };
+
+  // Open the calculator with the item, mode and input of a past calculation
+  const replayCalculation = (calculation: Calculation) => {
+    impact('light');
+    router.navigate({
+      pathname: '/',
+      params: {
+        replayItemId: calculation.itemId,
+        replayMode: calculation.mode,
+        replayInput: replayInput(calculation).toString(),
+        replayQuantity: calculation.quantity?.toString(),
+        replayKey: Date.now().toString(),
+      },
+    });
+  };
+
+  // Distinct items that appear in the history, most recent first
+  const historyItems = useMemo(() => {
+    const seen = new Map<string, string>();
+    calculations.forEach(calculation => {
+      if (!seen.has(calculation.itemId)) {
+        seen.set(calculation.itemId, calculation.itemName);
+      }
+    });
+    return Array.from(seen, ([id, name]) => ({ id, name }));
+  }, [calculations]);
+
+  const filteredCalculations = useMemo(() => {
+    const query = searchQuery.trim().toLowerCase();
+    return calculations.filter(calculation =>
+      (modeFilter === 'all' || calculation.mode === modeFilter) &&
+      (itemFilter === null || calculation.itemId === itemFilter) &&
+      (query === '' || calculation.itemName.toLowerCase().includes(query))
+    );
+  }, [calculations, searchQuery, modeFilter, itemFilter]);
+
+  // Group calculations by calendar day, keeping the newest day first
+  const groupedCalculations = useMemo(() => {
+    const groups: CalculationGroup[] = [];
+    [...filteredCalculations]
+      .sort((a, b) => b.timestamp - a.timestamp)
+      .forEach(calculation => {
+        const dayKey = new Date(calculation.timestamp).toDateString();
+        const lastGroup = groups[groups.length - 1];
+        if (lastGroup && lastGroup.dayKey === dayKey) {
+          lastGroup.calculations.push(calculation);
+        } else {
+          groups.push({ dayKey, timestamp: calculation.timestamp, calculations: [calculation] });
+        }
+      });
+    return groups;
+  }, [filteredCalculations]);
+
+  const formatDayLabel = (timestamp: number) => {
+    const day = new Date(timestamp).toDateString();
+    const today = new Date();
+    const yesterday = new Date();
+    yesterday.setDate(today.getDate() - 1);
+
+    if (day === today.toDateString()) return t('history.today');
+    if (day === yesterday.toDateString()) return t('history.yesterday');
+    return new Date(timestamp).toLocaleDateString(i18n.language, {
+      weekday: 'short',
+      day: 'numeric',
+      month: 'short',
+      year: 'numeric',
+    });
+  };
+
+  const formatTime = (timestamp: number) =>
+    new Date(timestamp).toLocaleTimeString(i18n.language, {
+      hour: '2-digit',
+      minute: '2-digit',
+    });
+
+  const styles = createStyles(theme);
+
+  if (isLoading) {
+    return (
+      <View style={styles.container}>
+        <LinearGradient colors={theme.gradients.background} style={styles.gradient}>
+          <StatusBar style={theme.isDark ? "light" : "dark"} />
+          <View style={styles.loadingContainer}>
+            <SkeletonCard />
+            <SkeletonCard />
+            <SkeletonCard />
+          </View>
+        </LinearGradient>
+      </View>
+    );
+  }
+
+  const modeFilters: { id: ModeFilter; label: string }[] = [
+    { id: 'all', label: t('history.filters.allModes') },
+    { id: 'price', label: t('calculator.mode.calculateCost') },
+    { id: 'weight', label: t('calculator.mode.calculateQuantity') },
+    { id: 'rate', label: t('calculator.mode.calculateRate') },
+  ];
+
+  return (
+    <View style={styles.container}>
+      <LinearGradient colors={theme.gradients.background} style={styles.gradient}>
+        <StatusBar style={theme.isDark ? "light" : "dark"} />
+
+        <ScrollView
+          style={styles.scrollView}
+          showsVerticalScrollIndicator={false}
+          refreshControl={
+            <RefreshControl
+              refreshing={refreshing}
+              onRefresh={onRefresh}
+              tintColor={theme.colors.primary}
+              colors={[theme.colors.primary]}
+            />
+          }
+        >
+          {/* Header */}
+          <Animated.View
+            entering={FadeInDown.duration(500).delay(100)}
+            style={styles.header}
+          >
+            <View style={styles.headerTop}>
+              <Text style={styles.title}>{t('calculator.recentCalculations')}</Text>
+              <View style={styles.headerActions}>
+                <LanguageSwitcher compact />
+                <ThemeToggle />
+                <SettingsButton />
+              </View>
+            </View>
+          </Animated.View>
+
+          {calculations.length === 0 ? (
+            <AnimatedEmptyState
+              title={t('history.empty.title')}
+              description={t('history.empty.description')}
+              icon="calculator"
+            />
+          ) : (
+            <>
+              {/* Search & Filters */}
+              <Animated.View entering={FadeInDown.duration(500).delay(200)}>
+                <GlassCard style={styles.card}>
+                  <View style={styles.searchContainer}>
+                    <Search size={20} color={theme.colors.textMuted} />
+                    <TextInput
+                      style={styles.searchInput}
+                      value={searchQuery}
+                      onChangeText={setSearchQuery}
+                      placeholder={t('history.searchPlaceholder')}
+                      placeholderTextColor={theme.colors.textMuted}
+                      returnKeyType="search"
+                    />
+                    {searchQuery.length > 0 && (
+                      <TouchableOpacity onPress={() => setSearchQuery('')} style={styles.clearButton}>
+                        <X size={18} color={theme.colors.textMuted} />
+                      </TouchableOpacity>
+                    )}
+                  </View>
+
+                  <View style={styles.filterRow}>
+                    {modeFilters.map(filter => (
+                      <TouchableOpacity
+                        key={filter.id}
+                        style={[styles.filterChip, modeFilter === filter.id && styles.filterChipActive]}
+                        onPress={() => {
+                          selection();
+                          setModeFilter(filter.id);
+                        }}
+                        activeOpacity={0.7}
+                      >
+                        <Text style={[styles.filterChipText, modeFilter === filter.id && styles.filterChipTextActive]}>
+                          {filter.label}
+                        </Text>
+                      </TouchableOpacity>
+                    ))}
+                  </View>
+
+                  <ScrollView
+                    horizontal
+                    showsHorizontalScrollIndicator={false}
+                    contentContainerStyle={styles.itemFilterList}
+                  >
+                    <TouchableOpacity
+                      style={[styles.filterChip, itemFilter === null && styles.filterChipActive]}
+                      onPress={() => {
+                        selection();
+                        setItemFilter(null);
+                      }}
+                      activeOpacity={0.7}
+                    >
+                      <Text style={[styles.filterChipText, itemFilter === null && styles.filterChipTextActive]}>
+                        {t('history.filters.allItems')}
+                      </Text>
+                    </TouchableOpacity>
+                    {historyItems.map(item => (
+                      <TouchableOpacity
+                        key={item.id}
+                        style={[styles.filterChip, itemFilter === item.id && styles.filterChipActive]}
+                        onPress={() => {
+                          selection();
+                          setItemFilter(itemFilter === item.id ? null : item.id);
+                        }}
+                        activeOpacity={0.7}
+                      >
+                        <Text style={[styles.filterChipText, itemFilter === item.id && styles.filterChipTextActive]}>
+                          {item.name}
+                        </Text>
+                      </TouchableOpacity>
+                    ))}
+                  </ScrollView>
+                </GlassCard>
+              </Animated.View>
+
+              {/* Calculations grouped by day */}
+              {groupedCalculations.map((group, groupIndex) => (
+                <Animated.View
+                  key={group.dayKey}
+                  entering={FadeInDown.duration(500).delay(300 + groupIndex * 100)}
+                  layout={Layout.springify()}
+                >
+                  <GlassCard style={styles.card}>
+                    <Text style={styles.dayTitle}>{formatDayLabel(group.timestamp)}</Text>
+
+                    {group.calculations.map((calculation, index) => (
+                      <TouchableOpacity
+                        key={calculation.id}
+                        style={[
+                          styles.historyItem,
+                          index !== group.calculations.length - 1 && styles.historyItemBorder,
+                        ]}
+                        onPress={() => replayCalculation(calculation)}
+                        activeOpacity={0.7}
+                      >
+                        <View style={[
+                          styles.modeIcon,
+                          calculation.mode === 'price'
+                            ? styles.modeIconPrice
+                            : calculation.mode === 'weight' ? styles.modeIconWeight : styles.modeIconRate,
+                        ]}>
+                          {calculation.mode === 'price' ? (
+                            <Coins size={16} color="#FFFFFF" />
+                          ) : calculation.mode === 'weight' ? (
+                            <Scale size={16} color="#FFFFFF" />
+                          ) : (
+                            <Tag size={16} color="#FFFFFF" />
+                          )}
+                        </View>
+
+                        <View style={styles.historyInfo}>
+                          <View style={styles.historyItemHeader}>
+                            <Text style={styles.historyItemName} numberOfLines={1}>{calculation.itemName}</Text>
+                            <Text style={styles.historyItemTime}>{formatTime(calculation.timestamp)}</Text>
+                          </View>
+                          <Text style={styles.historyItemDetails}>
+                            {calculation.mode === 'price'
+                              ? `${formatQuantity(calculation.input, calculation.unit)} → ${formatCurrency(calculation.result)}`
+                              : calculation.mode === 'weight'
+                                ? `${formatCurrency(calculation.input)} → ${formatQuantity(calculation.result, calculation.unit)}`
+                                : t('history.rateSummary', {
+                                  amount: formatCurrency(calculation.input),
+                                  quantity: formatQuantity(calculation.quantity ?? 0, calculation.unit),
+                                  rate: formatCurrency(calculation.result),
+                                  unit: unitLabel(calculation.unit),
+                                })}
+                          </Text>
+                          {calculation.tare && (
+                            <Text style={styles.historyItemRate}>{formatTareWeights(calculation)}</Text>
+                          )}
+                          {calculation.yieldPercent !== undefined && (
+                            <Text style={styles.historyItemRate}>{formatCalculationYield(calculation)}</Text>
+                          )}
+                          <Text style={styles.historyItemRate}>
+                            {t('history.rateAtTime', { price: formatCurrency(calculation.perKgPrice), unit: unitLabel(calculation.unit) })}
+                          </Text>
+                        </View>
+
+                        <ChevronRight size={18} color={theme.colors.textMuted} />
+                      </TouchableOpacity>
+                    ))}
+                  </GlassCard>
+                </Animated.View>
+              ))}
+
+              {groupedCalculations.length === 0 && (
+                <View style={styles.noResultsContainer}>
+                  <Text style={styles.noResultsText}>{t('history.noMatches')}</Text>
+                </View>
+              )}
+
+              {/* Clear History */}
+              <TouchableOpacity
+                style={styles.clearHistoryButton}
+                onPress={handleClearHistory}
+                activeOpacity={0.7}
+              >
+                <Trash2 size={18} color={theme.colors.error} />
+                <Text style={styles.clearHistoryText}>{t('calculator.actions.clearHistory')}</Text>
+              </TouchableOpacity>
+            </>
+          )}
+
+          <View style={styles.bottomPadding} />
+        </ScrollView>
+      </LinearGradient>
+    </View>
+  );
+}
+
+const createStyles = (theme: any) => StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  gradient: {
+    flex: 1,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  loadingContainer: {
+    padding: 20,
+    paddingTop: 100,
+  },
+  header: {
+    paddingHorizontal: 16,
+    paddingTop: 40,
+    paddingBottom: 8,
+  },
+  headerTop: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  title: {
+    fontSize: 22,
+    fontWeight: '800',
+    color: theme.colors.text,
+  },
+  headerActions: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  card: {
+    marginHorizontal: 12,
+    marginBottom: 10,
+  },
+  searchContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: theme.colors.surfaceVariant,
+    borderRadius: 14,
+    paddingHorizontal: 16,
+    paddingVertical: 14,
+    marginBottom: 12,
+    borderWidth: 1,
+    borderColor: theme.colors.border,
+  },
+  searchInput: {
+    flex: 1,
+    fontSize: 16,
+    color: theme.colors.text,
+    marginLeft: 12,
+  },
+  clearButton: {
+    padding: 4,
+    marginLeft: 8,
+  },
+  filterRow: {
+    flexDirection: 'row',
+    gap: 8,
+    marginBottom: 10,
+  },
+  itemFilterList: {
+    paddingRight: 16,
+    gap: 8,
+  },
+  filterChip: {
+    backgroundColor: theme.colors.surfaceVariant,
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 20,
+    borderWidth: 1,
+    borderColor: theme.colors.border,
+  },
+  filterChipActive: {
+    backgroundColor: theme.colors.primary,
+    borderColor: theme.colors.primary,
+  },
+  filterChipText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: theme.colors.textSecondary,
+  },
+  filterChipTextActive: {
+    color: '#FFFFFF',
+    fontWeight: '700',
+  },
+  dayTitle: {
+    fontSize: 14,
+    fontWeight: '700',
+    color: theme.colors.textMuted,
+    marginBottom: 8,
+    textTransform: 'uppercase',
+    letterSpacing: 0.5,
+  },
+  historyItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 12,
+    gap: 12,
+  },
+  historyItemBorder: {
+    borderBottomWidth: 1,
+    borderBottomColor: theme.colors.borderLight,
+  },
+  modeIcon: {
+    width: 32,
+    height: 32,
+    borderRadius: 10,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  modeIconPrice: {
+    backgroundColor: '#10B981',
+  },
+  modeIconWeight: {
+    backgroundColor: '#6366F1',
+  },
+  modeIconRate: {
+    backgroundColor: '#F59E0B',
+  },
+  historyInfo: {
+    flex: 1,
+  },
+  historyItemHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginBottom: 4,
+  },
+  historyItemName: {
+    flex: 1,
+    fontSize: 16,
+    fontWeight: '600',
+    color: theme.colors.text,
+    marginRight: 8,
+  },
+  historyItemTime: {
+    fontSize: 12,
+    color: theme.colors.textMuted,
+  },
+  historyItemDetails: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: theme.colors.textSecondary,
+  },
+  historyItemRate: {
+    fontSize: 12,
+    color: theme.colors.textMuted,
+    marginTop: 2,
+  },
+  noResultsContainer: {
+    padding: 20,
+    alignItems: 'center',
+  },
+  noResultsText: {
+    color: theme.colors.textMuted,
+    fontSize: 15,
+  },
+  clearHistoryButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+    marginHorizontal: 12,
+    marginTop: 6,
+    padding: 14,
+    borderRadius: 14,
+    borderWidth: 1,
+    borderColor: theme.colors.error + '40',
+  },
+  clearHistoryText: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: theme.colors.error,
+  },
+  bottomPadding: {
+    height: 85,
+  },
+});
@@ -8,6 +8,7 @@ import {
   StyleSheet,
   Dimensions,
   RefreshControl,
+  Alert,
 } from 'react-native';
 import { StatusBar } from 'expo-status-bar';
 import { LinearGradient } from 'expo-linear-gradient';
@@ -26,8 +27,16 @@ import {
   Zap,
   Edit2,
   Check,
+  Info,
+  Trophy,
+  Eye,
+  EyeOff,
+  Tag,
+  ShoppingCart,
+  ChevronRight,
 } from 'lucide-react-native';
 import { useFocusEffect } from '@react-navigation/native';
+import { useLocalSearchParams, useRouter } from 'expo-router';
 import Animated, {
   useSharedValue,
   useAnimatedStyle,
@@ -44,18 +53,48 @@ import {
   getRecentItemsWithData,
   addRecentItem,
   updateItem,
+  saveCalculation,
+  getDiscounts,
   type Item,
+  type Unit,
+  type Discount,
 } from '@/utils/storage';
+import type { CalculationMode, PriceTier } from '@/types';
+import { DEFAULT_UNIT, formatQuantity, getUnitDimension, unitLabel } from '@/utils/units';
+import { calculateCost, calculateQuantity, calculateRate } from '@/utils/money';
+import { roundAmount, roundQuantityToScale } from '@/utils/rounding';
+import { getItemTaxRate, isTaxInclusive, taxInTotal, taxOnBase, type TaxBreakdown } from '@/utils/tax';
+import { applyDiscounts, quantityForAmount, type DiscountedPrice } from '@/utils/discounts';
+import { formatPriceTier, priceForQuantity, solveAcrossTiers } from '@/utils/tiers';
+import { formatPercentage, marginPercent, profitFor } from '@/utils/margin';
+import { grossQuantity, netQuantity, tareInUnit } from '@/utils/tare';
+import { cleanedQuantity, rawQuantity, usablePrice } from '@/utils/yield';
+import { evaluateInput, inputValueOf } from '@/utils/expression';
+import { priceBillLine, totalBill, type BillEntry } from '@/utils/bill';
+import { dropStalePackQuote, formatPackBreakdown, isPackQuoteCurrent, splitIntoPacks } from '@/utils/packs';
+import { parseDecimal } from '@/utils/validation';
 import { useTheme } from '@/contexts/ThemeContext';
+import { useSettings } from '@/contexts/SettingsContext';
+import { useBill } from '@/contexts/BillContext';
 import { ThemeToggle } from '@/components/ThemeToggle';
 import { GlassCard } from '@/components/GlassCard';
 import { SkeletonCard, SkeletonLoader } from '@/components/SkeletonLoader';
 import { CategoryBadge } from '@/components/CategoryPicker';
 import { useHaptics } from '@/hooks/useHaptics';
+import { useCurrency } from '@/hooks/useCurrency';
 import { useTranslation } from 'react-i18next';
 import { LanguageSwitcher } from '@/components/LanguageSwitcher';
+import { SettingsButton } from '@/components/SettingsButton';
 
-type CalculationMode = 'price' | 'weight';
+// Route params used to open the calculator on an item, optionally replaying
+// a saved calculation (History tab, item detail screen)
+type ReplayParams = {
+  replayItemId?: string;
+  replayMode?: string;
+  replayInput?: string;
+  replayQuantity?: string;
+  replayKey?: string;
+};
 
 const { width: screenWidth } = Dimensions.get('window');
 
@@ -64,6 +103,11 @@ export default function CalculatorTab() {
   const { theme } = useTheme();
   const { impact, notification, selection } = useHaptics();
   const { t } = useTranslation();
+  const { currency, formatCurrency } = useCurrency();
+  const { settings } = useSettings();
+  const replayParams = useLocalSearchParams<ReplayParams>();
+  const { lines: billLines, addLine } = useBill();
+  const router = useRouter();
 
   const [items, setItems] = useState<Item[]>([]);
   const [filteredItems, setFilteredItems] = useState<Item[]>([]);
@@ -72,8 +116,22 @@ export default function CalculatorTab() {
   const [selectedItem, setSelectedItem] = useState<Item | null>(null);
   const [mode, setMode] = useState<CalculationMode>('price');
   const [inputValue, setInputValue] = useState('');
+  // Rate mode: the quantity the amount in `inputValue` paid for
+  const [rateQuantityValue, setRateQuantityValue] = useState('');
   const [inputError, setInputError] = useState<string | null>(null);
   const [result, setResult] = useState<number | null>(null);
+  const [taxBreakdown, setTaxBreakdown] = useState<TaxBreakdown | null>(null);
+  const [discounts, setDiscounts] = useState<Discount[]>([]);
+  const [discountedPrice, setDiscountedPrice] = useState<DiscountedPrice | null>(null);
+  const [appliedTier, setAppliedTier] = useState<PriceTier | null>(null);
+  const [profit, setProfit] = useState<{ amount: number; margin: number } | null>(null);
+  // Hidden by default so customers at the counter don't see it
+  const [isProfitVisible, setIsProfitVisible] = useState(false);
+  const [selectedTareId, setSelectedTareId] = useState<string | null>(null);
+  const [isYieldEnabled, setIsYieldEnabled] = useState(false);
+  // Raw weight behind a cleaned-weight result
+  const [rawWeight, setRawWeight] = useState<number | null>(null);
+  const [isResultSaved, setIsResultSaved] = useState(false);
   const [isLoading, setIsLoading] = useState(true);
   const [refreshing, setRefreshing] = useState(false);
 
@@ -89,6 +147,8 @@ export default function CalculatorTab() {
 
   // Refs
   const inputRef = React.useRef<TextInput>(null);
+  // Key of the last replayed calculation, so reloading items doesn't replay it again
+  const replayedKeyRef = React.useRef<string | null>(null);
 
   // Animation values
   const resultScale = useSharedValue(0);
@@ -97,28 +157,28 @@ export default function CalculatorTab() {
 
   const loadData = async () => {
     try {
-      const [loadedItems, loadedRecent] = await Promise.all([
+      const [loadedItems, loadedRecent, loadedDiscounts] = await Promise.all([
         getItems(),
         getRecentItemsWithData(),
+        getDiscounts(),
       ]);
 
       setItems(loadedItems);
+      setDiscounts(loadedDiscounts);
       setFilteredItems(loadedItems);
       setRecentItems(loadedRecent);
 
-      // Update selected item if it exists
-      if (selectedItem) {
-        const updatedSelectedItem = loadedItems.find(item => item.id === selectedItem.id);
-        if (updatedSelectedItem) {
-          setSelectedItem(updatedSelectedItem);
-        } else if (loadedItems.length > 0) {
-          setSelectedItem(loadedItems[0]);
-        } else {
-          setSelectedItem(null);
+      // Update selected item if it exists (functional update so a replayed
+      // selection made while loading is not overwritten by a stale closure)
+      setSelectedItem(current => {
+        if (current) {
+          const updatedSelectedItem = loadedItems.find(item => item.id === current.id);
+          if (updatedSelectedItem) {
+            return updatedSelectedItem;
+          }
         }
-      } else if (loadedItems.length > 0 && !selectedItem) {
-        setSelectedItem(loadedItems[0]);
-      }
+        return loadedItems.length > 0 ? loadedItems[0] : null;
+      });
     } catch (error) {
       console.error('Error loading data:', error);
     } finally {
@@ -174,6 +234,30 @@ export default function CalculatorTab() {
     }
   }, [result, resultScale, resultGlow]);
 
+  // Replay a calculation opened from the History tab
+  const { replayKey, replayItemId, replayMode, replayInput, replayQuantity } = replayParams;
+  useEffect(() => {
+    // Items load after the screen mounts; wait for them before replaying
+    if (!replayKey || !replayItemId || items.length === 0) return;
+    if (replayedKeyRef.current === replayKey) return;
+
+    const item = items.find(i => i.id === replayItemId);
+    if (!item) return;
+
+    replayedKeyRef.current = replayKey;
+    setIsQuickCalc(false);
+    setIsEditingPrice(false);
+    setIsItemSelectionExpanded(false);
+    setSelectedItem(item);
+    // Opening an item without a calculation keeps the current mode
+    if (replayMode) {
+      setMode(replayMode === 'weight' || replayMode === 'rate' ? replayMode : 'price');
+    }
+    setInputValue(replayInput ?? '');
+    setRateQuantityValue(replayQuantity ?? '');
+    setInputError(null);
+  }, [replayKey, replayItemId, replayMode, replayInput, replayQuantity, items]);
+
   const handleItemSelect = async (item: Item) => {
     selection();
     setSelectedItem(item);
@@ -186,23 +270,59 @@ export default function CalculatorTab() {
     setSearchQuery('');
   };
 
+  // Quick calc prices are always per kg; otherwise use the item's own unit
+  const quantityUnit: Unit = isQuickCalc ? DEFAULT_UNIT : selectedItem?.unit ?? DEFAULT_UNIT;
+
+  // The input may be an expression such as "1.25 + 0.8" or "500g + 1.2kg"
+  const parsedInput = evaluateInput(inputValue, mode === 'price' ? quantityUnit : null);
+  const inputNumber = inputValueOf(parsedInput);
+  const parsedRateQuantity = evaluateInput(rateQuantityValue, quantityUnit);
+  const rateQuantity = inputValueOf(parsedRateQuantity);
+  const inputErrorKey = parsedInput.status === 'error'
+    ? parsedInput.error
+    : mode === 'rate' && parsedRateQuantity.status === 'error' ? parsedRateQuantity.error : null;
+
+  useEffect(() => {
+    setInputError(inputErrorKey ? t(`calculator.expression.${inputErrorKey}`) : null);
+  }, [inputErrorKey, t]);
+
+  // Container weight to take off, in the unit being weighed
+  const selectedTare = settings.tarePresets.find(preset => preset.id === selectedTareId) ?? null;
+  // Cleaned weights in and out when the item's yield is switched on
+  const yieldPercent = !isQuickCalc && isYieldEnabled && mode !== 'rate' ? selectedItem?.yieldPercent ?? null : null;
+  const tareQuantity = selectedTare && yieldPercent === null && mode !== 'rate' ? tareInUnit(selectedTare, quantityUnit) : null;
+
   // Auto-Calculation Effect
   useEffect(() => {
+    setTaxBreakdown(null);
+    setDiscountedPrice(null);
+    setAppliedTier(null);
+    setProfit(null);
+    setRawWeight(null);
+
+    // Rate mode needs no price: the amount and quantity give it
+    if (mode === 'rate') {
+      setResult(inputNumber > 0 && rateQuantity > 0 ? calculateRate(inputNumber, rateQuantity) : null);
+      return;
+    }
+
     // Quick calc mode
     if (isQuickCalc) {
       const price = parseFloat(quickCalcPrice);
-      const input = parseFloat(inputValue);
+      const input = inputNumber;
 
-      if (isNaN(price) || price <= 0 || isNaN(input) || input <= 0) {
+      // In price mode the input is the gross weight on the scale
+      const quantity = mode === 'price' && tareQuantity ? netQuantity(input, tareQuantity) : input;
+      if (isNaN(price) || price <= 0 || isNaN(input) || !(quantity > 0)) {
         setResult(null);
         return;
       }
 
       let calculatedResult: number;
       if (mode === 'price') {
-        calculatedResult = input * price;
+        calculatedResult = calculateCost(price, quantity);
       } else {
-        calculatedResult = input / price;
+        calculatedResult = calculateQuantity(input, price);
       }
       setResult(calculatedResult);
       return;
@@ -214,21 +334,146 @@ export default function CalculatorTab() {
       return;
     }
 
-    const input = parseFloat(inputValue);
-    if (isNaN(input) || input <= 0) {
+    const input = inputNumber;
+    const quantity = mode === 'price' && tareQuantity ? netQuantity(input, tareQuantity) : input;
+    if (isNaN(input) || !(quantity > 0)) {
       setResult(null);
       return;
     }
 
+    const taxRate = getItemTaxRate(selectedItem, settings.categoryTaxRates);
+    const inclusive = isTaxInclusive(selectedItem);
+
+    // Offers come off the price before tax is worked out
     let calculatedResult: number;
+    let breakdown: TaxBreakdown;
+    let pricing: DiscountedPrice;
+    let tier: PriceTier | null;
+    let sold: number;
     if (mode === 'price') {
-      calculatedResult = input * selectedItem.pricePerKg;
+      // The input is the cleaned weight wanted; the raw weight is what's charged
+      sold = yieldPercent !== null ? rawQuantity(quantity, yieldPercent) : quantity;
+      const rate = priceForQuantity(selectedItem, sold);
+      tier = rate.tier;
+      pricing = applyDiscounts(discounts, { ...selectedItem, pricePerKg: rate.price }, sold);
+      breakdown = inclusive ? taxInTotal(pricing.final, taxRate) : taxOnBase(pricing.final, taxRate);
+      calculatedResult = breakdown.total;
     } else {
-      calculatedResult = input / selectedItem.pricePerKg;
+      // The amount given includes tax; with a pre-tax price only the base buys goods
+      breakdown = taxInTotal(input, taxRate);
+      const budget = inclusive ? input : breakdown.base;
+      const bought = solveAcrossTiers(selectedItem, price =>
+        quantityForAmount(discounts, { ...selectedItem, pricePerKg: price }, budget)
+      );
+      tier = bought.tier;
+      pricing = bought.pricing;
+      sold = bought.quantity;
+      calculatedResult = yieldPercent !== null ? cleanedQuantity(sold, yieldPercent) : sold;
     }
 
     setResult(calculatedResult);
-  }, [inputValue, selectedItem, mode, isQuickCalc, quickCalcPrice]);
+    setAppliedTier(tier);
+    setRawWeight(yieldPercent !== null ? sold : null);
+    if (selectedItem.costPrice !== undefined) {
+      // Profit is measured on what the shop keeps, before tax
+      const revenue = inclusive ? taxInTotal(pricing.final, taxRate).base : pricing.final;
+      setProfit({
+        amount: profitFor(selectedItem.costPrice, sold, revenue),
+        margin: marginPercent(selectedItem.costPrice * sold, revenue),
+      });
+    }
+    setTaxBreakdown(taxRate > 0 ? breakdown : null);
+    setDiscountedPrice(pricing.discounts.length > 0 ? pricing : null);
+  }, [inputNumber, rateQuantity, selectedItem, mode, isQuickCalc, quickCalcPrice, settings.categoryTaxRates, discounts, tareQuantity, yieldPercent]);
+
+  // A changed result has not been saved yet
+  useEffect(() => {
+    setIsResultSaved(false);
+  }, [result]);
+
+  // Rate mode saves only through handleUpdatePrice: the amount and quantity
+  // entered say nothing about the selected item until its price is updated
+  const handleSaveCalculation = async () => {
+    if (!selectedItem || roundedResult === null || isQuickCalc || mode === 'rate') return;
+
+    await saveCalculation({
+      itemId: selectedItem.id,
+      itemName: selectedItem.name,
+      mode,
+      input: inputNumber,
+      result: roundedResult,
+      perKgPrice: appliedTier?.price ?? selectedItem.pricePerKg,
+      unit: selectedItem.unit,
+      tare: selectedTare && tareQuantity !== null ? { name: selectedTare.name, quantity: tareQuantity } : undefined,
+      yieldPercent: yieldPercent ?? undefined,
+    });
+    setIsResultSaved(true);
+    notification('success');
+  };
+
+  // Put what's on screen on the bill and clear the input for the next item
+  const handleAddToBill = () => {
+    if (!selectedItem || isQuickCalc || mode === 'rate' || result === null) return;
+    const entry: BillEntry = mode === 'price'
+      ? { mode: 'price', quantity: rawWeight ?? tareWeights?.net ?? inputNumber }
+      : { mode: 'weight', amount: inputNumber };
+    addLine(priceBillLine(selectedItem, entry, discounts, settings.categoryTaxRates));
+    notification('success');
+    setInputValue('');
+  };
+
+  // Rate mode: make the worked-out rate the selected item's price
+  const handleUpdatePrice = () => {
+    if (!selectedItem || roundedResult === null) return;
+    const item = selectedItem;
+    const price = roundedResult;
+    const amount = inputNumber;
+    const quantity = rateQuantity;
+    Alert.alert(
+      t('calculator.rate.updateTitle'),
+      t('calculator.rate.updateMessage', {
+        name: item.name,
+        from: formatCurrency(item.pricePerKg),
+        to: formatCurrency(price),
+        unit: unitLabel(item.unit),
+      }),
+      [
+        { text: t('common.cancel'), style: 'cancel' },
+        {
+          text: t('calculator.rate.update'),
+          onPress: async () => {
+            if (!(await updateItem(item.id, { pricePerKg: price }, 'calculator'))) {
+              Alert.alert(t('common.error'), t('calculator.priceUpdateFailed'));
+              notification('error');
+              return;
+            }
+            setSelectedItem(dropStalePackQuote({ ...item, pricePerKg: price }));
+            await saveCalculation({
+              itemId: item.id,
+              itemName: item.name,
+              mode: 'rate',
+              input: amount,
+              result: price,
+              perKgPrice: price,
+              unit: item.unit,
+              quantity,
+            });
+            notification('success');
+          },
+        },
+      ]
+    );
+  };
+
+  // Rate mode: open the add item form with the rate filled in
+  const handleSaveAsItem = () => {
+    if (roundedResult === null) return;
+    impact('light');
+    router.push({
+      pathname: '/items',
+      params: { newItemPrice: roundedResult.toString(), newItemUnit: quantityUnit, newItemKey: Date.now().toString() },
+    });
+  };
 
   // Smart Focus Effect
   useEffect(() => {
@@ -240,10 +485,11 @@ export default function CalculatorTab() {
     }
   }, [selectedItem, isItemSelectionExpanded]);
 
-  const switchMode = () => {
+  const switchMode = (next: CalculationMode) => {
     selection();
-    setMode(mode === 'price' ? 'weight' : 'price');
+    setMode(next);
     setInputValue('');
+    setRateQuantityValue('');
     setInputError(null);
     setResult(null);
   };
@@ -256,8 +502,38 @@ export default function CalculatorTab() {
     setResult(null);
   };
 
-  const formatCurrency = (amount: number) => `₹${amount.toFixed(2)}`;
-  const formatWeight = (weight: number) => `${weight.toFixed(3)} kg`;
+  // Cash and scale rounding; the exact value is shown alongside when they differ
+  const roundedResult = result === null
+    ? null
+    : mode === 'price'
+      ? roundAmount(result, settings.rounding)
+      : mode === 'weight'
+        ? roundQuantityToScale(result, quantityUnit, settings.rounding)
+        : result; // rates keep thousandths of a paisa, so prices below a paisa stay exact
+
+  const isRounded = result !== null && roundedResult !== null && roundedResult !== result;
+  const formatResult = (value: number) =>
+    mode === 'price'
+      ? formatCurrency(value)
+      : mode === 'weight'
+        ? formatQuantity(value, quantityUnit)
+        : `${formatCurrency(value)}/${unitLabel(quantityUnit)}`;
+
+  // Gross, tare and net weights when a container is selected
+  const tareWeights = tareQuantity !== null && roundedResult !== null
+    ? mode === 'price'
+      ? { gross: inputNumber, net: netQuantity(inputNumber, tareQuantity) }
+      : { gross: grossQuantity(roundedResult, tareQuantity), net: roundedResult }
+    : null;
+  const canUseTare = settings.tarePresets.length > 0 && getUnitDimension(quantityUnit) === 'mass' && yieldPercent === null && mode !== 'rate';
+  const canUseYield = !isQuickCalc && selectedItem?.yieldPercent !== undefined && mode !== 'rate';
+
+  // Express the quantity in whole packs for items bought by the pack
+  const packQuote = !isQuickCalc && mode !== 'rate' && selectedItem && isPackQuoteCurrent(selectedItem) ? selectedItem.packQuote : undefined;
+  const packQuantity = rawWeight ?? (mode === 'price' ? tareWeights?.net ?? inputNumber : roundedResult);
+  const packBreakdown = packQuote && roundedResult !== null && packQuantity !== null && packQuantity > 0
+    ? formatPackBreakdown(splitIntoPacks(packQuantity, quantityUnit, packQuote), packQuote)
+    : null;
 
   const errorAnimatedStyle = useAnimatedStyle(() => ({
     opacity: errorOpacity.value,
@@ -349,6 +625,7 @@ export default function CalculatorTab() {
               <View style={styles.headerActions}>
                 <LanguageSwitcher compact />
                 <ThemeToggle />
+                <SettingsButton />
               </View>
             </View>
           </Animated.View>
@@ -364,7 +641,7 @@ export default function CalculatorTab() {
                     mode === 'price' && styles.modeToggleButtonActive,
                     mode === 'price' && styles.modeToggleButtonCost
                   ]}
-                  onPress={() => { if (mode !== 'price') switchMode(); }}
+                  onPress={() => { if (mode !== 'price') switchMode('price'); }}
                   activeOpacity={0.7}
                 >
                   <Coins size={16} color={mode === 'price' ? '#FFF' : theme.colors.textMuted} />
@@ -380,7 +657,7 @@ export default function CalculatorTab() {
                     mode === 'weight' && styles.modeToggleButtonActive,
                     mode === 'weight' && styles.modeToggleButtonQuantity
                   ]}
-                  onPress={() => { if (mode !== 'weight') switchMode(); }}
+                  onPress={() => { if (mode !== 'weight') switchMode('weight'); }}
                   activeOpacity={0.7}
                 >
                   <Scale size={16} color={mode === 'weight' ? '#FFF' : theme.colors.textMuted} />
@@ -389,6 +666,22 @@ export default function CalculatorTab() {
                     mode === 'weight' && styles.modeToggleTextActive
                   ]}>{t('calculator.mode.calculateQuantity')}</Text>
                 </TouchableOpacity>
+
+                <TouchableOpacity
+                  style={[
+                    styles.modeToggleButton,
+                    mode === 'rate' && styles.modeToggleButtonActive,
+                    mode === 'rate' && styles.modeToggleButtonRate
+                  ]}
+                  onPress={() => { if (mode !== 'rate') switchMode('rate'); }}
+                  activeOpacity={0.7}
+                >
+                  <Tag size={16} color={mode === 'rate' ? '#FFF' : theme.colors.textMuted} />
+                  <Text style={[
+                    styles.modeToggleText,
+                    mode === 'rate' && styles.modeToggleTextActive
+                  ]}>{t('calculator.mode.calculateRate')}</Text>
+                </TouchableOpacity>
               </View>
 
               {/* Quick Calc Toggle */}
@@ -408,7 +701,7 @@ export default function CalculatorTab() {
                 <View style={styles.quickCalcInputRow}>
                   <Text style={styles.dashboardLabel}>{t('calculator.quickCalc.pricePerKg')}</Text>
                   <View style={styles.quickCalcPriceInputContainer}>
-                    <Text style={styles.quickCalcCurrencySymbol}>₹</Text>
+                    <Text style={styles.quickCalcCurrencySymbol}>{currency.symbol}</Text>
                     <TextInput
                       style={styles.quickCalcPriceInput}
                       value={quickCalcPrice}
@@ -418,7 +711,7 @@ export default function CalculatorTab() {
                       keyboardType="decimal-pad"
                       returnKeyType="next"
                     />
-                    <Text style={styles.quickCalcPriceUnit}>/kg</Text>
+                    <Text style={styles.quickCalcPriceUnit}>/{unitLabel(DEFAULT_UNIT)}</Text>
                   </View>
                 </View>
               ) : (
@@ -438,15 +731,31 @@ export default function CalculatorTab() {
                         <Edit2 size={22} color={theme.colors.primary} />
                       </TouchableOpacity>
                     )}
+                    {selectedItem && !isEditingPrice && (
+                      <TouchableOpacity
+                        style={styles.editPriceButton}
+                        onPress={() => {
+                          impact('light');
+                          router.push({ pathname: '/items/[id]', params: { id: selectedItem.id } });
+                        }}
+                        hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+                      >
+                        <Info size={22} color={theme.colors.primary} />
+                      </TouchableOpacity>
+                    )}
                     {isEditingPrice && (
                       <TouchableOpacity
                         style={styles.confirmPriceButton}
                         onPress={async () => {
-                          const newPrice = parseFloat(tempPrice);
+                          const newPrice = parseDecimal(tempPrice);
                           if (!isNaN(newPrice) && newPrice > 0 && selectedItem) {
-                            await updateItem(selectedItem.id, { pricePerKg: newPrice });
-                            setSelectedItem({ ...selectedItem, pricePerKg: newPrice });
-                            notification('success');
+                            if (await updateItem(selectedItem.id, { pricePerKg: newPrice }, 'calculator')) {
+                              setSelectedItem(dropStalePackQuote({ ...selectedItem, pricePerKg: newPrice }));
+                              notification('success');
+                            } else {
+                              Alert.alert(t('common.error'), t('calculator.priceUpdateFailed'));
+                              notification('error');
+                            }
                           }
                           setIsEditingPrice(false);
                         }}
@@ -467,7 +776,7 @@ export default function CalculatorTab() {
                         <Text style={styles.dashboardItemName} numberOfLines={1}>{selectedItem.name}</Text>
                         {isEditingPrice ? (
                           <View style={styles.editPriceInputRow}>
-                            <Text style={styles.editPriceCurrency}>₹</Text>
+                            <Text style={styles.editPriceCurrency}>{currency.symbol}</Text>
                             <TextInput
                               style={styles.editPriceInput}
                               value={tempPrice}
@@ -476,10 +785,10 @@ export default function CalculatorTab() {
                               autoFocus
                               selectTextOnFocus
                             />
-                            <Text style={styles.editPriceUnit}>/{t('calculator.input.kg')}</Text>
+                            <Text style={styles.editPriceUnit}>/{unitLabel(selectedItem.unit)}</Text>
                           </View>
                         ) : (
-                          <Text style={styles.dashboardItemPrice}>{formatCurrency(selectedItem.pricePerKg)}/{t('calculator.input.kg')}</Text>
+                          <Text style={styles.dashboardItemPrice}>{formatCurrency(selectedItem.pricePerKg)}/{unitLabel(selectedItem.unit)}</Text>
                         )}
                       </View>
                     ) : (
@@ -498,33 +807,258 @@ export default function CalculatorTab() {
                     mode === 'price' ? styles.textPrice : styles.textWeight
                   ]}
                   value={inputValue}
-                  onChangeText={(text) => {
-                    setInputValue(text);
-                    if (inputError) setInputError(null);
-                  }}
+                  onChangeText={setInputValue}
                   placeholder={mode === 'price' ? '0.00' : '0'}
                   placeholderTextColor={theme.colors.textMuted + '40'} // More subtle placeholder
-                  keyboardType="decimal-pad"
+                  // Room for + − × ÷ and units as well as digits
+                  keyboardType="numbers-and-punctuation"
                   returnKeyType="done"
                 />
                 <Text style={styles.dashboardInputUnit}>
-                  {mode === 'price' ? t('calculator.input.kg') : t('calculator.input.rupees')}
+                  {mode === 'price' ? unitLabel(quantityUnit) : currency.symbol}
                 </Text>
               </View>
 
+              {/* Rate mode: what the amount paid for */}
+              {mode === 'rate' && (
+                <View style={styles.rateQuantityRow}>
+                  <Text style={styles.rateQuantityLabel}>{t('calculator.rate.for')}</Text>
+                  <TextInput
+                    style={[styles.rateQuantityInput, styles.textWeight]}
+                    value={rateQuantityValue}
+                    onChangeText={setRateQuantityValue}
+                    placeholder="0"
+                    placeholderTextColor={theme.colors.textMuted + '40'}
+                    keyboardType="numbers-and-punctuation"
+                    returnKeyType="done"
+                  />
+                  <Text style={styles.rateQuantityUnit}>{unitLabel(quantityUnit)}</Text>
+                </View>
+              )}
+              {mode === 'rate' && parsedRateQuantity.status === 'value' && parsedRateQuantity.isExpression && (
+                <Text style={styles.expressionPreview}>= {formatQuantity(parsedRateQuantity.value, quantityUnit)}</Text>
+              )}
+
+              {/* Live preview of an expression, or why it can't be worked out */}
+              {parsedInput.status === 'value' && parsedInput.isExpression && (
+                <Text style={styles.expressionPreview}>
+                  = {mode === 'price' ? formatQuantity(parsedInput.value, quantityUnit) : formatCurrency(parsedInput.value)}
+                </Text>
+              )}
+              {inputError && (
+                <Animated.View style={[styles.errorContainer, errorAnimatedStyle]}>
+                  <Text style={styles.errorText}>{inputError}</Text>
+                </Animated.View>
+              )}
+
+              {/* Container (tare) presets */}
+              {canUseTare && (
+                <ScrollView
+                  horizontal
+                  showsHorizontalScrollIndicator={false}
+                  contentContainerStyle={styles.tareRow}
+                  keyboardShouldPersistTaps="handled"
+                >
+                  {[null, ...settings.tarePresets].map(preset => {
+                    const isActive = (preset?.id ?? null) === (selectedTare?.id ?? null);
+                    return (
+                      <TouchableOpacity
+                        key={preset?.id ?? 'none'}
+                        style={[styles.tareChip, isActive && styles.tareChipActive]}
+                        onPress={() => { selection(); setSelectedTareId(preset?.id ?? null); }}
+                        activeOpacity={0.7}
+                      >
+                        <Text style={[styles.tareChipText, isActive && styles.tareChipTextActive]}>
+                          {preset
+                            ? t('calculator.tare.preset', { name: preset.name, weight: formatQuantity(preset.grams, 'g') })
+                            : t('calculator.tare.none')}
+                        </Text>
+                      </TouchableOpacity>
+                    );
+                  })}
+                </ScrollView>
+              )}
+
+              {/* Yield: quote cleaned weights from the raw price */}
+              {canUseYield && selectedItem?.yieldPercent !== undefined && (
+                <View style={styles.tareRow}>
+                  <TouchableOpacity
+                    style={[styles.tareChip, isYieldEnabled && styles.tareChipActive]}
+                    onPress={() => { selection(); setIsYieldEnabled(enabled => !enabled); }}
+                    activeOpacity={0.7}
+                  >
+                    <Text style={[styles.tareChipText, isYieldEnabled && styles.tareChipTextActive]}>
+                      {t('calculator.yield.toggle', { percent: selectedItem.yieldPercent })}
+                    </Text>
+                  </TouchableOpacity>
+                </View>
+              )}
+
               {/* Footer: Result */}
               <View style={styles.dashboardFooter}>
                 <Text style={styles.dashboardResultLabel}>
-                  {mode === 'price' ? t('calculator.result.totalCost') : t('calculator.result.totalQuantity')}
+                  {mode === 'price'
+                    ? t('calculator.result.totalCost')
+                    : mode === 'weight' ? t('calculator.result.totalQuantity') : t('calculator.result.unitRate')}
                 </Text>
-                {result !== null ? (
-                  <Animated.View entering={FadeIn}>
+                {result !== null && roundedResult !== null ? (
+                  <Animated.View entering={FadeIn} style={styles.resultRow}>
                     <Text style={[
                       styles.dashboardResultValue,
-                      mode === 'price' ? styles.textPrice : styles.textWeight
+                      mode === 'weight' ? styles.textWeight : styles.textPrice
                     ]}>
-                      {mode === 'price' ? formatCurrency(result) : formatWeight(result)}
+                      {formatResult(roundedResult)}
                     </Text>
+                    {tareWeights && selectedTare && tareQuantity !== null && (
+                      <View style={styles.taxBreakdown}>
+                        <View style={styles.taxRow}>
+                          <Text style={styles.taxLabel}>{t('calculator.tare.gross')}</Text>
+                          <Text style={styles.taxValue}>{formatQuantity(tareWeights.gross, quantityUnit)}</Text>
+                        </View>
+                        <View style={styles.taxRow}>
+                          <Text style={styles.taxLabel} numberOfLines={1}>
+                            {t('calculator.tare.tare', { name: selectedTare.name })}
+                          </Text>
+                          <Text style={styles.taxValue}>−{formatQuantity(tareQuantity, quantityUnit)}</Text>
+                        </View>
+                        <View style={[styles.taxRow, styles.taxTotalRow]}>
+                          <Text style={styles.taxTotalLabel}>{t('calculator.tare.net')}</Text>
+                          <Text style={styles.taxTotalValue}>{formatQuantity(tareWeights.net, quantityUnit)}</Text>
+                        </View>
+                      </View>
+                    )}
+                    {rawWeight !== null && yieldPercent !== null && selectedItem && (
+                      <View style={styles.taxBreakdown}>
+                        <View style={styles.taxRow}>
+                          <Text style={styles.taxLabel}>{t('calculator.yield.raw')}</Text>
+                          <Text style={styles.taxValue}>{formatQuantity(rawWeight, quantityUnit)}</Text>
+                        </View>
+                        <View style={styles.taxRow}>
+                          <Text style={styles.taxLabel}>{t('calculator.yield.cleaned', { percent: yieldPercent })}</Text>
+                          <Text style={styles.taxValue}>
+                            {formatQuantity(mode === 'price' ? inputNumber : roundedResult, quantityUnit)}
+                          </Text>
+                        </View>
+                        <View style={[styles.taxRow, styles.taxTotalRow]}>
+                          <Text style={styles.taxTotalLabel}>
+                            {t('calculator.yield.usablePrice', { unit: unitLabel(quantityUnit) })}
+                          </Text>
+                          <Text style={styles.taxTotalValue}>
+                            {formatCurrency(usablePrice(appliedTier?.price ?? selectedItem.pricePerKg, yieldPercent))}
+                          </Text>
+                        </View>
+                      </View>
+                    )}
+                    {appliedTier && selectedItem && (
+                      <Text style={styles.packBreakdown}>
+                        {t('calculator.result.bulkRate', {
+                          tier: formatPriceTier(appliedTier, selectedItem.unit, formatCurrency),
+                        })}
+                      </Text>
+                    )}
+                    {discountedPrice && (
+                      <View style={styles.taxBreakdown}>
+                        <View style={styles.taxRow}>
+                          <Text style={styles.taxLabel}>{t('calculator.discount.original')}</Text>
+                          <Text style={styles.taxValue}>{formatCurrency(discountedPrice.original)}</Text>
+                        </View>
+                        {discountedPrice.discounts.map(({ discount, amount }) => (
+                          <View key={discount.id} style={styles.taxRow}>
+                            <Text style={styles.taxLabel} numberOfLines={1}>{discount.name}</Text>
+                            <Text style={styles.discountValue}>−{formatCurrency(amount)}</Text>
+                          </View>
+                        ))}
+                        <View style={[styles.taxRow, styles.taxTotalRow]}>
+                          <Text style={styles.taxTotalLabel}>{t('calculator.discount.final')}</Text>
+                          <Text style={styles.taxTotalValue}>{formatCurrency(discountedPrice.final)}</Text>
+                        </View>
+                      </View>
+                    )}
+                    {taxBreakdown && (
+                      <View style={styles.taxBreakdown}>
+                        <View style={styles.taxRow}>
+                          <Text style={styles.taxLabel}>{t('calculator.tax.base')}</Text>
+                          <Text style={styles.taxValue}>{formatCurrency(taxBreakdown.base)}</Text>
+                        </View>
+                        <View style={styles.taxRow}>
+                          <Text style={styles.taxLabel}>{t('calculator.tax.cgst', { rate: taxBreakdown.rate / 2 })}</Text>
+                          <Text style={styles.taxValue}>{formatCurrency(taxBreakdown.cgst)}</Text>
+                        </View>
+                        <View style={styles.taxRow}>
+                          <Text style={styles.taxLabel}>{t('calculator.tax.sgst', { rate: taxBreakdown.rate / 2 })}</Text>
+                          <Text style={styles.taxValue}>{formatCurrency(taxBreakdown.sgst)}</Text>
+                        </View>
+                        <View style={[styles.taxRow, styles.taxTotalRow]}>
+                          <Text style={styles.taxTotalLabel}>{t('calculator.tax.total')}</Text>
+                          <Text style={styles.taxTotalValue}>{formatCurrency(taxBreakdown.total)}</Text>
+                        </View>
+                      </View>
+                    )}
+                    {isRounded && (
+                      <Text style={styles.exactResult}>
+                        {t('calculator.result.exact', { value: formatResult(result) })}
+                      </Text>
+                    )}
+                    {packBreakdown && (
+                      <Text style={styles.packBreakdown}>{packBreakdown}</Text>
+                    )}
+                    {profit && (
+                      <TouchableOpacity
+                        style={styles.profitToggle}
+                        onPress={() => { selection(); setIsProfitVisible(visible => !visible); }}
+                        activeOpacity={0.7}
+                      >
+                        {isProfitVisible ? (
+                          <EyeOff size={16} color={theme.colors.textMuted} />
+                        ) : (
+                          <Eye size={16} color={theme.colors.textMuted} />
+                        )}
+                        <Text style={[
+                          styles.profitText,
+                          isProfitVisible && (profit.amount < 0 ? styles.profitLoss : styles.profitGain),
+                        ]}>
+                          {isProfitVisible
+                            ? t('calculator.result.profit', {
+                              amount: formatCurrency(profit.amount),
+                              margin: formatPercentage(profit.margin),
+                            })
+                            : t('calculator.result.showProfit')}
+                        </Text>
+                      </TouchableOpacity>
+                    )}
+                    {mode === 'rate' && (
+                      <View style={styles.resultActions}>
+                        {!isQuickCalc && selectedItem && roundedResult !== selectedItem.pricePerKg && (
+                          <TouchableOpacity style={styles.resultActionButton} onPress={handleUpdatePrice} activeOpacity={0.8}>
+                            <Text style={styles.resultActionText} numberOfLines={1}>
+                              {t('calculator.rate.updateItem', { name: selectedItem.name })}
+                            </Text>
+                          </TouchableOpacity>
+                        )}
+                        <TouchableOpacity style={styles.resultActionButton} onPress={handleSaveAsItem} activeOpacity={0.8}>
+                          <Text style={styles.resultActionText} numberOfLines={1}>{t('calculator.rate.saveAsItem')}</Text>
+                        </TouchableOpacity>
+                      </View>
+                    )}
+                    {!isQuickCalc && selectedItem && mode !== 'rate' && (
+                      <TouchableOpacity
+                        style={[styles.saveButton, isResultSaved && styles.saveButtonDone]}
+                        onPress={handleSaveCalculation}
+                        disabled={isResultSaved}
+                        activeOpacity={0.8}
+                      >
+                        <Text style={styles.saveButtonText}>
+                          {isResultSaved ? t('calculator.actions.saved') : t('calculator.actions.saveCalculation')}
+                        </Text>
+                      </TouchableOpacity>
+                    )}
+                    {!isQuickCalc && selectedItem && mode !== 'rate' && (
+                      <View style={styles.resultActions}>
+                        <TouchableOpacity style={styles.resultActionButton} onPress={handleAddToBill} activeOpacity={0.8}>
+                          <Text style={styles.resultActionText}>{t('bill.addToBill')}</Text>
+                        </TouchableOpacity>
+                      </View>
+                    )}
                   </Animated.View>
                 ) : (
                   <Text style={styles.dashboardResultPlaceholder}>-</Text>
@@ -533,6 +1067,44 @@ export default function CalculatorTab() {
             </GlassCard>
           </Animated.View>
 
+          {/* Running bill */}
+          {billLines.length > 0 && (
+            <Animated.View entering={FadeInDown.duration(300)}>
+              <TouchableOpacity
+                style={styles.billBar}
+                onPress={() => {
+                  impact('light');
+                  router.push('/bill');
+                }}
+                activeOpacity={0.8}
+              >
+                <ShoppingCart size={18} color="#FFFFFF" />
+                <Text style={styles.billBarText}>
+                  {t('bill.summary', {
+                    count: billLines.length,
+                    total: formatCurrency(totalBill(billLines, discounts, settings.rounding).total),
+                  })}
+                </Text>
+                <ChevronRight size={18} color="#FFFFFF" />
+              </TouchableOpacity>
+            </Animated.View>
+          )}
+
+          {/* Best-value comparison */}
+          <Animated.View entering={FadeInDown.duration(500).delay(300)}>
+            <TouchableOpacity
+              style={styles.compareButton}
+              onPress={() => {
+                impact('light');
+                router.push('/compare');
+              }}
+              activeOpacity={0.7}
+            >
+              <Trophy size={16} color={theme.colors.primary} />
+              <Text style={styles.compareButtonText}>{t('calculator.compareOffers')}</Text>
+            </TouchableOpacity>
+          </Animated.View>
+
           {/* 3. Favorites Section (Moved Outside) */}
           {favoriteItems.length > 0 && (
             <Animated.View entering={FadeInDown.duration(500).delay(400)} layout={Layout.springify()}>
@@ -634,7 +1206,7 @@ export default function CalculatorTab() {
                         <Text style={[
                           styles.itemCardPrice,
                           selectedItem?.id === item.id && styles.itemCardPriceSelected
-                        ]}>{formatCurrency(item.pricePerKg)}/kg</Text>
+                        ]}>{formatCurrency(item.pricePerKg)}/{unitLabel(item.unit)}</Text>
                       </TouchableOpacity>
                     ))}
                   </View>
@@ -949,6 +1521,13 @@ const createStyles = (theme: any) => StyleSheet.create({
     color: theme.colors.error,
     fontWeight: '500',
   },
+  expressionPreview: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: theme.colors.textSecondary,
+    textAlign: 'center',
+    marginBottom: 12,
+  },
   calculateButton: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -1223,6 +1802,41 @@ const createStyles = (theme: any) => StyleSheet.create({
     color: theme.colors.textMuted,
   },
   // Favorites Outside
+  compareButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+    marginHorizontal: 12,
+    marginBottom: 12,
+    paddingVertical: 10,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: theme.colors.border,
+    backgroundColor: theme.colors.surfaceVariant,
+  },
+  billBar: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+    marginHorizontal: 12,
+    marginBottom: 12,
+    paddingVertical: 12,
+    paddingHorizontal: 16,
+    borderRadius: 12,
+    backgroundColor: theme.colors.primary,
+  },
+  billBarText: {
+    flex: 1,
+    fontSize: 15,
+    fontWeight: '700',
+    color: '#FFFFFF',
+  },
+  compareButtonText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: theme.colors.primary,
+  },
   favoritesOutsideContainer: {
     marginHorizontal: 12,
     marginBottom: 8,
@@ -1288,6 +1902,9 @@ const createStyles = (theme: any) => StyleSheet.create({
   modeToggleButtonQuantity: {
     backgroundColor: '#6366F1',
   },
+  modeToggleButtonRate: {
+    backgroundColor: '#F59E0B',
+  },
   modeToggleText: {
     fontSize: 13,
     fontWeight: '600',
@@ -1410,6 +2027,102 @@ const createStyles = (theme: any) => StyleSheet.create({
     alignItems: 'center',
     gap: 8,
   },
+  taxBreakdown: {
+    alignSelf: 'stretch',
+    marginHorizontal: 16,
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+    borderRadius: 12,
+    backgroundColor: theme.colors.surfaceVariant,
+    gap: 4,
+  },
+  taxRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+  },
+  taxLabel: {
+    fontSize: 13,
+    color: theme.colors.textMuted,
+  },
+  taxValue: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: theme.colors.textSecondary,
+  },
+  taxTotalRow: {
+    marginTop: 2,
+    paddingTop: 4,
+    borderTopWidth: 1,
+    borderTopColor: theme.colors.borderLight,
+  },
+  taxTotalLabel: {
+    fontSize: 13,
+    fontWeight: '700',
+    color: theme.colors.text,
+  },
+  taxTotalValue: {
+    fontSize: 13,
+    fontWeight: '700',
+    color: theme.colors.text,
+  },
+  discountValue: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: theme.colors.success,
+  },
+  exactResult: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: theme.colors.textMuted,
+  },
+  packBreakdown: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: theme.colors.textSecondary,
+  },
+  tareRow: {
+    flexDirection: 'row',
+    gap: 8,
+    paddingHorizontal: 16,
+    paddingBottom: 12,
+  },
+  tareChip: {
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: theme.colors.border,
+    backgroundColor: theme.colors.surfaceVariant,
+  },
+  tareChipActive: {
+    backgroundColor: theme.colors.primary,
+    borderColor: theme.colors.primary,
+  },
+  tareChipText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: theme.colors.textSecondary,
+  },
+  tareChipTextActive: {
+    color: '#FFFFFF',
+  },
+  profitToggle: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    paddingVertical: 4,
+  },
+  profitText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: theme.colors.textMuted,
+  },
+  profitGain: {
+    color: theme.colors.success,
+  },
+  profitLoss: {
+    color: theme.colors.error,
+  },
   saveButton: {
     marginTop: 6,
     backgroundColor: theme.colors.primary,
@@ -1417,12 +2130,61 @@ const createStyles = (theme: any) => StyleSheet.create({
     paddingVertical: 10,
     borderRadius: 14,
   },
+  saveButtonDone: {
+    backgroundColor: '#10B981',
+  },
   saveButtonText: {
     color: '#FFF',
     fontWeight: '700',
     fontSize: 14,
     letterSpacing: 0.5,
   },
+  rateQuantityRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+    marginBottom: 12,
+  },
+  rateQuantityLabel: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: theme.colors.textMuted,
+  },
+  rateQuantityInput: {
+    minWidth: 100,
+    fontSize: 28,
+    fontWeight: '700',
+    textAlign: 'center',
+    paddingVertical: 4,
+    borderBottomWidth: 1,
+    borderBottomColor: theme.colors.border,
+  },
+  rateQuantityUnit: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: theme.colors.textMuted,
+  },
+  resultActions: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    justifyContent: 'center',
+    gap: 8,
+    marginTop: 6,
+  },
+  resultActionButton: {
+    maxWidth: '100%',
+    borderWidth: 1,
+    borderColor: theme.colors.primary,
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    borderRadius: 14,
+  },
+  resultActionText: {
+    color: theme.colors.primary,
+    fontWeight: '700',
+    fontSize: 14,
+  },
   textPrice: {
     color: '#10B981', // Green Text
     textShadowColor: 'rgba(16, 185, 129, 0.2)',
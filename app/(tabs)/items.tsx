@@ -17,12 +17,14 @@ import {
   Plus,
   Pencil,
   Trash2,
-  IndianRupee,
   Star,
 
   Package,
   ChevronDown,
   ChevronUp,
+  FileDown,
+  FileUp,
+  LineChart,
 } from 'lucide-react-native';
 import Animated, {
   useSharedValue,
@@ -35,27 +37,64 @@ import Animated, {
 
 import {
   getItems,
-  saveItems,
+  addItem,
+  updateItem,
+  restoreItem,
   deleteItem,
   toggleFavorite,
 
   type Item,
   type Category,
+  type Unit,
+  type PackQuote,
 } from '@/utils/storage';
 import { CATEGORIES, getCategoryLabel } from '@/types';
+import { DEFAULT_UNIT, getCompatibleUnits, isUnit, unitLabel } from '@/utils/units';
+import { formatPackQuote, isPackQuoteCurrent, packSizeInUnit, packUnitPrice } from '@/utils/packs';
+import { GST_RATES, getCategoryTaxRate, isTaxInclusive } from '@/utils/tax';
+import { getPriceTiers } from '@/utils/tiers';
+import {
+  validateItemFields,
+  validatePackSize,
+  validatePriceTiers,
+  validateCostPrice,
+  validateYieldPercent,
+  hasFieldErrors,
+  parseDecimal,
+  type PriceTierInput,
+} from '@/utils/validation';
+import { formatPercentage, marginPercent, markupPercent, priceFromMargin } from '@/utils/margin';
+import { roundMoney } from '@/utils/money';
+import { catalogToCsv } from '@/utils/catalogCsv';
+import { shareTextFile, datedFileName } from '@/utils/fileShare';
 import { useTheme } from '@/contexts/ThemeContext';
+import { useSettings } from '@/contexts/SettingsContext';
 import { ThemeToggle } from '@/components/ThemeToggle';
 import { GlassCard } from '@/components/GlassCard';
 import { SwipeableRow } from '@/components/SwipeableRow';
 import { AnimatedEmptyState } from '@/components/AnimatedEmptyState';
 import { UndoSnackbar } from '@/components/UndoSnackbar';
 import { CategoryPicker, CategoryBadge } from '@/components/CategoryPicker';
+import { UnitPicker } from '@/components/UnitPicker';
 import { SkeletonCard } from '@/components/SkeletonLoader';
 import { useHaptics } from '@/hooks/useHaptics';
+import { useCurrency } from '@/hooks/useCurrency';
 import { useUndo } from '@/hooks/useUndo';
 import { useFocusEffect } from '@react-navigation/native';
+import { useLocalSearchParams, useRouter } from 'expo-router';
 import { useTranslation } from 'react-i18next';
 import { LanguageSwitcher } from '@/components/LanguageSwitcher';
+import { SettingsButton } from '@/components/SettingsButton';
+
+type PriceMode = 'unit' | 'pack';
+
+// Route params used to open the add form with a rate worked out in the
+// calculator
+type NewItemParams = {
+  newItemPrice?: string;
+  newItemUnit?: string;
+  newItemKey?: string;
+};
 
 interface GroupedItems {
   [key: string]: Item[];
@@ -66,6 +105,10 @@ export default function ItemsTab() {
   const { theme } = useTheme();
   const { impact, notification, selection } = useHaptics();
   const { t } = useTranslation();
+  const { currency, formatCurrency } = useCurrency();
+  const { settings } = useSettings();
+  const router = useRouter();
+  const newItemParams = useLocalSearchParams<NewItemParams>();
 
   const [items, setItems] = useState<Item[]>([]);
   const [isAddingItem, setIsAddingItem] = useState(false);
@@ -73,10 +116,24 @@ export default function ItemsTab() {
   const [itemName, setItemName] = useState('');
   const [itemPrice, setItemPrice] = useState('');
   const [selectedCategory, setSelectedCategory] = useState<Category>('other');
+  const [selectedUnit, setSelectedUnit] = useState<Unit>(DEFAULT_UNIT);
+  const [priceMode, setPriceMode] = useState<PriceMode>('unit');
+  const [packSize, setPackSize] = useState('');
+  const [packUnit, setPackUnit] = useState<Unit>(DEFAULT_UNIT);
+  const [taxRateOverride, setTaxRateOverride] = useState<number | null>(null); // null: category rate
+  const [taxInclusive, setTaxInclusive] = useState(true);
+  const [priceTiers, setPriceTiers] = useState<PriceTierInput[]>([]);
+  const [costPrice, setCostPrice] = useState('');
+  const [targetMargin, setTargetMargin] = useState('');
+  const [yieldPercent, setYieldPercent] = useState('');
   const [isLoading, setIsLoading] = useState(true);
   const [isSaving, setIsSaving] = useState(false);
   const [nameError, setNameError] = useState<string | null>(null);
   const [priceError, setPriceError] = useState<string | null>(null);
+  const [sizeError, setSizeError] = useState<string | null>(null);
+  const [tiersError, setTiersError] = useState<string | null>(null);
+  const [costError, setCostError] = useState<string | null>(null);
+  const [yieldError, setYieldError] = useState<string | null>(null);
   const [refreshing, setRefreshing] = useState(false);
   const [collapsedCategories, setCollapsedCategories] = useState<Set<string>>(new Set());
 
@@ -89,6 +146,7 @@ export default function ItemsTab() {
   // Animation values
   const nameErrorOpacity = useSharedValue(0);
   const priceErrorOpacity = useSharedValue(0);
+  const sizeErrorOpacity = useSharedValue(0);
 
   const loadItems = async () => {
     try {
@@ -112,6 +170,20 @@ export default function ItemsTab() {
     }, [])
   );
 
+  // Open the add form prefilled from the calculator's rate mode
+  useEffect(() => {
+    const { newItemPrice, newItemUnit } = newItemParams;
+    if (!newItemParams.newItemKey || !newItemPrice) return;
+
+    resetForm();
+    setItemPrice(newItemPrice);
+    if (isUnit(newItemUnit)) {
+      setSelectedUnit(newItemUnit);
+      setPackUnit(newItemUnit);
+    }
+    setIsAddingItem(true);
+  }, [newItemParams.newItemKey]);
+
   const onRefresh = async () => {
     setRefreshing(true);
     await loadItems();
@@ -128,30 +200,26 @@ export default function ItemsTab() {
     priceErrorOpacity.value = withTiming(priceError ? 1 : 0, { duration: 300 });
   }, [priceError, priceErrorOpacity]);
 
-  const validateInputs = () => {
-    let isValid = true;
-    setNameError(null);
-    setPriceError(null);
-
-    if (!itemName.trim()) {
-      setNameError(t('items.validation.nameRequired'));
-      isValid = false;
-    }
+  useEffect(() => {
+    sizeErrorOpacity.value = withTiming(sizeError ? 1 : 0, { duration: 300 });
+  }, [sizeError, sizeErrorOpacity]);
 
-    if (!itemPrice.trim()) {
-      setPriceError(t('items.validation.priceRequired'));
-      isValid = false;
-    } else {
-      const price = parseFloat(itemPrice);
-      if (isNaN(price)) {
-        setPriceError(t('items.validation.invalidPrice'));
-        isValid = false;
-      } else if (price <= 0) {
-        setPriceError(t('items.validation.pricePositive'));
-        isValid = false;
-      }
-    }
+  const validateInputs = () => {
+    const errors = {
+      ...validateItemFields(itemName, itemPrice),
+      size: priceMode === 'pack' ? validatePackSize(packSize) : undefined,
+      tiers: validatePriceTiers(priceTiers, priceMode === 'pack' ? derivedUnitPrice : parseDecimal(itemPrice) || null),
+      cost: validateCostPrice(costPrice),
+      yield: validateYieldPercent(yieldPercent),
+    };
+    setNameError(errors.name ? t(`items.validation.${errors.name}`) : null);
+    setPriceError(errors.price ? t(`items.validation.${errors.price}`) : null);
+    setSizeError(errors.size ? t(`items.validation.${errors.size}`) : null);
+    setTiersError(errors.tiers ? t(`items.validation.${errors.tiers}`) : null);
+    setCostError(errors.cost ? t(`items.validation.${errors.cost}`) : null);
+    setYieldError(errors.yield ? t(`items.validation.${errors.yield}`) : null);
 
+    const isValid = !hasFieldErrors(errors);
     if (!isValid) {
       notification('warning');
     }
@@ -163,28 +231,48 @@ export default function ItemsTab() {
 
     try {
       setIsSaving(true);
-      const price = parseFloat(itemPrice);
+      const packQuote: PackQuote | undefined = priceMode === 'pack'
+        ? { price: parseDecimal(itemPrice), size: parseDecimal(packSize), unit: packUnit }
+        : undefined;
+      const price = packQuote ? packUnitPrice(packQuote, selectedUnit) : parseDecimal(itemPrice);
+      const tiers = priceTiers.length > 0
+        ? priceTiers
+          .map(tier => ({ minQuantity: parseDecimal(tier.minQuantity), price: parseDecimal(tier.price) }))
+          .sort((a, b) => a.minQuantity - b.minQuantity)
+        : undefined;
+      const cost = costPrice.trim() ? parseDecimal(costPrice) : undefined;
+      const usable = yieldPercent.trim() ? parseDecimal(yieldPercent) : undefined;
 
       if (editingItem) {
-        const updatedItems = items.map(item =>
-          item.id === editingItem.id
-            ? { ...item, name: itemName.trim(), pricePerKg: price, category: selectedCategory }
-            : item
-        );
-        await saveItems(updatedItems);
-        setItems(updatedItems);
-        notification('success');
-      } else {
-        const newItem: Item = {
-          id: Date.now().toString(),
+        const updates = {
           name: itemName.trim(),
           pricePerKg: price,
-          isFavorite: false,
+          unit: selectedUnit,
           category: selectedCategory,
+          packQuote,
+          priceTiers: tiers,
+          costPrice: cost,
+          yieldPercent: usable,
+          taxRate: taxRateOverride ?? undefined,
+          taxInclusive,
         };
-        const updatedItems = [...items, newItem];
-        await saveItems(updatedItems);
-        setItems(updatedItems);
+        if (!(await updateItem(editingItem.id, updates, 'items'))) {
+          throw new Error(`Item ${editingItem.id} could not be saved`);
+        }
+        setItems(prev => prev.map(item =>
+          item.id === editingItem.id ? { ...item, ...updates } : item
+        ));
+        notification('success');
+      } else {
+        const newItem = await addItem(itemName.trim(), price, selectedCategory, selectedUnit, {
+          packQuote,
+          priceTiers: tiers,
+          costPrice: cost,
+          yieldPercent: usable,
+          taxRate: taxRateOverride ?? undefined,
+          taxInclusive,
+        });
+        setItems(prev => [...prev, newItem]);
         impact('medium');
       }
 
@@ -233,29 +321,62 @@ export default function ItemsTab() {
   const handleUndo = async () => {
     const restoredItem = undo();
     if (restoredItem) {
-      const updatedItems = [...items, restoredItem];
-      await saveItems(updatedItems);
-      setItems(updatedItems);
+      await restoreItem(restoredItem);
+      setItems(prev => [...prev, restoredItem]);
     }
   };
 
   const handleToggleFavorite = async (item: Item) => {
     selection();
-    await toggleFavorite(item.id);
+    if (!(await toggleFavorite(item.id))) return;
     setItems(prev => prev.map(i =>
       i.id === item.id ? { ...i, isFavorite: !i.isFavorite } : i
     ));
   };
 
+  const openDetail = (item: Item) => {
+    impact('light');
+    router.push({ pathname: '/items/[id]', params: { id: item.id } });
+  };
+
+  const openPriceHistory = (item: Item) => {
+    impact('light');
+    router.push({ pathname: '/price-history/[id]', params: { id: item.id } });
+  };
+
   const startEdit = (item: Item) => {
     impact('light');
     setEditingItem(item);
     setItemName(item.name);
-    setItemPrice(item.pricePerKg.toString());
     setSelectedCategory(item.category);
+    setSelectedUnit(item.unit);
+    setTaxRateOverride(item.taxRate ?? null);
+    setTaxInclusive(isTaxInclusive(item));
+    setCostPrice(item.costPrice?.toString() ?? '');
+    setTargetMargin('');
+    setYieldPercent(item.yieldPercent?.toString() ?? '');
+    setPriceTiers(getPriceTiers(item).map(tier => ({
+      minQuantity: tier.minQuantity.toString(),
+      price: tier.price.toString(),
+    })));
+    if (item.packQuote && isPackQuoteCurrent(item)) {
+      setPriceMode('pack');
+      setItemPrice(item.packQuote.price.toString());
+      setPackSize(item.packQuote.size.toString());
+      setPackUnit(item.packQuote.unit);
+    } else {
+      setPriceMode('unit');
+      setItemPrice(item.pricePerKg.toString());
+      setPackSize('');
+      setPackUnit(item.unit);
+    }
     setIsAddingItem(true);
     setNameError(null);
     setPriceError(null);
+    setSizeError(null);
+    setTiersError(null);
+    setCostError(null);
+    setYieldError(null);
   };
 
   const resetForm = () => {
@@ -264,12 +385,108 @@ export default function ItemsTab() {
     setItemName('');
     setItemPrice('');
     setSelectedCategory('other');
+    setSelectedUnit(DEFAULT_UNIT);
+    setPriceMode('unit');
+    setPackSize('');
+    setPackUnit(DEFAULT_UNIT);
+    setTaxRateOverride(null);
+    setTaxInclusive(true);
+    setPriceTiers([]);
+    setCostPrice('');
+    setTargetMargin('');
+    setYieldPercent('');
     setNameError(null);
     setPriceError(null);
+    setSizeError(null);
+    setTiersError(null);
+    setCostError(null);
+    setYieldError(null);
+  };
+
+  const updatePriceTier = (index: number, fields: Partial<PriceTierInput>) => {
+    setPriceTiers(prev => prev.map((tier, i) => (i === index ? { ...tier, ...fields } : tier)));
+    if (tiersError) setTiersError(null);
+  };
+
+  const addPriceTier = () => {
+    selection();
+    setPriceTiers(prev => [...prev, { minQuantity: '', price: '' }]);
+  };
+
+  const removePriceTier = (index: number) => {
+    selection();
+    setPriceTiers(prev => prev.filter((_, i) => i !== index));
+    if (tiersError) setTiersError(null);
+  };
+
+  const handleSelectUnit = (unit: Unit) => {
+    setSelectedUnit(unit);
+    // The pack size has to be convertible to the item's unit
+    if (!getCompatibleUnits(unit).includes(packUnit)) {
+      setPackUnit(unit);
+    }
+  };
+
+  const selectPriceMode = (nextMode: PriceMode) => {
+    selection();
+    setPriceMode(nextMode);
+    setPriceError(null);
+    setSizeError(null);
   };
 
+  // Live per-unit price while entering a pack quote
+  const derivedUnitPrice = (() => {
+    if (priceMode !== 'pack') return null;
+    const price = parseDecimal(itemPrice);
+    const size = parseDecimal(packSize);
+    if (!(price > 0) || !(size > 0)) return null;
+    return packUnitPrice({ price, size, unit: packUnit }, selectedUnit);
+  })();
+
+  // Margin and markup of the price being entered over the cost
+  const formCost = parseDecimal(costPrice);
+  const formUnitPrice = priceMode === 'pack' ? derivedUnitPrice : parseDecimal(itemPrice);
+  const formMargin = formCost > 0 && formUnitPrice !== null && formUnitPrice > 0
+    ? { margin: marginPercent(formCost, formUnitPrice), markup: markupPercent(formCost, formUnitPrice) }
+    : null;
+
+  // Fill in the selling price (or pack price) from cost + margin %
+  const applyTargetMargin = () => {
+    const unitPrice = priceFromMargin(formCost, parseDecimal(targetMargin));
+    const size = parseDecimal(packSize);
+    if (!(formCost > 0) || unitPrice === null || (priceMode === 'pack' && !(size > 0))) {
+      notification('warning');
+      return;
+    }
+    selection();
+    const price = priceMode === 'pack'
+      ? roundMoney(unitPrice * packSizeInUnit({ price: 0, size, unit: packUnit }, selectedUnit))
+      : unitPrice;
+    setItemPrice(price.toString());
+    setPriceError(null);
+  };
 
 
+
+  const handleExportCsv = async () => {
+    try {
+      impact('light');
+      const shared = await shareTextFile(
+        datedFileName('price-list', 'csv'),
+        catalogToCsv(items),
+        'text/csv',
+        t('csv.export')
+      );
+      if (!shared) {
+        Alert.alert(t('common.error'), t('backup.shareUnavailable'));
+      }
+    } catch (error) {
+      console.error('Error exporting CSV:', error);
+      Alert.alert(t('common.error'), t('csv.exportFailed'));
+      notification('error');
+    }
+  };
+
   const toggleCategoryCollapse = (category: string) => {
     selection();
     setCollapsedCategories(prev => {
@@ -283,8 +500,6 @@ export default function ItemsTab() {
     });
   };
 
-  const formatCurrency = (amount: number) => `₹${amount.toFixed(2)}`;
-
   // Group items by category
   const groupedItems = items.reduce<GroupedItems>((acc, item) => {
     const category = item.category || 'other';
@@ -311,6 +526,11 @@ export default function ItemsTab() {
     transform: [{ translateY: priceErrorOpacity.value * -5 }],
   }));
 
+  const sizeErrorAnimatedStyle = useAnimatedStyle(() => ({
+    opacity: sizeErrorOpacity.value,
+    transform: [{ translateY: sizeErrorOpacity.value * -5 }],
+  }));
+
   const styles = createStyles(theme);
 
   if (isLoading) {
@@ -359,6 +579,7 @@ export default function ItemsTab() {
                 <View style={styles.headerActions}>
                   <LanguageSwitcher compact />
                   <ThemeToggle />
+                  <SettingsButton />
                 </View>
               </View>
             </Animated.View>
@@ -393,7 +614,37 @@ export default function ItemsTab() {
                   </View>
 
                   <View style={styles.inputGroup}>
-                    <Text style={styles.inputLabel}>{t('items.form.pricePerKg')}</Text>
+                    <Text style={styles.inputLabel}>{t('items.form.unit')}</Text>
+                    <UnitPicker selectedUnit={selectedUnit} onSelectUnit={handleSelectUnit} />
+                  </View>
+
+                  <View style={styles.inputGroup}>
+                    <Text style={styles.inputLabel}>{t('items.form.priceBy')}</Text>
+                    <View style={styles.priceModeRow}>
+                      {(['unit', 'pack'] as PriceMode[]).map(option => (
+                        <TouchableOpacity
+                          key={option}
+                          style={[styles.priceModeOption, priceMode === option && styles.priceModeOptionActive]}
+                          onPress={() => selectPriceMode(option)}
+                          disabled={isSaving}
+                          activeOpacity={0.7}
+                        >
+                          <Text style={[styles.priceModeText, priceMode === option && styles.priceModeTextActive]}>
+                            {option === 'unit'
+                              ? t('items.form.perUnit', { unit: unitLabel(selectedUnit) })
+                              : t('items.form.perPack')}
+                          </Text>
+                        </TouchableOpacity>
+                      ))}
+                    </View>
+                  </View>
+
+                  <View style={styles.inputGroup}>
+                    <Text style={styles.inputLabel}>
+                      {priceMode === 'pack'
+                        ? t('items.form.packPrice', { currency: currency.symbol })
+                        : t('items.form.pricePerUnit', { unit: unitLabel(selectedUnit), currency: currency.symbol })}
+                    </Text>
                     <TextInput
                       style={[styles.input, priceError && styles.inputError]}
                       value={itemPrice}
@@ -414,6 +665,165 @@ export default function ItemsTab() {
                     )}
                   </View>
 
+                  {priceMode === 'pack' && (
+                    <View style={styles.inputGroup}>
+                      <Text style={styles.inputLabel}>{t('items.form.packSize')}</Text>
+                      <TextInput
+                        style={[styles.input, sizeError && styles.inputError]}
+                        value={packSize}
+                        onChangeText={(text) => {
+                          setPackSize(text);
+                          if (sizeError) setSizeError(null);
+                        }}
+                        placeholder="0"
+                        placeholderTextColor={theme.colors.textMuted}
+                        keyboardType="decimal-pad"
+                        returnKeyType="done"
+                        editable={!isSaving}
+                      />
+                      <View style={styles.packUnitPicker}>
+                        <UnitPicker
+                          selectedUnit={packUnit}
+                          onSelectUnit={setPackUnit}
+                          units={getCompatibleUnits(selectedUnit)}
+                        />
+                      </View>
+                      {sizeError && (
+                        <Animated.View style={[styles.errorContainer, sizeErrorAnimatedStyle]}>
+                          <Text style={styles.errorText}>{sizeError}</Text>
+                        </Animated.View>
+                      )}
+                      {derivedUnitPrice !== null && (
+                        <Text style={styles.derivedPrice}>
+                          {t('items.form.derivedPrice', {
+                            price: formatCurrency(derivedUnitPrice),
+                            unit: unitLabel(selectedUnit),
+                          })}
+                        </Text>
+                      )}
+                    </View>
+                  )}
+
+                  <View style={styles.inputGroup}>
+                    <Text style={styles.inputLabel}>
+                      {t('items.form.costPrice', { unit: unitLabel(selectedUnit), currency: currency.symbol })}
+                    </Text>
+                    <TextInput
+                      style={[styles.input, costError && styles.inputError]}
+                      value={costPrice}
+                      onChangeText={(text) => {
+                        setCostPrice(text);
+                        if (costError) setCostError(null);
+                      }}
+                      placeholder={t('items.form.optional')}
+                      placeholderTextColor={theme.colors.textMuted}
+                      keyboardType="decimal-pad"
+                      editable={!isSaving}
+                    />
+                    {costError && (
+                      <Animated.View entering={FadeIn.duration(300)} style={styles.errorContainer}>
+                        <Text style={styles.errorText}>{costError}</Text>
+                      </Animated.View>
+                    )}
+                    {formCost > 0 && (
+                      <View style={[styles.tierRow, styles.marginRow]}>
+                        <TextInput
+                          style={[styles.input, styles.tierInput]}
+                          value={targetMargin}
+                          onChangeText={setTargetMargin}
+                          placeholder={t('items.form.targetMargin')}
+                          placeholderTextColor={theme.colors.textMuted}
+                          keyboardType="decimal-pad"
+                          editable={!isSaving}
+                        />
+                        <TouchableOpacity
+                          style={styles.marginButton}
+                          onPress={applyTargetMargin}
+                          disabled={isSaving || !targetMargin.trim()}
+                          activeOpacity={0.7}
+                        >
+                          <Text style={styles.addTierText}>{t('items.form.setPrice')}</Text>
+                        </TouchableOpacity>
+                      </View>
+                    )}
+                    {formMargin && (
+                      <Text style={[styles.derivedPrice, formMargin.margin < 0 && styles.lossText]}>
+                        {t('items.margin', {
+                          margin: formatPercentage(formMargin.margin),
+                          markup: formatPercentage(formMargin.markup),
+                        })}
+                      </Text>
+                    )}
+                  </View>
+
+                  <View style={styles.inputGroup}>
+                    <Text style={styles.inputLabel}>{t('items.form.yieldPercent')}</Text>
+                    <TextInput
+                      style={[styles.input, yieldError && styles.inputError]}
+                      value={yieldPercent}
+                      onChangeText={(text) => {
+                        setYieldPercent(text);
+                        if (yieldError) setYieldError(null);
+                      }}
+                      placeholder={t('items.form.yieldPlaceholder')}
+                      placeholderTextColor={theme.colors.textMuted}
+                      keyboardType="decimal-pad"
+                      editable={!isSaving}
+                    />
+                    {yieldError && (
+                      <Animated.View entering={FadeIn.duration(300)} style={styles.errorContainer}>
+                        <Text style={styles.errorText}>{yieldError}</Text>
+                      </Animated.View>
+                    )}
+                  </View>
+
+                  <View style={styles.inputGroup}>
+                    <Text style={styles.inputLabel}>{t('items.form.bulkPrices')}</Text>
+                    {priceTiers.map((tier, index) => (
+                      <View key={index} style={styles.tierRow}>
+                        <TextInput
+                          style={[styles.input, styles.tierInput, tiersError && styles.inputError]}
+                          value={tier.minQuantity}
+                          onChangeText={minQuantity => updatePriceTier(index, { minQuantity })}
+                          placeholder={t('items.form.tierFrom', { unit: unitLabel(selectedUnit) })}
+                          placeholderTextColor={theme.colors.textMuted}
+                          keyboardType="decimal-pad"
+                          editable={!isSaving}
+                        />
+                        <TextInput
+                          style={[styles.input, styles.tierInput, tiersError && styles.inputError]}
+                          value={tier.price}
+                          onChangeText={price => updatePriceTier(index, { price })}
+                          placeholder={t('items.form.tierPrice', { unit: unitLabel(selectedUnit), currency: currency.symbol })}
+                          placeholderTextColor={theme.colors.textMuted}
+                          keyboardType="decimal-pad"
+                          editable={!isSaving}
+                        />
+                        <TouchableOpacity
+                          onPress={() => removePriceTier(index)}
+                          disabled={isSaving}
+                          hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+                        >
+                          <Trash2 size={18} color={theme.colors.error} />
+                        </TouchableOpacity>
+                      </View>
+                    ))}
+                    {tiersError && (
+                      <Animated.View entering={FadeIn.duration(300)} style={styles.errorContainer}>
+                        <Text style={styles.errorText}>{tiersError}</Text>
+                      </Animated.View>
+                    )}
+                    <TouchableOpacity
+                      style={styles.addTierButton}
+                      onPress={addPriceTier}
+                      disabled={isSaving}
+                      activeOpacity={0.7}
+                    >
+                      <Plus size={16} color={theme.colors.primary} />
+                      <Text style={styles.addTierText}>{t('items.form.addTier')}</Text>
+                    </TouchableOpacity>
+                  </View>
+
                   <View style={styles.inputGroup}>
                     <Text style={styles.inputLabel}>{t('items.form.category')}</Text>
                     <CategoryPicker
@@ -422,6 +832,47 @@ export default function ItemsTab() {
                     />
                   </View>
 
+                  <View style={styles.inputGroup}>
+                    <Text style={styles.inputLabel}>{t('items.form.gst')}</Text>
+                    <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.taxChips}>
+                      {[null, ...GST_RATES].map(rate => {
+                        const isActive = taxRateOverride === rate;
+                        return (
+                          <TouchableOpacity
+                            key={rate ?? 'category'}
+                            style={[styles.taxChip, isActive && styles.priceModeOptionActive]}
+                            onPress={() => { selection(); setTaxRateOverride(rate); }}
+                            disabled={isSaving}
+                            activeOpacity={0.7}
+                          >
+                            <Text style={[styles.priceModeText, isActive && styles.priceModeTextActive]}>
+                              {rate === null
+                                ? t('items.form.gstCategory', {
+                                  rate: getCategoryTaxRate(selectedCategory, settings.categoryTaxRates),
+                                })
+                                : `${rate}%`}
+                            </Text>
+                          </TouchableOpacity>
+                        );
+                      })}
+                    </ScrollView>
+                    <View style={[styles.priceModeRow, styles.taxInclusiveRow]}>
+                      {[true, false].map(inclusive => (
+                        <TouchableOpacity
+                          key={String(inclusive)}
+                          style={[styles.priceModeOption, taxInclusive === inclusive && styles.priceModeOptionActive]}
+                          onPress={() => { selection(); setTaxInclusive(inclusive); }}
+                          disabled={isSaving}
+                          activeOpacity={0.7}
+                        >
+                          <Text style={[styles.priceModeText, taxInclusive === inclusive && styles.priceModeTextActive]}>
+                            {inclusive ? t('items.form.gstInclusive') : t('items.form.gstExclusive')}
+                          </Text>
+                        </TouchableOpacity>
+                      ))}
+                    </View>
+                  </View>
+
                   <View style={styles.buttonRow}>
                     <TouchableOpacity
                       style={[styles.button, styles.cancelButton]}
@@ -473,6 +924,30 @@ export default function ItemsTab() {
                     <Text style={styles.addButtonText}>{t('items.addItem')}</Text>
                   </LinearGradient>
                 </TouchableOpacity>
+
+                {/* CSV Import / Export */}
+                <View style={styles.csvRow}>
+                  <TouchableOpacity
+                    style={styles.csvButton}
+                    onPress={() => {
+                      impact('light');
+                      router.push('/items/import');
+                    }}
+                    activeOpacity={0.7}
+                  >
+                    <FileDown size={18} color={theme.colors.primary} />
+                    <Text style={styles.csvButtonText}>{t('csv.import')}</Text>
+                  </TouchableOpacity>
+                  <TouchableOpacity
+                    style={[styles.csvButton, items.length === 0 && styles.buttonDisabled]}
+                    onPress={handleExportCsv}
+                    disabled={items.length === 0}
+                    activeOpacity={0.7}
+                  >
+                    <FileUp size={18} color={theme.colors.primary} />
+                    <Text style={styles.csvButtonText}>{t('csv.export')}</Text>
+                  </TouchableOpacity>
+                </View>
               </Animated.View>
             )}
 
@@ -532,17 +1007,41 @@ export default function ItemsTab() {
                               />
                             </TouchableOpacity>
 
-                            <View style={styles.itemInfo}>
+                            <TouchableOpacity
+                              style={styles.itemInfo}
+                              onPress={() => openDetail(item)}
+                              activeOpacity={0.7}
+                            >
                               <Text style={styles.itemName}>{item.name}</Text>
                               <View style={styles.priceContainer}>
-                                <IndianRupee size={14} color={theme.colors.secondary} />
                                 <Text style={styles.itemPrice}>
-                                  {formatCurrency(item.pricePerKg)}/kg
+                                  {formatCurrency(item.pricePerKg)}/{unitLabel(item.unit)}
                                 </Text>
                               </View>
-                            </View>
+                              {item.packQuote && isPackQuoteCurrent(item) && (
+                                <Text style={styles.itemPackQuote}>{formatPackQuote(item.packQuote, formatCurrency)}</Text>
+                              )}
+                              {item.costPrice !== undefined && (
+                                <Text style={[
+                                  styles.itemPackQuote,
+                                  item.costPrice > item.pricePerKg && styles.lossText,
+                                ]}>
+                                  {t('items.margin', {
+                                    margin: formatPercentage(marginPercent(item.costPrice, item.pricePerKg)),
+                                    markup: formatPercentage(markupPercent(item.costPrice, item.pricePerKg)),
+                                  })}
+                                </Text>
+                              )}
+                            </TouchableOpacity>
 
                             <View style={styles.itemActions}>
+                              <TouchableOpacity
+                                style={styles.actionIconButton}
+                                onPress={() => openPriceHistory(item)}
+                              >
+                                <LineChart size={18} color={theme.colors.textSecondary} />
+                              </TouchableOpacity>
+
                               <TouchableOpacity
                                 style={styles.actionIconButton}
                                 onPress={() => startEdit(item)}
@@ -672,6 +1171,29 @@ const createStyles = (theme: any) => StyleSheet.create({
     fontSize: 17,
     fontWeight: '700',
   },
+  csvRow: {
+    flexDirection: 'row',
+    gap: 12,
+    marginHorizontal: 20,
+    marginBottom: 16,
+  },
+  csvButton: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+    paddingVertical: 12,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: theme.colors.border,
+    backgroundColor: theme.colors.surfaceVariant,
+  },
+  csvButtonText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: theme.colors.primary,
+  },
   inputGroup: {
     marginBottom: 16,
   },
@@ -694,6 +1216,90 @@ const createStyles = (theme: any) => StyleSheet.create({
     borderColor: theme.colors.error,
     backgroundColor: theme.isDark ? 'rgba(239, 68, 68, 0.1)' : 'rgba(239, 68, 68, 0.05)',
   },
+  priceModeRow: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  priceModeOption: {
+    flex: 1,
+    paddingVertical: 12,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: theme.colors.border,
+    backgroundColor: theme.colors.surfaceVariant,
+    alignItems: 'center',
+  },
+  priceModeOptionActive: {
+    backgroundColor: theme.colors.primary,
+    borderColor: theme.colors.primary,
+  },
+  priceModeText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: theme.colors.textSecondary,
+  },
+  priceModeTextActive: {
+    color: '#FFFFFF',
+  },
+  taxChips: {
+    gap: 8,
+    flexDirection: 'row',
+  },
+  taxChip: {
+    paddingVertical: 10,
+    paddingHorizontal: 14,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: theme.colors.border,
+    backgroundColor: theme.colors.surfaceVariant,
+  },
+  tierRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginBottom: 8,
+  },
+  tierInput: {
+    flex: 1,
+  },
+  addTierButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    alignSelf: 'flex-start',
+    gap: 6,
+    paddingVertical: 6,
+  },
+  marginRow: {
+    marginTop: 10,
+    marginBottom: 0,
+  },
+  marginButton: {
+    paddingVertical: 14,
+    paddingHorizontal: 16,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: theme.colors.primary,
+  },
+  lossText: {
+    color: theme.colors.error,
+  },
+  addTierText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: theme.colors.primary,
+  },
+  taxInclusiveRow: {
+    marginTop: 10,
+  },
+  packUnitPicker: {
+    marginTop: 10,
+  },
+  derivedPrice: {
+    marginTop: 10,
+    fontSize: 14,
+    fontWeight: '700',
+    color: theme.colors.secondary,
+  },
   errorContainer: {
     marginTop: 8,
     paddingHorizontal: 4,
@@ -787,7 +1393,11 @@ const createStyles = (theme: any) => StyleSheet.create({
     fontSize: 14,
     color: theme.colors.secondary,
     fontWeight: '600',
-    marginLeft: 2,
+  },
+  itemPackQuote: {
+    fontSize: 12,
+    color: theme.colors.textMuted,
+    marginTop: 2,
   },
   itemActions: {
     flexDirection: 'row',
@@ -1,26 +1,100 @@
-import { useEffect } from 'react';
+import { useCallback, useEffect, useState } from 'react';
+import { Alert } from 'react-native';
 import { Stack } from 'expo-router';
 import { StatusBar } from 'expo-status-bar';
+import * as SplashScreen from 'expo-splash-screen';
 import { useFrameworkReady } from '@/hooks/useFrameworkReady';
 import { ThemeProvider } from '@/contexts/ThemeContext';
-import '@/i18n'; // Initialize i18n
+import { SettingsProvider } from '@/contexts/SettingsContext';
+import { BillProvider } from '@/contexts/BillContext';
+import i18n from '@/i18n'; // Initialize i18n
 import { loadStoredLanguage } from '@/i18n';
+import { runMigrations, restoreMigrationBackup } from '@/utils/migrations';
+
+// Keep the splash screen up until stored data has been upgraded
+SplashScreen.preventAutoHideAsync();
 
 export default function RootLayout() {
   useFrameworkReady();
+  const [isStorageReady, setIsStorageReady] = useState(false);
 
-  // Load stored language preference on app start
-  useEffect(() => {
-    loadStoredLanguage();
+  const finishStartup = useCallback(() => {
+    setIsStorageReady(true);
+    SplashScreen.hideAsync();
   }, []);
 
+  const migrateStorage = useCallback(async () => {
+    const result = await runMigrations();
+    if (result.status !== 'failed') {
+      finishStartup();
+      return;
+    }
+
+    // Old data is left untouched on failure, so retrying is always safe.
+    // Restoring puts back the data as it was before the first attempt.
+    const restoreAndRetry = async () => {
+      if (await restoreMigrationBackup()) {
+        migrateStorage();
+        return;
+      }
+      Alert.alert(
+        i18n.t('migration.failedTitle'),
+        i18n.t('migration.restoreFailed'),
+        [{ text: i18n.t('common.ok'), onPress: migrateStorage }],
+        { cancelable: false }
+      );
+    };
+
+    Alert.alert(
+      i18n.t('migration.failedTitle'),
+      i18n.t('migration.failedMessage'),
+      [
+        {
+          text: i18n.t('migration.continue'),
+          style: 'cancel',
+          onPress: finishStartup,
+        },
+        {
+          text: i18n.t('migration.restore'),
+          onPress: restoreAndRetry,
+        },
+        {
+          text: i18n.t('migration.retry'),
+          onPress: migrateStorage,
+        },
+      ],
+      { cancelable: false }
+    );
+  }, [finishStartup]);
+
+  // Load stored language preference and upgrade stored data on app start
+  useEffect(() => {
+    loadStoredLanguage().finally(migrateStorage);
+  }, [migrateStorage]);
+
+  if (!isStorageReady) {
+    return null;
+  }
+
   return (
     <ThemeProvider>
-      <Stack screenOptions={{ headerShown: false }}>
-        <Stack.Screen name="(tabs)" options={{ headerShown: false }} />
-        <Stack.Screen name="+not-found" />
-      </Stack>
-      <StatusBar style="auto" />
+      <SettingsProvider>
+        <BillProvider>
+          <Stack screenOptions={{ headerShown: false }}>
+            <Stack.Screen name="(tabs)" options={{ headerShown: false }} />
+            <Stack.Screen name="settings" options={{ headerShown: false }} />
+            <Stack.Screen name="items/import" options={{ headerShown: false }} />
+            <Stack.Screen name="items/[id]" options={{ headerShown: false }} />
+            <Stack.Screen name="price-history/[id]" options={{ headerShown: false }} />
+            <Stack.Screen name="compare" options={{ headerShown: false }} />
+            <Stack.Screen name="discounts" options={{ headerShown: false }} />
+            <Stack.Screen name="bill" options={{ headerShown: false }} />
+            <Stack.Screen name="receipt" options={{ headerShown: false }} />
+            <Stack.Screen name="+not-found" />
+          </Stack>
+          <StatusBar style="auto" />
+        </BillProvider>
+      </SettingsProvider>
     </ThemeProvider>
   );
-}
\ No newline at end of file
+}
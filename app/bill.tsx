@@ -0,0 +1,556 @@
+import React, { useState, useCallback } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  ScrollView,
+  StyleSheet,
+  Alert,
+  KeyboardAvoidingView,
+  Platform,
+} from 'react-native';
+import { StatusBar } from 'expo-status-bar';
+import { LinearGradient } from 'expo-linear-gradient';
+import { useFocusEffect } from '@react-navigation/native';
+import { useRouter } from 'expo-router';
+import { ChevronLeft, Edit2, Trash2 } from 'lucide-react-native';
+import Animated, { FadeIn, FadeInDown } from 'react-native-reanimated';
+import { useTranslation } from 'react-i18next';
+
+import {
+  getItems,
+  getDiscounts,
+  checkoutBill,
+  type Item,
+  type Discount,
+  type BillLine,
+} from '@/utils/storage';
+import { priceBillLine, totalBill, type BillEntry } from '@/utils/bill';
+import { evaluateInput, inputValueOf } from '@/utils/expression';
+import { formatQuantity, unitLabel } from '@/utils/units';
+import { useTheme } from '@/contexts/ThemeContext';
+import { useSettings } from '@/contexts/SettingsContext';
+import { useBill } from '@/contexts/BillContext';
+import { GlassCard } from '@/components/GlassCard';
+import { useHaptics } from '@/hooks/useHaptics';
+import { useCurrency } from '@/hooks/useCurrency';
+
+// A line being changed: either field may be filled in, the other is worked out
+interface LineDraft {
+  quantity: string;
+  amount: string;
+}
+
+// Bill Screen Component
+export default function BillScreen() {
+  const { theme } = useTheme();
+  const { impact, notification, selection } = useHaptics();
+  const { t } = useTranslation();
+  const { currency, formatCurrency } = useCurrency();
+  const { settings } = useSettings();
+  const { lines, updateLine, removeLine, clearBill } = useBill();
+  const router = useRouter();
+
+  const [items, setItems] = useState<Item[]>([]);
+  const [discounts, setDiscounts] = useState<Discount[]>([]);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draft, setDraft] = useState<LineDraft>({ quantity: '', amount: '' });
+  const [editError, setEditError] = useState<string | null>(null);
+  const [isCheckingOut, setIsCheckingOut] = useState(false);
+
+  const loadData = async () => {
+    try {
+      const [loadedItems, loadedDiscounts] = await Promise.all([getItems(), getDiscounts()]);
+      setItems(loadedItems);
+      setDiscounts(loadedDiscounts);
+    } catch (error) {
+      console.error('Error loading bill data:', error);
+    }
+  };
+
+  useFocusEffect(
+    useCallback(() => {
+      loadData();
+    }, [])
+  );
+
+  const totals = totalBill(lines, discounts, settings.rounding);
+
+  const startEdit = (line: BillLine) => {
+    selection();
+    setEditingId(line.id);
+    setDraft(line.mode === 'price'
+      ? { quantity: line.quantity.toString(), amount: '' }
+      : { quantity: '', amount: line.amount.toString() });
+    setEditError(null);
+  };
+
+  const cancelEdit = () => {
+    setEditingId(null);
+    setEditError(null);
+  };
+
+  const handleSaveLine = (line: BillLine) => {
+    const item = items.find(i => i.id === line.itemId);
+    if (!item) {
+      setEditError(t('bill.errors.itemMissing'));
+      notification('error');
+      return;
+    }
+
+    // Whichever field was filled in decides how the line is priced
+    const entry: BillEntry = draft.amount.trim()
+      ? { mode: 'weight', amount: inputValueOf(evaluateInput(draft.amount, null)) }
+      : { mode: 'price', quantity: inputValueOf(evaluateInput(draft.quantity, item.unit)) };
+    const value = entry.mode === 'weight' ? entry.amount : entry.quantity;
+    if (!(value > 0)) {
+      setEditError(t('bill.errors.invalidLine'));
+      notification('error');
+      return;
+    }
+
+    updateLine(line.id, priceBillLine(item, entry, discounts, settings.categoryTaxRates));
+    setEditingId(null);
+    notification('success');
+  };
+
+  const handleRemove = (line: BillLine) => {
+    impact('light');
+    removeLine(line.id);
+    if (editingId === line.id) cancelEdit();
+  };
+
+  const handleClear = () => {
+    impact('medium');
+    Alert.alert(t('bill.clearTitle'), t('bill.clearMessage'), [
+      { text: t('common.cancel'), style: 'cancel' },
+      {
+        text: t('bill.clear'),
+        style: 'destructive',
+        onPress: () => {
+          clearBill();
+          cancelEdit();
+        },
+      },
+    ]);
+  };
+
+  const handleCheckout = async () => {
+    if (lines.length === 0) return;
+    try {
+      setIsCheckingOut(true);
+      const bill = await checkoutBill({
+        lines,
+        subtotal: totals.subtotal,
+        billDiscount: totals.billDiscount,
+        roundOff: totals.roundOff,
+        total: totals.total,
+      });
+      clearBill();
+      notification('success');
+      router.replace({ pathname: '/receipt', params: { billId: bill.id } });
+    } catch (error) {
+      console.error('Error checking out bill:', error);
+      Alert.alert(t('common.error'), t('bill.errors.checkoutFailed'));
+    } finally {
+      setIsCheckingOut(false);
+    }
+  };
+
+  const styles = createStyles(theme);
+
+  return (
+    <View style={styles.container}>
+      <LinearGradient colors={theme.gradients.background} style={styles.gradient}>
+        <StatusBar style={theme.isDark ? "light" : "dark"} />
+
+        <KeyboardAvoidingView
+          style={styles.keyboardAvoid}
+          behavior={Platform.OS === 'ios' ? 'padding' : undefined}
+        >
+          <ScrollView
+            style={styles.scrollView}
+            showsVerticalScrollIndicator={false}
+            keyboardShouldPersistTaps="handled"
+          >
+            {/* Header */}
+            <Animated.View
+              entering={FadeInDown.duration(500).delay(100)}
+              style={styles.header}
+            >
+              <TouchableOpacity
+                style={styles.backButton}
+                onPress={() => router.back()}
+                hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+              >
+                <ChevronLeft size={24} color={theme.colors.text} />
+              </TouchableOpacity>
+              <View style={styles.headerText}>
+                <Text style={styles.title}>{t('bill.title')}</Text>
+                <Text style={styles.subtitle}>{t('bill.lineCount', { count: lines.length })}</Text>
+              </View>
+            </Animated.View>
+
+            {/* Lines */}
+            <Animated.View entering={FadeInDown.duration(500).delay(200)}>
+              <GlassCard style={styles.card}>
+                {lines.length === 0 ? (
+                  <Text style={styles.emptyText}>{t('bill.empty')}</Text>
+                ) : (
+                  lines.map((line, index) => (
+                    <View
+                      key={line.id}
+                      style={[styles.lineRow, index !== lines.length - 1 && styles.lineRowBorder]}
+                    >
+                      <View style={styles.lineHeader}>
+                        <View style={styles.lineInfo}>
+                          <Text style={styles.lineName} numberOfLines={1}>{line.itemName}</Text>
+                          <Text style={styles.lineMeta}>
+                            {t('bill.lineDetail', {
+                              quantity: formatQuantity(line.quantity, line.unit),
+                              price: formatCurrency(line.price),
+                              unit: unitLabel(line.unit),
+                            })}
+                          </Text>
+                          {line.discount > 0 && (
+                            <Text style={styles.lineDiscount}>
+                              {t('bill.lineDiscount', { amount: formatCurrency(line.discount) })}
+                            </Text>
+                          )}
+                          {line.taxRate > 0 && (
+                            <Text style={styles.lineMeta}>
+                              {t('bill.lineTax', { rate: line.taxRate, amount: formatCurrency(line.tax) })}
+                            </Text>
+                          )}
+                        </View>
+                        <Text style={styles.lineAmount}>{formatCurrency(line.amount)}</Text>
+                        <TouchableOpacity
+                          onPress={() => startEdit(line)}
+                          hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+                        >
+                          <Edit2 size={18} color={theme.colors.primary} />
+                        </TouchableOpacity>
+                        <TouchableOpacity
+                          onPress={() => handleRemove(line)}
+                          hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+                        >
+                          <Trash2 size={18} color={theme.colors.error} />
+                        </TouchableOpacity>
+                      </View>
+
+                      {editingId === line.id && (
+                        <Animated.View entering={FadeIn.duration(200)}>
+                          <View style={styles.inputRow}>
+                            <View style={styles.inputColumn}>
+                              <Text style={styles.inputLabel}>
+                                {t('bill.quantity', { unit: unitLabel(line.unit) })}
+                              </Text>
+                              <TextInput
+                                style={styles.input}
+                                value={draft.quantity}
+                                onChangeText={text => {
+                                  setDraft({ quantity: text, amount: '' });
+                                  setEditError(null);
+                                }}
+                                placeholder="0"
+                                placeholderTextColor={theme.colors.textMuted}
+                                keyboardType="numbers-and-punctuation"
+                              />
+                            </View>
+                            <View style={styles.inputColumn}>
+                              <Text style={styles.inputLabel}>
+                                {t('bill.amount', { symbol: currency.symbol })}
+                              </Text>
+                              <TextInput
+                                style={styles.input}
+                                value={draft.amount}
+                                onChangeText={text => {
+                                  setDraft({ quantity: '', amount: text });
+                                  setEditError(null);
+                                }}
+                                placeholder="0.00"
+                                placeholderTextColor={theme.colors.textMuted}
+                                keyboardType="numbers-and-punctuation"
+                              />
+                            </View>
+                          </View>
+                          {editError && <Text style={styles.errorText}>{editError}</Text>}
+                          <View style={styles.editActions}>
+                            <TouchableOpacity style={styles.cancelButton} onPress={cancelEdit} activeOpacity={0.7}>
+                              <Text style={styles.cancelButtonText}>{t('common.cancel')}</Text>
+                            </TouchableOpacity>
+                            <TouchableOpacity
+                              style={styles.updateButton}
+                              onPress={() => handleSaveLine(line)}
+                              activeOpacity={0.8}
+                            >
+                              <Text style={styles.updateButtonText}>{t('common.save')}</Text>
+                            </TouchableOpacity>
+                          </View>
+                        </Animated.View>
+                      )}
+                    </View>
+                  ))
+                )}
+              </GlassCard>
+            </Animated.View>
+
+            {/* Totals */}
+            {lines.length > 0 && (
+              <Animated.View entering={FadeInDown.duration(500).delay(300)}>
+                <GlassCard style={styles.card}>
+                  <View style={styles.totalRow}>
+                    <Text style={styles.totalLabel}>{t('bill.subtotal')}</Text>
+                    <Text style={styles.totalValue}>{formatCurrency(totals.subtotal)}</Text>
+                  </View>
+                  {totals.billDiscount && (
+                    <View style={styles.totalRow}>
+                      <Text style={styles.totalLabel} numberOfLines={1}>{totals.billDiscount.name}</Text>
+                      <Text style={styles.discountValue}>−{formatCurrency(totals.billDiscount.amount)}</Text>
+                    </View>
+                  )}
+                  {totals.roundOff !== undefined && (
+                    <View style={styles.totalRow}>
+                      <Text style={styles.totalLabel}>{t('bill.roundOff')}</Text>
+                      <Text style={styles.totalValue}>{totals.roundOff < 0 ? '−' : '+'}{formatCurrency(Math.abs(totals.roundOff))}</Text>
+                    </View>
+                  )}
+                  {totals.tax > 0 && (
+                    <View style={styles.totalRow}>
+                      <Text style={styles.totalLabel}>{t('bill.taxIncluded')}</Text>
+                      <Text style={styles.totalValue}>{formatCurrency(totals.tax)}</Text>
+                    </View>
+                  )}
+                  <View style={[styles.totalRow, styles.grandTotalRow]}>
+                    <Text style={styles.grandTotalLabel}>{t('bill.total')}</Text>
+                    <Text style={styles.grandTotalValue}>{formatCurrency(totals.total)}</Text>
+                  </View>
+
+                  <TouchableOpacity
+                    style={[styles.checkoutButton, isCheckingOut && styles.buttonDisabled]}
+                    onPress={handleCheckout}
+                    disabled={isCheckingOut}
+                    activeOpacity={0.8}
+                  >
+                    <LinearGradient
+                      colors={theme.gradients.secondary}
+                      start={{ x: 0, y: 0 }}
+                      end={{ x: 1, y: 0 }}
+                      style={styles.checkoutButtonGradient}
+                    >
+                      <Text style={styles.checkoutButtonText}>{t('bill.checkout')}</Text>
+                    </LinearGradient>
+                  </TouchableOpacity>
+                  <TouchableOpacity style={styles.cancelButton} onPress={handleClear} activeOpacity={0.7}>
+                    <Text style={styles.cancelButtonText}>{t('bill.clear')}</Text>
+                  </TouchableOpacity>
+                </GlassCard>
+              </Animated.View>
+            )}
+
+            <View style={styles.bottomPadding} />
+          </ScrollView>
+        </KeyboardAvoidingView>
+      </LinearGradient>
+    </View>
+  );
+}
+
+const createStyles = (theme: any) => StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  gradient: {
+    flex: 1,
+  },
+  keyboardAvoid: {
+    flex: 1,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    paddingHorizontal: 16,
+    paddingTop: 40,
+    paddingBottom: 8,
+  },
+  backButton: {
+    padding: 4,
+  },
+  headerText: {
+    flex: 1,
+  },
+  title: {
+    fontSize: 22,
+    fontWeight: '800',
+    color: theme.colors.text,
+  },
+  subtitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: theme.colors.textMuted,
+  },
+  card: {
+    marginHorizontal: 12,
+    marginBottom: 10,
+  },
+  lineRow: {
+    paddingVertical: 12,
+  },
+  lineRowBorder: {
+    borderBottomWidth: 1,
+    borderBottomColor: theme.colors.borderLight,
+  },
+  lineHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  lineInfo: {
+    flex: 1,
+  },
+  lineName: {
+    fontSize: 15,
+    fontWeight: '700',
+    color: theme.colors.text,
+  },
+  lineMeta: {
+    fontSize: 12,
+    color: theme.colors.textMuted,
+    marginTop: 2,
+  },
+  lineDiscount: {
+    fontSize: 12,
+    color: theme.colors.success,
+    marginTop: 2,
+  },
+  lineAmount: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: theme.colors.text,
+  },
+  inputRow: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  inputColumn: {
+    flex: 1,
+  },
+  inputLabel: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: theme.colors.textSecondary,
+    marginTop: 14,
+    marginBottom: 8,
+  },
+  input: {
+    backgroundColor: theme.colors.surfaceVariant,
+    borderRadius: 12,
+    padding: 14,
+    fontSize: 16,
+    color: theme.colors.text,
+    borderWidth: 1,
+    borderColor: theme.colors.border,
+  },
+  errorText: {
+    fontSize: 13,
+    color: theme.colors.error,
+    marginTop: 12,
+  },
+  editActions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    alignItems: 'center',
+    gap: 12,
+    marginTop: 8,
+  },
+  updateButton: {
+    backgroundColor: theme.colors.primary,
+    paddingHorizontal: 20,
+    paddingVertical: 10,
+    borderRadius: 12,
+  },
+  updateButtonText: {
+    color: '#FFFFFF',
+    fontSize: 14,
+    fontWeight: '700',
+  },
+  totalRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    gap: 12,
+    paddingVertical: 6,
+  },
+  totalLabel: {
+    flex: 1,
+    fontSize: 14,
+    color: theme.colors.textSecondary,
+  },
+  totalValue: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: theme.colors.text,
+  },
+  discountValue: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: theme.colors.success,
+  },
+  grandTotalRow: {
+    borderTopWidth: 1,
+    borderTopColor: theme.colors.borderLight,
+    marginTop: 6,
+    paddingTop: 12,
+  },
+  grandTotalLabel: {
+    flex: 1,
+    fontSize: 17,
+    fontWeight: '800',
+    color: theme.colors.text,
+  },
+  grandTotalValue: {
+    fontSize: 20,
+    fontWeight: '800',
+    color: theme.colors.primary,
+  },
+  checkoutButton: {
+    marginTop: 16,
+    borderRadius: 12,
+    overflow: 'hidden',
+  },
+  buttonDisabled: {
+    opacity: 0.6,
+  },
+  checkoutButtonGradient: {
+    padding: 16,
+    alignItems: 'center',
+  },
+  checkoutButtonText: {
+    color: '#FFFFFF',
+    fontSize: 16,
+    fontWeight: '700',
+  },
+  cancelButton: {
+    alignItems: 'center',
+    paddingVertical: 12,
+  },
+  cancelButtonText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: theme.colors.textMuted,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: theme.colors.textMuted,
+    textAlign: 'center',
+    paddingVertical: 12,
+  },
+  bottomPadding: {
+    height: 40,
+  },
+});
@@ -0,0 +1,545 @@
+import React, { useState, useCallback, useRef } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  ScrollView,
+  StyleSheet,
+  Alert,
+  KeyboardAvoidingView,
+  Platform,
+} from 'react-native';
+import { StatusBar } from 'expo-status-bar';
+import { LinearGradient } from 'expo-linear-gradient';
+import { useFocusEffect } from '@react-navigation/native';
+import { useRouter } from 'expo-router';
+import { ChevronLeft, Plus, Trash2, Trophy } from 'lucide-react-native';
+import Animated, { FadeIn, FadeInDown } from 'react-native-reanimated';
+import { useTranslation } from 'react-i18next';
+
+import { getItems, addItem, type Item, type Unit } from '@/utils/storage';
+import { DEFAULT_UNIT, formatQuantity, unitLabel } from '@/utils/units';
+import { isPackQuoteCurrent, packUnitPrice } from '@/utils/packs';
+import { compareOffers, type Offer } from '@/utils/compare';
+import { useTheme } from '@/contexts/ThemeContext';
+import { GlassCard } from '@/components/GlassCard';
+import { UnitPicker } from '@/components/UnitPicker';
+import { useHaptics } from '@/hooks/useHaptics';
+import { useCurrency } from '@/hooks/useCurrency';
+
+// An offer as typed in, before it parses
+interface OfferDraft {
+  id: string;
+  label: string;
+  price: string;
+  quantity: string;
+  unit: Unit;
+}
+
+const toOffer = (draft: OfferDraft): Offer | null => {
+  const price = parseFloat(draft.price);
+  const size = parseFloat(draft.quantity);
+  if (!(price > 0) || !(size > 0)) return null;
+  return { id: draft.id, label: draft.label.trim(), price, size, unit: draft.unit };
+};
+
+// Best Value Comparison Screen Component
+export default function CompareScreen() {
+  const { theme } = useTheme();
+  const { impact, notification, selection } = useHaptics();
+  const { t } = useTranslation();
+  const { currency, formatCurrency } = useCurrency();
+  const router = useRouter();
+
+  const nextId = useRef(0);
+  const createDraft = (fields: Partial<OfferDraft> = {}): OfferDraft => ({
+    id: (nextId.current++).toString(),
+    label: '',
+    price: '',
+    quantity: '',
+    unit: DEFAULT_UNIT,
+    ...fields,
+  });
+
+  const [drafts, setDrafts] = useState<OfferDraft[]>(() => [createDraft(), createDraft()]);
+  const [items, setItems] = useState<Item[]>([]);
+  const [savedOfferId, setSavedOfferId] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useFocusEffect(
+    useCallback(() => {
+      getItems()
+        .then(setItems)
+        .catch(error => console.error('Error loading items:', error));
+    }, [])
+  );
+
+  const updateDraft = (id: string, fields: Partial<OfferDraft>) => {
+    setDrafts(prev => prev.map(draft => (draft.id === id ? { ...draft, ...fields } : draft)));
+    setSavedOfferId(null);
+  };
+
+  const addDraft = (fields?: Partial<OfferDraft>) => {
+    impact('light');
+    setDrafts(prev => {
+      // Fill the first untouched offer before adding another
+      const emptyIndex = fields
+        ? prev.findIndex(draft => !draft.label && !draft.price && !draft.quantity)
+        : -1;
+      if (emptyIndex === -1) return [...prev, createDraft(fields)];
+      return prev.map((draft, index) => (index === emptyIndex ? { ...draft, ...fields } : draft));
+    });
+    setSavedOfferId(null);
+  };
+
+  const removeDraft = (id: string) => {
+    selection();
+    setDrafts(prev => prev.filter(draft => draft.id !== id));
+    setSavedOfferId(null);
+  };
+
+  // Items bought by the pack are compared at their pack quote
+  const addFromItem = (item: Item) => {
+    const quote = item.packQuote && isPackQuoteCurrent(item) ? item.packQuote : null;
+    addDraft({
+      label: item.name,
+      price: (quote?.price ?? item.pricePerKg).toString(),
+      quantity: (quote?.size ?? 1).toString(),
+      unit: quote?.unit ?? item.unit,
+    });
+  };
+
+  const offerLabel = (offer: Offer) =>
+    offer.label || t('compare.offer', { number: drafts.findIndex(draft => draft.id === offer.id) + 1 });
+
+  const offers = drafts.map(toOffer).filter((offer): offer is Offer => offer !== null);
+  const comparison = compareOffers(offers);
+  const hasResult = comparison !== null && comparison.ranked.length >= 2;
+
+  const handleSaveWinner = async (offer: Offer) => {
+    if (!comparison) return;
+    try {
+      setIsSaving(true);
+      const quote = { price: offer.price, size: offer.size, unit: offer.unit };
+      const item = await addItem(
+        offerLabel(offer),
+        packUnitPrice(quote, comparison.unit),
+        'other',
+        comparison.unit,
+        { packQuote: quote }
+      );
+      setSavedOfferId(offer.id);
+      notification('success');
+      Alert.alert(t('compare.savedTitle'), t('compare.savedMessage', { name: item.name }), [
+        { text: t('common.ok') },
+        {
+          text: t('compare.viewItem'),
+          onPress: () => router.push({ pathname: '/items/[id]', params: { id: item.id } }),
+        },
+      ]);
+    } catch (error) {
+      console.error('Error saving offer:', error);
+      Alert.alert(t('common.error'), t('compare.saveFailed'));
+      notification('error');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const styles = createStyles(theme);
+
+  return (
+    <View style={styles.container}>
+      <LinearGradient colors={theme.gradients.background} style={styles.gradient}>
+        <StatusBar style={theme.isDark ? "light" : "dark"} />
+
+        <KeyboardAvoidingView
+          style={styles.keyboardAvoid}
+          behavior={Platform.OS === 'ios' ? 'padding' : undefined}
+        >
+          <ScrollView
+            style={styles.scrollView}
+            showsVerticalScrollIndicator={false}
+            keyboardShouldPersistTaps="handled"
+          >
+            {/* Header */}
+            <Animated.View
+              entering={FadeInDown.duration(500).delay(100)}
+              style={styles.header}
+            >
+              <TouchableOpacity
+                style={styles.backButton}
+                onPress={() => router.back()}
+                hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+              >
+                <ChevronLeft size={24} color={theme.colors.text} />
+              </TouchableOpacity>
+              <View style={styles.headerText}>
+                <Text style={styles.title}>{t('compare.title')}</Text>
+                <Text style={styles.subtitle}>{t('compare.subtitle')}</Text>
+              </View>
+            </Animated.View>
+
+            {/* Pick from items */}
+            {items.length > 0 && (
+              <Animated.View entering={FadeInDown.duration(500).delay(200)}>
+                <GlassCard style={styles.card}>
+                  <Text style={styles.cardTitle}>{t('compare.fromItems')}</Text>
+                  <ScrollView
+                    horizontal
+                    showsHorizontalScrollIndicator={false}
+                    contentContainerStyle={styles.itemChips}
+                  >
+                    {items.map(item => (
+                      <TouchableOpacity
+                        key={item.id}
+                        style={styles.itemChip}
+                        onPress={() => addFromItem(item)}
+                        activeOpacity={0.7}
+                      >
+                        <Text style={styles.itemChipText} numberOfLines={1}>{item.name}</Text>
+                      </TouchableOpacity>
+                    ))}
+                  </ScrollView>
+                </GlassCard>
+              </Animated.View>
+            )}
+
+            {/* Offers */}
+            {drafts.map((draft, index) => (
+              <Animated.View key={draft.id} entering={FadeIn.duration(300)}>
+                <GlassCard style={styles.card}>
+                  <View style={styles.offerHeader}>
+                    <Text style={styles.cardTitle}>{t('compare.offer', { number: index + 1 })}</Text>
+                    {drafts.length > 2 && (
+                      <TouchableOpacity
+                        onPress={() => removeDraft(draft.id)}
+                        hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+                      >
+                        <Trash2 size={18} color={theme.colors.error} />
+                      </TouchableOpacity>
+                    )}
+                  </View>
+
+                  <TextInput
+                    style={styles.input}
+                    value={draft.label}
+                    onChangeText={label => updateDraft(draft.id, { label })}
+                    placeholder={t('compare.labelPlaceholder')}
+                    placeholderTextColor={theme.colors.textMuted}
+                  />
+
+                  <View style={styles.inputRow}>
+                    <View style={styles.inputColumn}>
+                      <Text style={styles.inputLabel}>{t('compare.price', { currency: currency.symbol })}</Text>
+                      <TextInput
+                        style={styles.input}
+                        value={draft.price}
+                        onChangeText={price => updateDraft(draft.id, { price })}
+                        placeholder="0.00"
+                        placeholderTextColor={theme.colors.textMuted}
+                        keyboardType="decimal-pad"
+                      />
+                    </View>
+                    <View style={styles.inputColumn}>
+                      <Text style={styles.inputLabel}>{t('compare.quantity', { unit: unitLabel(draft.unit) })}</Text>
+                      <TextInput
+                        style={styles.input}
+                        value={draft.quantity}
+                        onChangeText={quantity => updateDraft(draft.id, { quantity })}
+                        placeholder="0"
+                        placeholderTextColor={theme.colors.textMuted}
+                        keyboardType="decimal-pad"
+                      />
+                    </View>
+                  </View>
+
+                  <UnitPicker selectedUnit={draft.unit} onSelectUnit={unit => updateDraft(draft.id, { unit })} />
+                </GlassCard>
+              </Animated.View>
+            ))}
+
+            <TouchableOpacity style={styles.addOfferButton} onPress={() => addDraft()} activeOpacity={0.7}>
+              <Plus size={18} color={theme.colors.primary} />
+              <Text style={styles.addOfferText}>{t('compare.addOffer')}</Text>
+            </TouchableOpacity>
+
+            {/* Ranking */}
+            <Animated.View entering={FadeInDown.duration(500).delay(300)}>
+              <GlassCard style={styles.card}>
+                <Text style={styles.cardTitle}>{t('compare.ranking')}</Text>
+                {!hasResult || !comparison ? (
+                  <Text style={styles.emptyText}>{t('compare.needTwo')}</Text>
+                ) : (
+                  <>
+                    {comparison.ranked.map((entry, index) => {
+                      const isWinner = index === 0;
+                      return (
+                        <View
+                          key={entry.offer.id}
+                          style={[styles.rankRow, index !== comparison.ranked.length - 1 && styles.rankRowBorder]}
+                        >
+                          <View style={[styles.rankBadge, isWinner && styles.rankBadgeWinner]}>
+                            {isWinner ? (
+                              <Trophy size={16} color="#FFFFFF" />
+                            ) : (
+                              <Text style={styles.rankNumber}>{index + 1}</Text>
+                            )}
+                          </View>
+                          <View style={styles.rankInfo}>
+                            <Text style={styles.rankLabel} numberOfLines={1}>{offerLabel(entry.offer)}</Text>
+                            <Text style={styles.rankMeta}>
+                              {formatCurrency(entry.offer.price)} · {formatQuantity(entry.offer.size, entry.offer.unit)}
+                            </Text>
+                            {entry.savings > 0.005 && (
+                              <Text style={styles.rankSavings}>
+                                {t('compare.savings', {
+                                  amount: formatCurrency(entry.savings),
+                                  unit: unitLabel(comparison.unit),
+                                  percent: entry.savingsPercent.toFixed(1),
+                                })}
+                              </Text>
+                            )}
+                          </View>
+                          <Text style={[styles.rankPrice, isWinner && styles.rankPriceWinner]}>
+                            {formatCurrency(entry.unitPrice)}/{unitLabel(comparison.unit)}
+                          </Text>
+                        </View>
+                      );
+                    })}
+
+                    {comparison.incompatible.length > 0 && (
+                      <Text style={styles.incompatibleText}>
+                        {t('compare.incompatible', {
+                          offers: comparison.incompatible.map(offerLabel).join(', '),
+                        })}
+                      </Text>
+                    )}
+
+                    <TouchableOpacity
+                      style={[styles.saveButton, (isSaving || savedOfferId !== null) && styles.buttonDisabled]}
+                      onPress={() => handleSaveWinner(comparison.ranked[0].offer)}
+                      disabled={isSaving || savedOfferId !== null}
+                      activeOpacity={0.8}
+                    >
+                      <LinearGradient
+                        colors={theme.gradients.secondary}
+                        start={{ x: 0, y: 0 }}
+                        end={{ x: 1, y: 0 }}
+                        style={styles.saveButtonGradient}
+                      >
+                        <Text style={styles.saveButtonText}>
+                          {savedOfferId !== null ? t('compare.saved') : t('compare.saveWinner')}
+                        </Text>
+                      </LinearGradient>
+                    </TouchableOpacity>
+                  </>
+                )}
+              </GlassCard>
+            </Animated.View>
+
+            <View style={styles.bottomPadding} />
+          </ScrollView>
+        </KeyboardAvoidingView>
+      </LinearGradient>
+    </View>
+  );
+}
+
+const createStyles = (theme: any) => StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  gradient: {
+    flex: 1,
+  },
+  keyboardAvoid: {
+    flex: 1,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    paddingHorizontal: 16,
+    paddingTop: 40,
+    paddingBottom: 8,
+  },
+  backButton: {
+    padding: 4,
+  },
+  headerText: {
+    flex: 1,
+  },
+  title: {
+    fontSize: 22,
+    fontWeight: '800',
+    color: theme.colors.text,
+  },
+  subtitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: theme.colors.textMuted,
+  },
+  card: {
+    marginHorizontal: 12,
+    marginBottom: 10,
+  },
+  cardTitle: {
+    fontSize: 17,
+    fontWeight: '700',
+    color: theme.colors.text,
+    marginBottom: 12,
+  },
+  itemChips: {
+    gap: 8,
+    flexDirection: 'row',
+  },
+  itemChip: {
+    paddingVertical: 8,
+    paddingHorizontal: 14,
+    borderRadius: 20,
+    borderWidth: 1,
+    borderColor: theme.colors.border,
+    backgroundColor: theme.colors.surfaceVariant,
+    maxWidth: 160,
+  },
+  itemChipText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: theme.colors.textSecondary,
+  },
+  offerHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'flex-start',
+  },
+  inputRow: {
+    flexDirection: 'row',
+    gap: 12,
+    marginVertical: 12,
+  },
+  inputColumn: {
+    flex: 1,
+  },
+  inputLabel: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: theme.colors.textSecondary,
+    marginBottom: 8,
+  },
+  input: {
+    backgroundColor: theme.colors.surfaceVariant,
+    borderRadius: 12,
+    padding: 14,
+    fontSize: 16,
+    color: theme.colors.text,
+    borderWidth: 1,
+    borderColor: theme.colors.border,
+  },
+  addOfferButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+    marginHorizontal: 12,
+    marginBottom: 10,
+    paddingVertical: 12,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: theme.colors.border,
+    backgroundColor: theme.colors.surfaceVariant,
+  },
+  addOfferText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: theme.colors.primary,
+  },
+  rankRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    paddingVertical: 12,
+  },
+  rankRowBorder: {
+    borderBottomWidth: 1,
+    borderBottomColor: theme.colors.borderLight,
+  },
+  rankBadge: {
+    width: 30,
+    height: 30,
+    borderRadius: 15,
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: theme.colors.surfaceVariant,
+  },
+  rankBadgeWinner: {
+    backgroundColor: theme.colors.success,
+  },
+  rankNumber: {
+    fontSize: 14,
+    fontWeight: '700',
+    color: theme.colors.textSecondary,
+  },
+  rankInfo: {
+    flex: 1,
+  },
+  rankLabel: {
+    fontSize: 15,
+    fontWeight: '700',
+    color: theme.colors.text,
+  },
+  rankMeta: {
+    fontSize: 12,
+    color: theme.colors.textMuted,
+    marginTop: 2,
+  },
+  rankSavings: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: theme.colors.success,
+    marginTop: 2,
+  },
+  rankPrice: {
+    fontSize: 15,
+    fontWeight: '700',
+    color: theme.colors.textSecondary,
+  },
+  rankPriceWinner: {
+    color: theme.colors.success,
+  },
+  incompatibleText: {
+    fontSize: 13,
+    color: theme.colors.error,
+    marginTop: 8,
+  },
+  saveButton: {
+    marginTop: 16,
+    borderRadius: 12,
+    overflow: 'hidden',
+  },
+  buttonDisabled: {
+    opacity: 0.6,
+  },
+  saveButtonGradient: {
+    padding: 16,
+    alignItems: 'center',
+  },
+  saveButtonText: {
+    color: '#FFFFFF',
+    fontSize: 16,
+    fontWeight: '700',
+  },
+  emptyText: {
+    fontSize: 14,
+    color: theme.colors.textMuted,
+    textAlign: 'center',
+    paddingVertical: 12,
+  },
+  bottomPadding: {
+    height: 40,
+  },
+});
@@ -0,0 +1,765 @@
+import React, { useState, useCallback } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  ScrollView,
+  StyleSheet,
+  Alert,
+  KeyboardAvoidingView,
+  Platform,
+} from 'react-native';
+import { StatusBar } from 'expo-status-bar';
+import { LinearGradient } from 'expo-linear-gradient';
+import { useFocusEffect } from '@react-navigation/native';
+import { useRouter } from 'expo-router';
+import { ChevronLeft, Edit2, Trash2 } from 'lucide-react-native';
+import Animated, { FadeIn, FadeInDown } from 'react-native-reanimated';
+import { useTranslation } from 'react-i18next';
+
+import {
+  getItems,
+  getDiscounts,
+  addDiscount,
+  updateDiscount,
+  deleteDiscount,
+  type Item,
+  type Category,
+  type Discount,
+} from '@/utils/storage';
+import { getCategoryLabel, type DiscountKind, type DiscountScope } from '@/types';
+import { DISCOUNT_KINDS, DISCOUNT_SCOPES, isDateKey } from '@/utils/discounts';
+import { formatQuantity, unitLabel } from '@/utils/units';
+import { useTheme } from '@/contexts/ThemeContext';
+import { GlassCard } from '@/components/GlassCard';
+import { CategoryPicker } from '@/components/CategoryPicker';
+import { useHaptics } from '@/hooks/useHaptics';
+import { useCurrency } from '@/hooks/useCurrency';
+
+const WEEKDAYS = [0, 1, 2, 3, 4, 5, 6];
+
+// A rule as typed in, before it parses
+interface DiscountDraft {
+  name: string;
+  kind: DiscountKind;
+  value: string;
+  scope: DiscountScope;
+  itemId: string | null;
+  category: Category;
+  perUnit: boolean;
+  minQuantity: string;
+  startDate: string;
+  endDate: string;
+  weekdays: number[];
+}
+
+const EMPTY_DRAFT: DiscountDraft = {
+  name: '',
+  kind: 'percent',
+  value: '',
+  scope: 'category',
+  itemId: null,
+  category: 'vegetables',
+  perUnit: false,
+  minQuantity: '',
+  startDate: '',
+  endDate: '',
+  weekdays: [],
+};
+
+const toDraft = (discount: Discount): DiscountDraft => ({
+  name: discount.name,
+  kind: discount.kind,
+  value: discount.value.toString(),
+  scope: discount.scope,
+  itemId: discount.itemId ?? null,
+  category: discount.category ?? EMPTY_DRAFT.category,
+  perUnit: discount.perUnit ?? false,
+  minQuantity: discount.minQuantity?.toString() ?? '',
+  startDate: discount.startDate ?? '',
+  endDate: discount.endDate ?? '',
+  weekdays: discount.weekdays ?? [],
+});
+
+// Translation key of the first problem with a draft, or the rule it describes
+const parseDraft = (draft: DiscountDraft): { error: string } | { discount: Omit<Discount, 'id' | 'isActive'> } => {
+  const name = draft.name.trim();
+  if (!name) return { error: 'discounts.errors.nameRequired' };
+
+  const value = parseFloat(draft.value);
+  if (!(value > 0)) return { error: 'discounts.errors.invalidValue' };
+  if (draft.kind === 'percent' && value > 100) return { error: 'discounts.errors.percentTooHigh' };
+
+  if (draft.scope === 'item' && !draft.itemId) return { error: 'discounts.errors.itemRequired' };
+
+  const isLine = draft.scope !== 'bill';
+  const minQuantity = isLine && draft.minQuantity.trim() ? parseFloat(draft.minQuantity) : undefined;
+  if (minQuantity !== undefined && !(minQuantity > 0)) return { error: 'discounts.errors.invalidMinQuantity' };
+
+  const startDate = draft.startDate.trim();
+  const endDate = draft.endDate.trim();
+  if ((startDate && !isDateKey(startDate)) || (endDate && !isDateKey(endDate))) {
+    return { error: 'discounts.errors.invalidDate' };
+  }
+  if (startDate && endDate && endDate < startDate) return { error: 'discounts.errors.dateOrder' };
+
+  return {
+    discount: {
+      name,
+      kind: draft.kind,
+      value,
+      scope: draft.scope,
+      itemId: draft.scope === 'item' ? draft.itemId ?? undefined : undefined,
+      category: draft.scope === 'category' ? draft.category : undefined,
+      perUnit: draft.kind === 'flat' && isLine && draft.perUnit ? true : undefined,
+      minQuantity,
+      startDate: startDate || undefined,
+      endDate: endDate || undefined,
+      weekdays: draft.weekdays.length > 0 ? [...draft.weekdays].sort() : undefined,
+    },
+  };
+};
+
+// Discounts & Offers Screen Component
+export default function DiscountsScreen() {
+  const { theme } = useTheme();
+  const { impact, notification, selection } = useHaptics();
+  const { t } = useTranslation();
+  const { currency, formatCurrency } = useCurrency();
+  const router = useRouter();
+
+  const [discounts, setDiscounts] = useState<Discount[]>([]);
+  const [items, setItems] = useState<Item[]>([]);
+  const [draft, setDraft] = useState<DiscountDraft>(EMPTY_DRAFT);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [formError, setFormError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const loadData = async () => {
+    try {
+      const [loadedDiscounts, loadedItems] = await Promise.all([getDiscounts(), getItems()]);
+      setDiscounts(loadedDiscounts);
+      setItems(loadedItems);
+    } catch (error) {
+      console.error('Error loading discounts:', error);
+    }
+  };
+
+  useFocusEffect(
+    useCallback(() => {
+      loadData();
+    }, [])
+  );
+
+  const updateDraft = (fields: Partial<DiscountDraft>) => {
+    setDraft(prev => ({ ...prev, ...fields }));
+    setFormError(null);
+  };
+
+  const toggleWeekday = (day: number) => {
+    selection();
+    updateDraft({
+      weekdays: draft.weekdays.includes(day)
+        ? draft.weekdays.filter(d => d !== day)
+        : [...draft.weekdays, day],
+    });
+  };
+
+  const resetForm = () => {
+    setDraft(EMPTY_DRAFT);
+    setEditingId(null);
+    setFormError(null);
+  };
+
+  const handleSave = async () => {
+    const parsed = parseDraft(draft);
+    if ('error' in parsed) {
+      setFormError(t(parsed.error));
+      notification('error');
+      return;
+    }
+
+    try {
+      setIsSaving(true);
+      if (editingId) {
+        await updateDiscount(editingId, parsed.discount);
+      } else {
+        await addDiscount({ ...parsed.discount, isActive: true });
+      }
+      resetForm();
+      await loadData();
+      notification('success');
+    } catch (error) {
+      console.error('Error saving discount:', error);
+      Alert.alert(t('common.error'), t('discounts.errors.saveFailed'));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleEdit = (discount: Discount) => {
+    selection();
+    setDraft(toDraft(discount));
+    setEditingId(discount.id);
+    setFormError(null);
+  };
+
+  const handleToggleActive = async (discount: Discount) => {
+    impact('light');
+    await updateDiscount(discount.id, { isActive: !discount.isActive });
+    await loadData();
+  };
+
+  const handleDelete = (discount: Discount) => {
+    impact('medium');
+    Alert.alert(t('discounts.deleteTitle'), t('discounts.deleteMessage', { name: discount.name }), [
+      { text: t('common.cancel'), style: 'cancel' },
+      {
+        text: t('common.delete'),
+        style: 'destructive',
+        onPress: async () => {
+          await deleteDiscount(discount.id);
+          if (editingId === discount.id) resetForm();
+          await loadData();
+          notification('success');
+        },
+      },
+    ]);
+  };
+
+  const itemsById = new Map(items.map(item => [item.id, item]));
+
+  // e.g. "₹5 off per kg · Onions · from 5 kg"
+  const describeDiscount = (discount: Discount): string => {
+    const item = discount.itemId ? itemsById.get(discount.itemId) : undefined;
+    const unit = item ? unitLabel(item.unit) : t('discounts.summary.unit');
+    const amount = formatCurrency(discount.value);
+    const parts = [
+      discount.kind === 'percent'
+        ? t('discounts.summary.percent', { value: discount.value })
+        : discount.perUnit
+          ? t('discounts.summary.flatPerUnit', { amount, unit })
+          : t('discounts.summary.flat', { amount }),
+      discount.scope === 'item'
+        ? item?.name ?? t('discounts.summary.missingItem')
+        : discount.scope === 'category' && discount.category
+          ? getCategoryLabel(discount.category)
+          : t('discounts.scope.bill'),
+    ];
+    if (discount.minQuantity !== undefined) {
+      parts.push(t('discounts.summary.minQuantity', {
+        quantity: item ? formatQuantity(discount.minQuantity, item.unit) : discount.minQuantity,
+      }));
+    }
+    return parts.join(' · ');
+  };
+
+  const describeSchedule = (discount: Discount): string | null => {
+    const parts: string[] = [];
+    if (discount.startDate && discount.endDate) {
+      parts.push(t('discounts.summary.between', { start: discount.startDate, end: discount.endDate }));
+    } else if (discount.startDate) {
+      parts.push(t('discounts.summary.from', { date: discount.startDate }));
+    } else if (discount.endDate) {
+      parts.push(t('discounts.summary.until', { date: discount.endDate }));
+    }
+    if (discount.weekdays?.length) {
+      parts.push(discount.weekdays.map(day => t(`discounts.weekdays.${day}`)).join(', '));
+    }
+    return parts.length > 0 ? parts.join(' · ') : null;
+  };
+
+  const selectedItem = draft.itemId ? itemsById.get(draft.itemId) : undefined;
+  const quantityUnit = draft.scope === 'item' && selectedItem ? unitLabel(selectedItem.unit) : t('discounts.summary.unit');
+
+  const styles = createStyles(theme);
+
+  return (
+    <View style={styles.container}>
+      <LinearGradient colors={theme.gradients.background} style={styles.gradient}>
+        <StatusBar style={theme.isDark ? "light" : "dark"} />
+
+        <KeyboardAvoidingView
+          style={styles.keyboardAvoid}
+          behavior={Platform.OS === 'ios' ? 'padding' : undefined}
+        >
+          <ScrollView
+            style={styles.scrollView}
+            showsVerticalScrollIndicator={false}
+            keyboardShouldPersistTaps="handled"
+          >
+            {/* Header */}
+            <Animated.View
+              entering={FadeInDown.duration(500).delay(100)}
+              style={styles.header}
+            >
+              <TouchableOpacity
+                style={styles.backButton}
+                onPress={() => router.back()}
+                hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+              >
+                <ChevronLeft size={24} color={theme.colors.text} />
+              </TouchableOpacity>
+              <View style={styles.headerText}>
+                <Text style={styles.title}>{t('discounts.title')}</Text>
+                <Text style={styles.subtitle}>{t('discounts.subtitle')}</Text>
+              </View>
+            </Animated.View>
+
+            {/* Rule form */}
+            <Animated.View entering={FadeInDown.duration(500).delay(200)}>
+              <GlassCard style={styles.card}>
+                <Text style={styles.cardTitle}>
+                  {editingId ? t('discounts.editTitle') : t('discounts.newTitle')}
+                </Text>
+
+                <TextInput
+                  style={styles.input}
+                  value={draft.name}
+                  onChangeText={name => updateDraft({ name })}
+                  placeholder={t('discounts.namePlaceholder')}
+                  placeholderTextColor={theme.colors.textMuted}
+                />
+
+                <View style={styles.modeToggleRow}>
+                  {DISCOUNT_KINDS.map(kind => (
+                    <TouchableOpacity
+                      key={kind}
+                      style={[styles.modeToggleButton, draft.kind === kind && styles.modeToggleButtonActive]}
+                      onPress={() => { selection(); updateDraft({ kind }); }}
+                      activeOpacity={0.7}
+                    >
+                      <Text style={[styles.modeToggleText, draft.kind === kind && styles.modeToggleTextActive]}>
+                        {t(`discounts.kind.${kind}`)}
+                      </Text>
+                    </TouchableOpacity>
+                  ))}
+                </View>
+
+                <Text style={styles.inputLabel}>
+                  {draft.kind === 'percent'
+                    ? t('discounts.percentValue')
+                    : t('discounts.flatValue', { currency: currency.symbol })}
+                </Text>
+                <TextInput
+                  style={styles.input}
+                  value={draft.value}
+                  onChangeText={value => updateDraft({ value })}
+                  placeholder="0"
+                  placeholderTextColor={theme.colors.textMuted}
+                  keyboardType="decimal-pad"
+                />
+
+                <Text style={styles.inputLabel}>{t('discounts.appliesTo')}</Text>
+                <View style={styles.chipRow}>
+                  {DISCOUNT_SCOPES.map(scope => {
+                    const isActive = draft.scope === scope;
+                    return (
+                      <TouchableOpacity
+                        key={scope}
+                        style={[styles.chip, isActive && styles.chipActive]}
+                        onPress={() => { selection(); updateDraft({ scope }); }}
+                        activeOpacity={0.7}
+                      >
+                        <Text style={[styles.chipText, isActive && styles.chipTextActive]}>
+                          {t(`discounts.scope.${scope}`)}
+                        </Text>
+                      </TouchableOpacity>
+                    );
+                  })}
+                </View>
+
+                {draft.scope === 'item' && (
+                  <ScrollView
+                    horizontal
+                    showsHorizontalScrollIndicator={false}
+                    contentContainerStyle={styles.chipRowScroll}
+                  >
+                    {items.map(item => {
+                      const isActive = draft.itemId === item.id;
+                      return (
+                        <TouchableOpacity
+                          key={item.id}
+                          style={[styles.chip, isActive && styles.chipActive]}
+                          onPress={() => { selection(); updateDraft({ itemId: item.id }); }}
+                          activeOpacity={0.7}
+                        >
+                          <Text style={[styles.chipText, isActive && styles.chipTextActive]} numberOfLines={1}>
+                            {item.name}
+                          </Text>
+                        </TouchableOpacity>
+                      );
+                    })}
+                  </ScrollView>
+                )}
+                {draft.scope === 'category' && (
+                  <CategoryPicker
+                    selectedCategory={draft.category}
+                    onSelectCategory={category => updateDraft({ category })}
+                  />
+                )}
+
+                {draft.scope !== 'bill' && (
+                  <>
+                    {draft.kind === 'flat' && (
+                      <TouchableOpacity
+                        style={[styles.chip, styles.chipStandalone, draft.perUnit && styles.chipActive]}
+                        onPress={() => { selection(); updateDraft({ perUnit: !draft.perUnit }); }}
+                        activeOpacity={0.7}
+                      >
+                        <Text style={[styles.chipText, draft.perUnit && styles.chipTextActive]}>
+                          {t('discounts.perUnit', { unit: quantityUnit })}
+                        </Text>
+                      </TouchableOpacity>
+                    )}
+
+                    <Text style={styles.inputLabel}>{t('discounts.minQuantity', { unit: quantityUnit })}</Text>
+                    <TextInput
+                      style={styles.input}
+                      value={draft.minQuantity}
+                      onChangeText={minQuantity => updateDraft({ minQuantity })}
+                      placeholder={t('discounts.optional')}
+                      placeholderTextColor={theme.colors.textMuted}
+                      keyboardType="decimal-pad"
+                    />
+                  </>
+                )}
+
+                <View style={styles.inputRow}>
+                  <View style={styles.inputColumn}>
+                    <Text style={styles.inputLabel}>{t('discounts.startDate')}</Text>
+                    <TextInput
+                      style={styles.input}
+                      value={draft.startDate}
+                      onChangeText={startDate => updateDraft({ startDate })}
+                      placeholder="YYYY-MM-DD"
+                      placeholderTextColor={theme.colors.textMuted}
+                      autoCapitalize="none"
+                      autoCorrect={false}
+                    />
+                  </View>
+                  <View style={styles.inputColumn}>
+                    <Text style={styles.inputLabel}>{t('discounts.endDate')}</Text>
+                    <TextInput
+                      style={styles.input}
+                      value={draft.endDate}
+                      onChangeText={endDate => updateDraft({ endDate })}
+                      placeholder="YYYY-MM-DD"
+                      placeholderTextColor={theme.colors.textMuted}
+                      autoCapitalize="none"
+                      autoCorrect={false}
+                    />
+                  </View>
+                </View>
+
+                <Text style={styles.inputLabel}>{t('discounts.weekdaysLabel')}</Text>
+                <View style={styles.chipRow}>
+                  {WEEKDAYS.map(day => {
+                    const isActive = draft.weekdays.includes(day);
+                    return (
+                      <TouchableOpacity
+                        key={day}
+                        style={[styles.chip, isActive && styles.chipActive]}
+                        onPress={() => toggleWeekday(day)}
+                        activeOpacity={0.7}
+                      >
+                        <Text style={[styles.chipText, isActive && styles.chipTextActive]}>
+                          {t(`discounts.weekdays.${day}`)}
+                        </Text>
+                      </TouchableOpacity>
+                    );
+                  })}
+                </View>
+
+                {formError && (
+                  <Animated.Text entering={FadeIn.duration(200)} style={styles.errorText}>
+                    {formError}
+                  </Animated.Text>
+                )}
+
+                <TouchableOpacity
+                  style={[styles.saveButton, isSaving && styles.buttonDisabled]}
+                  onPress={handleSave}
+                  disabled={isSaving}
+                  activeOpacity={0.8}
+                >
+                  <LinearGradient
+                    colors={theme.gradients.secondary}
+                    start={{ x: 0, y: 0 }}
+                    end={{ x: 1, y: 0 }}
+                    style={styles.saveButtonGradient}
+                  >
+                    <Text style={styles.saveButtonText}>
+                      {editingId ? t('discounts.update') : t('discounts.add')}
+                    </Text>
+                  </LinearGradient>
+                </TouchableOpacity>
+                {editingId && (
+                  <TouchableOpacity style={styles.cancelButton} onPress={resetForm} activeOpacity={0.7}>
+                    <Text style={styles.cancelButtonText}>{t('common.cancel')}</Text>
+                  </TouchableOpacity>
+                )}
+              </GlassCard>
+            </Animated.View>
+
+            {/* Rules */}
+            <Animated.View entering={FadeInDown.duration(500).delay(300)}>
+              <GlassCard style={styles.card}>
+                <Text style={styles.cardTitle}>{t('discounts.listTitle')}</Text>
+                {discounts.length === 0 ? (
+                  <Text style={styles.emptyText}>{t('discounts.empty')}</Text>
+                ) : (
+                  discounts.map((discount, index) => {
+                    const schedule = describeSchedule(discount);
+                    return (
+                      <View
+                        key={discount.id}
+                        style={[styles.ruleRow, index !== discounts.length - 1 && styles.ruleRowBorder]}
+                      >
+                        <View style={styles.ruleInfo}>
+                          <Text
+                            style={[styles.ruleName, !discount.isActive && styles.ruleInactive]}
+                            numberOfLines={1}
+                          >
+                            {discount.name}
+                          </Text>
+                          <Text style={styles.ruleMeta}>{describeDiscount(discount)}</Text>
+                          {schedule && <Text style={styles.ruleMeta}>{schedule}</Text>}
+                        </View>
+                        <TouchableOpacity
+                          style={[styles.chip, discount.isActive && styles.chipActive]}
+                          onPress={() => handleToggleActive(discount)}
+                          activeOpacity={0.7}
+                        >
+                          <Text style={[styles.chipText, discount.isActive && styles.chipTextActive]}>
+                            {discount.isActive ? t('discounts.on') : t('discounts.off')}
+                          </Text>
+                        </TouchableOpacity>
+                        <TouchableOpacity
+                          onPress={() => handleEdit(discount)}
+                          hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+                        >
+                          <Edit2 size={18} color={theme.colors.primary} />
+                        </TouchableOpacity>
+                        <TouchableOpacity
+                          onPress={() => handleDelete(discount)}
+                          hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+                        >
+                          <Trash2 size={18} color={theme.colors.error} />
+                        </TouchableOpacity>
+                      </View>
+                    );
+                  })
+                )}
+              </GlassCard>
+            </Animated.View>
+
+            <View style={styles.bottomPadding} />
+          </ScrollView>
+        </KeyboardAvoidingView>
+      </LinearGradient>
+    </View>
+  );
+}
+
+const createStyles = (theme: any) => StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  gradient: {
+    flex: 1,
+  },
+  keyboardAvoid: {
+    flex: 1,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    paddingHorizontal: 16,
+    paddingTop: 40,
+    paddingBottom: 8,
+  },
+  backButton: {
+    padding: 4,
+  },
+  headerText: {
+    flex: 1,
+  },
+  title: {
+    fontSize: 22,
+    fontWeight: '800',
+    color: theme.colors.text,
+  },
+  subtitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: theme.colors.textMuted,
+  },
+  card: {
+    marginHorizontal: 12,
+    marginBottom: 10,
+  },
+  cardTitle: {
+    fontSize: 17,
+    fontWeight: '700',
+    color: theme.colors.text,
+    marginBottom: 12,
+  },
+  inputRow: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  inputColumn: {
+    flex: 1,
+  },
+  inputLabel: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: theme.colors.textSecondary,
+    marginTop: 14,
+    marginBottom: 8,
+  },
+  input: {
+    backgroundColor: theme.colors.surfaceVariant,
+    borderRadius: 12,
+    padding: 14,
+    fontSize: 16,
+    color: theme.colors.text,
+    borderWidth: 1,
+    borderColor: theme.colors.border,
+  },
+  modeToggleRow: {
+    flexDirection: 'row',
+    gap: 8,
+    marginTop: 14,
+  },
+  modeToggleButton: {
+    flex: 1,
+    alignItems: 'center',
+    paddingVertical: 10,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: theme.colors.border,
+    backgroundColor: theme.colors.surfaceVariant,
+  },
+  modeToggleButtonActive: {
+    backgroundColor: theme.colors.primary,
+    borderColor: theme.colors.primary,
+  },
+  modeToggleText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: theme.colors.textSecondary,
+  },
+  modeToggleTextActive: {
+    color: '#FFFFFF',
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chipRowScroll: {
+    flexDirection: 'row',
+    gap: 8,
+    marginTop: 10,
+  },
+  chip: {
+    paddingVertical: 8,
+    paddingHorizontal: 14,
+    borderRadius: 20,
+    borderWidth: 1,
+    borderColor: theme.colors.border,
+    backgroundColor: theme.colors.surfaceVariant,
+    maxWidth: 160,
+  },
+  chipStandalone: {
+    alignSelf: 'flex-start',
+    maxWidth: undefined,
+    marginTop: 14,
+  },
+  chipActive: {
+    backgroundColor: theme.colors.primary,
+    borderColor: theme.colors.primary,
+  },
+  chipText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: theme.colors.textSecondary,
+  },
+  chipTextActive: {
+    color: '#FFFFFF',
+  },
+  errorText: {
+    fontSize: 13,
+    color: theme.colors.error,
+    marginTop: 12,
+  },
+  saveButton: {
+    marginTop: 16,
+    borderRadius: 12,
+    overflow: 'hidden',
+  },
+  buttonDisabled: {
+    opacity: 0.6,
+  },
+  saveButtonGradient: {
+    padding: 16,
+    alignItems: 'center',
+  },
+  saveButtonText: {
+    color: '#FFFFFF',
+    fontSize: 16,
+    fontWeight: '700',
+  },
+  cancelButton: {
+    alignItems: 'center',
+    paddingVertical: 12,
+  },
+  cancelButtonText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: theme.colors.textMuted,
+  },
+  ruleRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    paddingVertical: 12,
+  },
+  ruleRowBorder: {
+    borderBottomWidth: 1,
+    borderBottomColor: theme.colors.borderLight,
+  },
+  ruleInfo: {
+    flex: 1,
+  },
+  ruleName: {
+    fontSize: 15,
+    fontWeight: '700',
+    color: theme.colors.text,
+  },
+  ruleInactive: {
+    color: theme.colors.textMuted,
+    textDecorationLine: 'line-through',
+  },
+  ruleMeta: {
+    fontSize: 12,
+    color: theme.colors.textMuted,
+    marginTop: 2,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: theme.colors.textMuted,
+    textAlign: 'center',
+    paddingVertical: 12,
+  },
+  bottomPadding: {
+    height: 40,
+  },
+});
@@ -0,0 +1,738 @@
+import React, { useState, useCallback } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  ScrollView,
+  StyleSheet,
+  Alert,
+  KeyboardAvoidingView,
+  Platform,
+} from 'react-native';
+import { StatusBar } from 'expo-status-bar';
+import { LinearGradient } from 'expo-linear-gradient';
+import { useFocusEffect } from '@react-navigation/native';
+import { useLocalSearchParams, useRouter } from 'expo-router';
+import {
+  ChevronLeft,
+  ChevronRight,
+  Star,
+  Pencil,
+  Trash2,
+  Calculator,
+  Coins,
+  Scale,
+  Tag,
+} from 'lucide-react-native';
+import Animated, { FadeIn, FadeInDown } from 'react-native-reanimated';
+import { useTranslation } from 'react-i18next';
+
+import { useTheme } from '@/contexts/ThemeContext';
+import { useSettings } from '@/contexts/SettingsContext';
+import { GlassCard } from '@/components/GlassCard';
+import { SkeletonCard } from '@/components/SkeletonLoader';
+import { CategoryBadge, CategoryPicker } from '@/components/CategoryPicker';
+import { UnitPicker } from '@/components/UnitPicker';
+import { PriceTrendChart, type TrendPoint } from '@/components/PriceTrendChart';
+import { useHaptics } from '@/hooks/useHaptics';
+import { useCurrency } from '@/hooks/useCurrency';
+import {
+  getItem,
+  getItemCalculations,
+  getPriceHistory,
+  updateItem,
+  deleteItem,
+  toggleFavorite,
+  type Item,
+  type Calculation,
+  type Category,
+  type Unit,
+  type PriceChange,
+} from '@/utils/storage';
+import { DEFAULT_UNIT, formatQuantity, unitLabel } from '@/utils/units';
+import { formatPackQuote, isPackQuoteCurrent } from '@/utils/packs';
+import { getItemTaxRate, isTaxInclusive } from '@/utils/tax';
+import { formatPriceTier, getPriceTiers } from '@/utils/tiers';
+import { formatPercentage, marginPercent } from '@/utils/margin';
+import { formatTareWeights, replayInput } from '@/utils/tare';
+import { formatCalculationYield, usablePrice } from '@/utils/yield';
+import { validateItemFields, hasFieldErrors, parseDecimal, type ItemFieldErrors } from '@/utils/validation';
+
+const RECENT_CHANGES_SHOWN = 3;
+const RECENT_CALCULATIONS_SHOWN = 5;
+
+// Item Detail Screen Component
+export default function ItemDetailScreen() {
+  const { theme } = useTheme();
+  const { impact, notification, selection } = useHaptics();
+  const { t, i18n } = useTranslation();
+  const { currency, formatCurrency } = useCurrency();
+  const { settings } = useSettings();
+  const router = useRouter();
+  const { id } = useLocalSearchParams<{ id: string }>();
+
+  const [item, setItem] = useState<Item | null>(null);
+  const [calculations, setCalculations] = useState<Calculation[]>([]);
+  const [priceChanges, setPriceChanges] = useState<PriceChange[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  // Edit form
+  const [isEditing, setIsEditing] = useState(false);
+  const [editName, setEditName] = useState('');
+  const [editPrice, setEditPrice] = useState('');
+  const [editCategory, setEditCategory] = useState<Category>('other');
+  const [editUnit, setEditUnit] = useState<Unit>(DEFAULT_UNIT);
+  const [editErrors, setEditErrors] = useState<ItemFieldErrors>({});
+  const [isSaving, setIsSaving] = useState(false);
+
+  const loadItem = async () => {
+    try {
+      const [loadedItem, loadedCalculations, loadedChanges] = await Promise.all([
+        getItem(id),
+        getItemCalculations(id),
+        getPriceHistory(id),
+      ]);
+      setItem(loadedItem);
+      setCalculations(loadedCalculations);
+      setPriceChanges(loadedChanges);
+    } catch (error) {
+      console.error('Error loading item:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useFocusEffect(
+    useCallback(() => {
+      loadItem();
+    }, [id])
+  );
+
+  const handleToggleFavorite = async () => {
+    if (!item) return;
+    selection();
+    if (!(await toggleFavorite(item.id))) return;
+    setItem({ ...item, isFavorite: !item.isFavorite });
+  };
+
+  const startEdit = () => {
+    if (!item) return;
+    impact('light');
+    setEditName(item.name);
+    setEditPrice(item.pricePerKg.toString());
+    setEditCategory(item.category);
+    setEditUnit(item.unit);
+    setEditErrors({});
+    setIsEditing(true);
+  };
+
+  const saveEdit = async () => {
+    if (!item) return;
+
+    const errors = validateItemFields(editName, editPrice);
+    setEditErrors(errors);
+    if (hasFieldErrors(errors)) {
+      notification('warning');
+      return;
+    }
+
+    try {
+      setIsSaving(true);
+      const saved = await updateItem(
+        item.id,
+        { name: editName.trim(), pricePerKg: parseDecimal(editPrice), unit: editUnit, category: editCategory },
+        'itemDetail'
+      );
+      if (!saved) {
+        throw new Error(`Item ${item.id} could not be saved`);
+      }
+      await loadItem();
+      setIsEditing(false);
+      notification('success');
+    } catch (error) {
+      console.error('Error saving item:', error);
+      Alert.alert(t('common.error'), t('itemDetail.saveFailed'));
+      notification('error');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = () => {
+    if (!item) return;
+    Alert.alert(
+      t('items.delete.title'),
+      t('items.delete.message', { name: item.name }),
+      [
+        { text: t('common.cancel'), style: 'cancel' },
+        {
+          text: t('common.delete'),
+          style: 'destructive',
+          onPress: async () => {
+            await deleteItem(item.id);
+            impact('medium');
+            router.back();
+          },
+        },
+      ]
+    );
+  };
+
+  const calculateWithItem = (calculation?: Calculation) => {
+    if (!item) return;
+    impact('light');
+    router.navigate({
+      pathname: '/',
+      params: {
+        replayItemId: item.id,
+        replayKey: Date.now().toString(),
+        ...(calculation && {
+          replayMode: calculation.mode,
+          replayInput: replayInput(calculation).toString(),
+          replayQuantity: calculation.quantity?.toString(),
+        }),
+      },
+    });
+  };
+
+  const formatDateTime = (timestamp: number) =>
+    new Date(timestamp).toLocaleString(i18n.language, {
+      day: 'numeric',
+      month: 'short',
+      year: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit',
+    });
+
+  const formatPercent = (from: number, to: number) => {
+    const percent = ((to - from) / from) * 100;
+    return `${percent > 0 ? '+' : ''}${percent.toFixed(1)}%`;
+  };
+
+  // Oldest to newest, ending at the current price
+  const trendPoints: TrendPoint[] = item && priceChanges.length > 0
+    ? [
+      { timestamp: priceChanges[priceChanges.length - 1].timestamp, value: priceChanges[priceChanges.length - 1].oldPrice },
+      ...[...priceChanges].reverse().map(change => ({ timestamp: change.timestamp, value: change.newPrice })),
+      { timestamp: Date.now(), value: item.pricePerKg },
+    ]
+    : [];
+
+  const styles = createStyles(theme);
+
+  const renderHeader = () => (
+    <Animated.View
+      entering={FadeInDown.duration(500).delay(100)}
+      style={styles.header}
+    >
+      <TouchableOpacity
+        style={styles.backButton}
+        onPress={() => router.back()}
+        hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+      >
+        <ChevronLeft size={24} color={theme.colors.text} />
+      </TouchableOpacity>
+      <Text style={styles.title} numberOfLines={1}>{item?.name ?? t('itemDetail.title')}</Text>
+      {item && (
+        <TouchableOpacity
+          style={styles.favoriteButton}
+          onPress={handleToggleFavorite}
+          hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+        >
+          <Star
+            size={24}
+            color={item.isFavorite ? theme.colors.favorite : theme.colors.textMuted}
+            fill={item.isFavorite ? theme.colors.favorite : 'transparent'}
+          />
+        </TouchableOpacity>
+      )}
+    </Animated.View>
+  );
+
+  if (isLoading || !item) {
+    return (
+      <View style={styles.container}>
+        <LinearGradient colors={theme.gradients.background} style={styles.gradient}>
+          <StatusBar style={theme.isDark ? "light" : "dark"} />
+          {renderHeader()}
+          {isLoading ? (
+            <View style={styles.loadingContainer}>
+              <SkeletonCard />
+              <SkeletonCard />
+            </View>
+          ) : (
+            <GlassCard style={styles.card}>
+              <Text style={styles.emptyText}>{t('itemDetail.notFound')}</Text>
+            </GlassCard>
+          )}
+        </LinearGradient>
+      </View>
+    );
+  }
+
+  const taxRate = getItemTaxRate(item, settings.categoryTaxRates);
+
+  return (
+    <View style={styles.container}>
+      <LinearGradient colors={theme.gradients.background} style={styles.gradient}>
+        <StatusBar style={theme.isDark ? "light" : "dark"} />
+
+        <KeyboardAvoidingView
+          style={styles.keyboardAvoid}
+          behavior={Platform.OS === 'ios' ? 'padding' : undefined}
+        >
+          <ScrollView style={styles.scrollView} showsVerticalScrollIndicator={false}>
+            {renderHeader()}
+
+            {/* Overview */}
+            <Animated.View entering={FadeInDown.duration(500).delay(200)}>
+              <GlassCard style={styles.card}>
+                <View style={styles.overviewRow}>
+                  <View>
+                    <Text style={styles.label}>{t('itemDetail.price')}</Text>
+                    <Text style={styles.price}>{formatCurrency(item.pricePerKg)}/{unitLabel(item.unit)}</Text>
+                    {item.packQuote && isPackQuoteCurrent(item) && (
+                      <Text style={styles.packQuote}>{formatPackQuote(item.packQuote, formatCurrency)}</Text>
+                    )}
+                    {getPriceTiers(item).map(tier => (
+                      <Text key={tier.minQuantity} style={styles.packQuote}>
+                        {formatPriceTier(tier, item.unit, formatCurrency)}
+                      </Text>
+                    ))}
+                    {item.costPrice !== undefined && (
+                      <Text style={styles.packQuote}>
+                        {t('itemDetail.cost', {
+                          cost: formatCurrency(item.costPrice),
+                          margin: formatPercentage(marginPercent(item.costPrice, item.pricePerKg)),
+                        })}
+                      </Text>
+                    )}
+                    {item.yieldPercent !== undefined && (
+                      <Text style={styles.packQuote}>
+                        {t('itemDetail.yield', {
+                          percent: item.yieldPercent,
+                          price: formatCurrency(usablePrice(item.pricePerKg, item.yieldPercent)),
+                          unit: unitLabel(item.unit),
+                        })}
+                      </Text>
+                    )}
+                    {taxRate > 0 && (
+                      <Text style={styles.packQuote}>
+                        {t(isTaxInclusive(item) ? 'itemDetail.gstInclusive' : 'itemDetail.gstExclusive', { rate: taxRate })}
+                      </Text>
+                    )}
+                  </View>
+                  <CategoryBadge category={item.category} size="medium" />
+                </View>
+
+                <View style={styles.statsRow}>
+                  <View style={styles.stat}>
+                    <Text style={styles.label}>{t('itemDetail.usageCount')}</Text>
+                    <Text style={styles.statValue}>{item.usageCount ?? 0}</Text>
+                  </View>
+                  <View style={styles.stat}>
+                    <Text style={styles.label}>{t('itemDetail.lastUsed')}</Text>
+                    <Text style={styles.statValue}>
+                      {item.lastUsed ? formatDateTime(item.lastUsed) : t('itemDetail.never')}
+                    </Text>
+                  </View>
+                </View>
+
+                <TouchableOpacity
+                  style={styles.primaryButton}
+                  onPress={() => calculateWithItem()}
+                  activeOpacity={0.8}
+                >
+                  <Calculator size={18} color="#FFFFFF" />
+                  <Text style={styles.primaryButtonText}>{t('itemDetail.calculate')}</Text>
+                </TouchableOpacity>
+
+                <View style={styles.buttonRow}>
+                  <TouchableOpacity
+                    style={styles.secondaryButton}
+                    onPress={startEdit}
+                    activeOpacity={0.8}
+                  >
+                    <Pencil size={18} color={theme.colors.primary} />
+                    <Text style={styles.secondaryButtonText}>{t('common.edit')}</Text>
+                  </TouchableOpacity>
+                  <TouchableOpacity
+                    style={[styles.secondaryButton, styles.deleteButton]}
+                    onPress={handleDelete}
+                    activeOpacity={0.8}
+                  >
+                    <Trash2 size={18} color={theme.colors.error} />
+                    <Text style={[styles.secondaryButtonText, styles.deleteButtonText]}>{t('common.delete')}</Text>
+                  </TouchableOpacity>
+                </View>
+              </GlassCard>
+            </Animated.View>
+
+            {/* Edit form */}
+            {isEditing && (
+              <Animated.View entering={FadeIn.duration(300)}>
+                <GlassCard style={styles.card}>
+                  <Text style={styles.cardTitle}>{t('items.editItem')}</Text>
+
+                  <Text style={styles.inputLabel}>{t('items.form.itemName')}</Text>
+                  <TextInput
+                    style={[styles.input, editErrors.name && styles.inputError]}
+                    value={editName}
+                    onChangeText={setEditName}
+                    placeholder={t('items.form.itemNamePlaceholder')}
+                    placeholderTextColor={theme.colors.textMuted}
+                  />
+                  {editErrors.name && (
+                    <Text style={styles.errorText}>{t(`items.validation.${editErrors.name}`)}</Text>
+                  )}
+
+                  <Text style={styles.inputLabel}>{t('items.form.unit')}</Text>
+                  <UnitPicker selectedUnit={editUnit} onSelectUnit={setEditUnit} />
+
+                  <Text style={styles.inputLabel}>{t('items.form.pricePerUnit', { unit: unitLabel(editUnit), currency: currency.symbol })}</Text>
+                  <TextInput
+                    style={[styles.input, editErrors.price && styles.inputError]}
+                    value={editPrice}
+                    onChangeText={setEditPrice}
+                    placeholder={t('items.form.pricePlaceholder')}
+                    placeholderTextColor={theme.colors.textMuted}
+                    keyboardType="decimal-pad"
+                  />
+                  {editErrors.price && (
+                    <Text style={styles.errorText}>{t(`items.validation.${editErrors.price}`)}</Text>
+                  )}
+
+                  <Text style={styles.inputLabel}>{t('items.form.category')}</Text>
+                  <CategoryPicker selectedCategory={editCategory} onSelectCategory={setEditCategory} />
+
+                  <View style={[styles.buttonRow, styles.formButtons]}>
+                    <TouchableOpacity
+                      style={styles.secondaryButton}
+                      onPress={() => setIsEditing(false)}
+                      activeOpacity={0.8}
+                    >
+                      <Text style={styles.secondaryButtonText}>{t('common.cancel')}</Text>
+                    </TouchableOpacity>
+                    <TouchableOpacity
+                      style={[styles.primaryButton, styles.formSaveButton, isSaving && styles.buttonDisabled]}
+                      onPress={saveEdit}
+                      disabled={isSaving}
+                      activeOpacity={0.8}
+                    >
+                      <Text style={styles.primaryButtonText}>
+                        {isSaving ? t('common.loading') : t('common.save')}
+                      </Text>
+                    </TouchableOpacity>
+                  </View>
+                </GlassCard>
+              </Animated.View>
+            )}
+
+            {/* Price history */}
+            <Animated.View entering={FadeInDown.duration(500).delay(300)}>
+              <GlassCard style={styles.card}>
+                <View style={styles.cardTitleRow}>
+                  <Text style={styles.cardTitleNoMargin}>{t('priceHistory.title')}</Text>
+                  {priceChanges.length > 0 && (
+                    <TouchableOpacity
+                      onPress={() => router.push({ pathname: '/price-history/[id]', params: { id: item.id } })}
+                      hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+                    >
+                      <Text style={styles.linkText}>{t('itemDetail.viewAll')}</Text>
+                    </TouchableOpacity>
+                  )}
+                </View>
+
+                {priceChanges.length === 0 ? (
+                  <Text style={styles.emptyText}>{t('priceHistory.empty')}</Text>
+                ) : (
+                  <>
+                    <PriceTrendChart points={trendPoints} height={100} formatValue={formatCurrency} />
+                    {priceChanges.slice(0, RECENT_CHANGES_SHOWN).map(change => (
+                      <View key={change.id} style={styles.listRow}>
+                        <View style={styles.listInfo}>
+                          <Text style={styles.listTitle}>
+                            {formatCurrency(change.oldPrice)} → {formatCurrency(change.newPrice)}
+                          </Text>
+                          <Text style={styles.listMeta}>{formatDateTime(change.timestamp)}</Text>
+                        </View>
+                        <Text style={styles.listValue}>{formatPercent(change.oldPrice, change.newPrice)}</Text>
+                      </View>
+                    ))}
+                  </>
+                )}
+              </GlassCard>
+            </Animated.View>
+
+            {/* Recent calculations */}
+            <Animated.View entering={FadeInDown.duration(500).delay(400)}>
+              <GlassCard style={styles.card}>
+                <Text style={styles.cardTitle}>{t('calculator.recentCalculations')}</Text>
+                {calculations.length === 0 ? (
+                  <Text style={styles.emptyText}>{t('itemDetail.noCalculations')}</Text>
+                ) : (
+                  calculations.slice(0, RECENT_CALCULATIONS_SHOWN).map(calculation => (
+                    <TouchableOpacity
+                      key={calculation.id}
+                      style={styles.listRow}
+                      onPress={() => calculateWithItem(calculation)}
+                      activeOpacity={0.7}
+                    >
+                      {calculation.mode === 'price' ? (
+                        <Coins size={16} color={theme.colors.primary} />
+                      ) : calculation.mode === 'weight' ? (
+                        <Scale size={16} color={theme.colors.secondary} />
+                      ) : (
+                        <Tag size={16} color={theme.colors.accent} />
+                      )}
+                      <View style={styles.listInfo}>
+                        <Text style={styles.listTitle}>
+                          {calculation.mode === 'price'
+                            ? `${formatQuantity(calculation.input, calculation.unit)} → ${formatCurrency(calculation.result)}`
+                            : calculation.mode === 'weight'
+                              ? `${formatCurrency(calculation.input)} → ${formatQuantity(calculation.result, calculation.unit)}`
+                              : t('history.rateSummary', {
+                                amount: formatCurrency(calculation.input),
+                                quantity: formatQuantity(calculation.quantity ?? 0, calculation.unit),
+                                rate: formatCurrency(calculation.result),
+                                unit: unitLabel(calculation.unit),
+                              })}
+                        </Text>
+                        {calculation.tare && (
+                          <Text style={styles.listMeta}>{formatTareWeights(calculation)}</Text>
+                        )}
+                        {calculation.yieldPercent !== undefined && (
+                          <Text style={styles.listMeta}>{formatCalculationYield(calculation)}</Text>
+                        )}
+                        <Text style={styles.listMeta}>
+                          {formatDateTime(calculation.timestamp)} · {t('history.rateAtTime', { price: formatCurrency(calculation.perKgPrice), unit: unitLabel(calculation.unit) })}
+                        </Text>
+                      </View>
+                      <ChevronRight size={18} color={theme.colors.textMuted} />
+                    </TouchableOpacity>
+                  ))
+                )}
+              </GlassCard>
+            </Animated.View>
+
+            <View style={styles.bottomPadding} />
+          </ScrollView>
+        </KeyboardAvoidingView>
+      </LinearGradient>
+    </View>
+  );
+}
+
+const createStyles = (theme: any) => StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  gradient: {
+    flex: 1,
+  },
+  keyboardAvoid: {
+    flex: 1,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  loadingContainer: {
+    padding: 20,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    paddingHorizontal: 16,
+    paddingTop: 40,
+    paddingBottom: 8,
+  },
+  backButton: {
+    padding: 4,
+  },
+  title: {
+    flex: 1,
+    fontSize: 22,
+    fontWeight: '800',
+    color: theme.colors.text,
+  },
+  favoriteButton: {
+    padding: 4,
+  },
+  card: {
+    marginHorizontal: 12,
+    marginBottom: 10,
+  },
+  cardTitle: {
+    fontSize: 17,
+    fontWeight: '700',
+    color: theme.colors.text,
+    marginBottom: 12,
+  },
+  cardTitleRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: 12,
+  },
+  cardTitleNoMargin: {
+    fontSize: 17,
+    fontWeight: '700',
+    color: theme.colors.text,
+  },
+  linkText: {
+    fontSize: 14,
+    fontWeight: '700',
+    color: theme.colors.primary,
+  },
+  overviewRow: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    justifyContent: 'space-between',
+  },
+  label: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: theme.colors.textMuted,
+    marginBottom: 4,
+  },
+  price: {
+    fontSize: 28,
+    fontWeight: '800',
+    color: theme.colors.secondary,
+  },
+  packQuote: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: theme.colors.textMuted,
+    marginTop: 2,
+  },
+  statsRow: {
+    flexDirection: 'row',
+    gap: 12,
+    marginTop: 16,
+    paddingTop: 12,
+    borderTopWidth: 1,
+    borderTopColor: theme.colors.borderLight,
+  },
+  stat: {
+    flex: 1,
+  },
+  statValue: {
+    fontSize: 15,
+    fontWeight: '700',
+    color: theme.colors.text,
+  },
+  buttonRow: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  primaryButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+    padding: 14,
+    borderRadius: 12,
+    backgroundColor: theme.colors.primary,
+    marginTop: 16,
+    marginBottom: 12,
+  },
+  primaryButtonText: {
+    fontSize: 15,
+    fontWeight: '700',
+    color: '#FFFFFF',
+  },
+  secondaryButton: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+    padding: 14,
+    borderRadius: 12,
+    backgroundColor: theme.colors.primary + '15',
+  },
+  secondaryButtonText: {
+    fontSize: 15,
+    fontWeight: '700',
+    color: theme.colors.primary,
+  },
+  deleteButton: {
+    backgroundColor: theme.colors.error + '15',
+  },
+  deleteButtonText: {
+    color: theme.colors.error,
+  },
+  buttonDisabled: {
+    opacity: 0.5,
+  },
+  formButtons: {
+    marginTop: 16,
+  },
+  formSaveButton: {
+    flex: 1,
+    marginTop: 0,
+    marginBottom: 0,
+  },
+  inputLabel: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: theme.colors.textSecondary,
+    marginBottom: 8,
+    marginTop: 8,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: theme.colors.border,
+    borderRadius: 12,
+    padding: 14,
+    fontSize: 16,
+    color: theme.colors.text,
+    backgroundColor: theme.colors.surfaceVariant,
+  },
+  inputError: {
+    borderColor: theme.colors.error,
+  },
+  errorText: {
+    fontSize: 13,
+    color: theme.colors.error,
+    marginTop: 4,
+  },
+  listRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    paddingVertical: 10,
+    borderTopWidth: 1,
+    borderTopColor: theme.colors.borderLight,
+  },
+  listInfo: {
+    flex: 1,
+  },
+  listTitle: {
+    fontSize: 15,
+    fontWeight: '700',
+    color: theme.colors.text,
+  },
+  listMeta: {
+    fontSize: 12,
+    color: theme.colors.textMuted,
+    marginTop: 2,
+  },
+  listValue: {
+    fontSize: 14,
+    fontWeight: '700',
+    color: theme.colors.textSecondary,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: theme.colors.textMuted,
+    textAlign: 'center',
+    paddingVertical: 12,
+  },
+  bottomPadding: {
+    height: 40,
+  },
+});
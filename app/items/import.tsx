@@ -0,0 +1,457 @@
+import React, { useState, useMemo } from 'react';
+import {
+  View,
+  Text,
+  TouchableOpacity,
+  ScrollView,
+  StyleSheet,
+  Alert,
+} from 'react-native';
+import { StatusBar } from 'expo-status-bar';
+import { LinearGradient } from 'expo-linear-gradient';
+import { useRouter } from 'expo-router';
+import { ChevronLeft, FileSpreadsheet, Columns3, ListChecks } from 'lucide-react-native';
+import Animated, { FadeIn, FadeInDown } from 'react-native-reanimated';
+import { useTranslation } from 'react-i18next';
+
+import { getItems } from '@/utils/storage';
+import { pickTextFile } from '@/utils/fileShare';
+import { unitLabel } from '@/utils/units';
+import {
+  CATALOG_FIELDS,
+  readCsvTable,
+  guessColumnMapping,
+  buildCsvImportPreview,
+  applyCsvImport,
+  type CatalogField,
+  type ColumnMapping,
+  type CsvRowStatus,
+  type CsvTable,
+} from '@/utils/catalogCsv';
+import { useTheme } from '@/contexts/ThemeContext';
+import { GlassCard } from '@/components/GlassCard';
+import { useHaptics } from '@/hooks/useHaptics';
+import { useCurrency } from '@/hooks/useCurrency';
+import type { Item } from '@/types';
+
+// CSV Catalog Import Screen Component
+export default function CsvImportScreen() {
+  const { theme } = useTheme();
+  const { impact, notification, selection } = useHaptics();
+  const { t } = useTranslation();
+  const { formatCurrency } = useCurrency();
+  const router = useRouter();
+
+  const [table, setTable] = useState<CsvTable | null>(null);
+  const [mapping, setMapping] = useState<ColumnMapping | null>(null);
+  const [existingItems, setExistingItems] = useState<Item[]>([]);
+  const [isWorking, setIsWorking] = useState(false);
+
+  const handlePickFile = async () => {
+    try {
+      setIsWorking(true);
+      impact('light');
+      const text = await pickTextFile(['text/csv', 'text/comma-separated-values', 'text/plain']);
+      if (text === null) return;
+
+      const csvTable = readCsvTable(text);
+      if (csvTable.headers.length === 0 || csvTable.rows.length === 0) {
+        Alert.alert(t('csv.emptyTitle'), t('csv.emptyMessage'));
+        notification('warning');
+        return;
+      }
+
+      setExistingItems(await getItems());
+      setTable(csvTable);
+      setMapping(guessColumnMapping(csvTable.headers));
+    } catch (error) {
+      console.error('Error reading CSV:', error);
+      Alert.alert(t('common.error'), t('csv.readFailed'));
+      notification('error');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const preview = useMemo(
+    () => (table && mapping ? buildCsvImportPreview(table, mapping, existingItems) : []),
+    [table, mapping, existingItems]
+  );
+
+  const counts = preview.reduce<Record<CsvRowStatus, number>>(
+    (acc, row) => ({ ...acc, [row.status]: acc[row.status] + 1 }),
+    { new: 0, updated: 0, unchanged: 0, invalid: 0 }
+  );
+  const changeCount = counts.new + counts.updated;
+
+  const setFieldColumn = (field: CatalogField, column: number | null) => {
+    if (!mapping) return;
+    selection();
+    setMapping({ ...mapping, [field]: column });
+  };
+
+  const handleImport = async () => {
+    try {
+      setIsWorking(true);
+      await applyCsvImport(preview);
+      notification('success');
+      Alert.alert(
+        t('common.success'),
+        t('csv.importComplete', { added: counts.new, updated: counts.updated }),
+        [{ text: t('common.ok'), onPress: () => router.back() }]
+      );
+    } catch (error) {
+      console.error('Error importing CSV:', error);
+      Alert.alert(t('common.error'), t('csv.importFailed'));
+      notification('error');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const statusColor = (status: CsvRowStatus) => ({
+    new: theme.colors.success,
+    updated: theme.colors.primary,
+    unchanged: theme.colors.textMuted,
+    invalid: theme.colors.error,
+  }[status]);
+
+  const styles = createStyles(theme);
+
+  return (
+    <View style={styles.container}>
+      <LinearGradient colors={theme.gradients.background} style={styles.gradient}>
+        <StatusBar style={theme.isDark ? "light" : "dark"} />
+
+        <ScrollView style={styles.scrollView} showsVerticalScrollIndicator={false}>
+          {/* Header */}
+          <Animated.View
+            entering={FadeInDown.duration(500).delay(100)}
+            style={styles.header}
+          >
+            <TouchableOpacity
+              style={styles.backButton}
+              onPress={() => router.back()}
+              hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+            >
+              <ChevronLeft size={24} color={theme.colors.text} />
+            </TouchableOpacity>
+            <Text style={styles.title}>{t('csv.importTitle')}</Text>
+          </Animated.View>
+
+          {/* File */}
+          <Animated.View entering={FadeInDown.duration(500).delay(200)}>
+            <GlassCard style={styles.card}>
+              <View style={styles.cardTitleRow}>
+                <FileSpreadsheet size={18} color={theme.colors.text} />
+                <Text style={styles.cardTitle}>{t('csv.fileTitle')}</Text>
+              </View>
+              <Text style={styles.cardDescription}>{t('csv.fileDescription')}</Text>
+              <TouchableOpacity
+                style={[styles.actionButton, isWorking && styles.buttonDisabled]}
+                onPress={handlePickFile}
+                disabled={isWorking}
+                activeOpacity={0.8}
+              >
+                <Text style={styles.actionButtonText}>
+                  {table ? t('csv.chooseAnother') : t('csv.chooseFile')}
+                </Text>
+              </TouchableOpacity>
+            </GlassCard>
+          </Animated.View>
+
+          {/* Column mapping */}
+          {table && mapping && (
+            <Animated.View entering={FadeIn.duration(300)}>
+              <GlassCard style={styles.card}>
+                <View style={styles.cardTitleRow}>
+                  <Columns3 size={18} color={theme.colors.text} />
+                  <Text style={styles.cardTitle}>{t('csv.mappingTitle')}</Text>
+                </View>
+
+                {CATALOG_FIELDS.map(field => (
+                  <View key={field} style={styles.mappingRow}>
+                    <Text style={styles.mappingLabel}>{t(`csv.fields.${field}`)}</Text>
+                    <ScrollView
+                      horizontal
+                      showsHorizontalScrollIndicator={false}
+                      contentContainerStyle={styles.chipList}
+                    >
+                      <TouchableOpacity
+                        style={[styles.chip, mapping[field] === null && styles.chipActive]}
+                        onPress={() => setFieldColumn(field, null)}
+                        activeOpacity={0.7}
+                      >
+                        <Text style={[styles.chipText, mapping[field] === null && styles.chipTextActive]}>
+                          {t('csv.notMapped')}
+                        </Text>
+                      </TouchableOpacity>
+                      {table.headers.map((header, column) => (
+                        <TouchableOpacity
+                          key={`${header}-${column}`}
+                          style={[styles.chip, mapping[field] === column && styles.chipActive]}
+                          onPress={() => setFieldColumn(field, column)}
+                          activeOpacity={0.7}
+                        >
+                          <Text style={[styles.chipText, mapping[field] === column && styles.chipTextActive]}>
+                            {header || t('csv.column', { number: column + 1 })}
+                          </Text>
+                        </TouchableOpacity>
+                      ))}
+                    </ScrollView>
+                  </View>
+                ))}
+              </GlassCard>
+            </Animated.View>
+          )}
+
+          {/* Preview */}
+          {table && mapping && (
+            <Animated.View entering={FadeIn.duration(300)}>
+              <GlassCard style={styles.card}>
+                <View style={styles.cardTitleRow}>
+                  <ListChecks size={18} color={theme.colors.text} />
+                  <Text style={styles.cardTitle}>{t('csv.previewTitle')}</Text>
+                </View>
+
+                <View style={styles.countRow}>
+                  {(Object.keys(counts) as CsvRowStatus[]).map(status => (
+                    <View key={status} style={styles.countBadge}>
+                      <Text style={[styles.countValue, { color: statusColor(status) }]}>{counts[status]}</Text>
+                      <Text style={styles.countLabel}>{t(`csv.status.${status}`)}</Text>
+                    </View>
+                  ))}
+                </View>
+
+                {preview.map(row => (
+                  <View key={row.rowNumber} style={styles.previewRow}>
+                    <View style={styles.previewRowHeader}>
+                      <Text style={styles.previewRowNumber}>#{row.rowNumber}</Text>
+                      <Text style={styles.previewRowName} numberOfLines={1}>
+                        {row.name || t('csv.unnamed')}
+                      </Text>
+                      {row.item && (
+                        <Text style={styles.previewRowPrice}>{formatCurrency(row.item.pricePerKg)}/{unitLabel(row.item.unit)}</Text>
+                      )}
+                      <Text style={[styles.statusBadge, { color: statusColor(row.status) }]}>
+                        {t(`csv.status.${row.status}`)}
+                      </Text>
+                    </View>
+                    {row.errors.map(error => (
+                      <Text key={error} style={styles.errorText}>
+                        {t(`items.validation.${error}`)}
+                      </Text>
+                    ))}
+                  </View>
+                ))}
+
+                <TouchableOpacity
+                  style={[styles.importButton, (isWorking || changeCount === 0) && styles.buttonDisabled]}
+                  onPress={handleImport}
+                  disabled={isWorking || changeCount === 0}
+                  activeOpacity={0.8}
+                >
+                  <LinearGradient
+                    colors={theme.gradients.secondary}
+                    start={{ x: 0, y: 0 }}
+                    end={{ x: 1, y: 0 }}
+                    style={styles.importButtonGradient}
+                  >
+                    <Text style={styles.importButtonText}>
+                      {isWorking ? t('common.loading') : t('csv.importButton', { count: changeCount })}
+                    </Text>
+                  </LinearGradient>
+                </TouchableOpacity>
+                {counts.invalid > 0 && (
+                  <Text style={styles.skipNote}>{t('csv.invalidSkipped', { count: counts.invalid })}</Text>
+                )}
+              </GlassCard>
+            </Animated.View>
+          )}
+
+          <View style={styles.bottomPadding} />
+        </ScrollView>
+      </LinearGradient>
+    </View>
+  );
+}
+
+const createStyles = (theme: any) => StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  gradient: {
+    flex: 1,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    paddingHorizontal: 16,
+    paddingTop: 40,
+    paddingBottom: 8,
+  },
+  backButton: {
+    padding: 4,
+  },
+  title: {
+    fontSize: 22,
+    fontWeight: '800',
+    color: theme.colors.text,
+  },
+  card: {
+    marginHorizontal: 12,
+    marginBottom: 10,
+  },
+  cardTitleRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginBottom: 8,
+  },
+  cardTitle: {
+    fontSize: 17,
+    fontWeight: '700',
+    color: theme.colors.text,
+  },
+  cardDescription: {
+    fontSize: 14,
+    color: theme.colors.textMuted,
+    lineHeight: 20,
+    marginBottom: 14,
+  },
+  actionButton: {
+    alignItems: 'center',
+    padding: 14,
+    borderRadius: 12,
+    borderWidth: 1.5,
+    borderColor: theme.colors.primary,
+  },
+  actionButtonText: {
+    fontSize: 15,
+    fontWeight: '700',
+    color: theme.colors.primary,
+  },
+  buttonDisabled: {
+    opacity: 0.6,
+  },
+  mappingRow: {
+    marginBottom: 12,
+  },
+  mappingLabel: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: theme.colors.textSecondary,
+    marginBottom: 6,
+  },
+  chipList: {
+    gap: 8,
+    paddingRight: 16,
+  },
+  chip: {
+    backgroundColor: theme.colors.surfaceVariant,
+    paddingHorizontal: 12,
+    paddingVertical: 7,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: theme.colors.border,
+  },
+  chipActive: {
+    backgroundColor: theme.colors.primary,
+    borderColor: theme.colors.primary,
+  },
+  chipText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: theme.colors.textSecondary,
+  },
+  chipTextActive: {
+    color: '#FFFFFF',
+  },
+  countRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    backgroundColor: theme.colors.surfaceVariant,
+    borderRadius: 12,
+    padding: 12,
+    marginBottom: 12,
+  },
+  countBadge: {
+    alignItems: 'center',
+    flex: 1,
+  },
+  countValue: {
+    fontSize: 20,
+    fontWeight: '800',
+  },
+  countLabel: {
+    fontSize: 12,
+    color: theme.colors.textMuted,
+    fontWeight: '600',
+  },
+  previewRow: {
+    paddingVertical: 10,
+    borderBottomWidth: 1,
+    borderBottomColor: theme.colors.borderLight,
+  },
+  previewRowHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  previewRowNumber: {
+    fontSize: 12,
+    color: theme.colors.textMuted,
+    fontWeight: '600',
+    minWidth: 28,
+  },
+  previewRowName: {
+    flex: 1,
+    fontSize: 15,
+    fontWeight: '600',
+    color: theme.colors.text,
+  },
+  previewRowPrice: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: theme.colors.secondary,
+  },
+  statusBadge: {
+    fontSize: 12,
+    fontWeight: '700',
+    textTransform: 'uppercase',
+  },
+  errorText: {
+    fontSize: 13,
+    color: theme.colors.error,
+    fontWeight: '500',
+    marginTop: 4,
+    marginLeft: 36,
+  },
+  importButton: {
+    marginTop: 16,
+    borderRadius: 12,
+    overflow: 'hidden',
+  },
+  importButtonGradient: {
+    padding: 16,
+    alignItems: 'center',
+  },
+  importButtonText: {
+    color: '#FFFFFF',
+    fontSize: 16,
+    fontWeight: '700',
+  },
+  skipNote: {
+    fontSize: 13,
+    color: theme.colors.textMuted,
+    textAlign: 'center',
+    marginTop: 8,
+  },
+  bottomPadding: {
+    height: 40,
+  },
+});
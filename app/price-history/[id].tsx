@@ -0,0 +1,331 @@
+import React, { useState, useCallback } from 'react';
+import {
+  View,
+  Text,
+  TouchableOpacity,
+  ScrollView,
+  StyleSheet,
+} from 'react-native';
+import { StatusBar } from 'expo-status-bar';
+import { LinearGradient } from 'expo-linear-gradient';
+import { useFocusEffect } from '@react-navigation/native';
+import { useLocalSearchParams, useRouter } from 'expo-router';
+import { ChevronLeft, TrendingUp, TrendingDown } from 'lucide-react-native';
+import Animated, { FadeInDown } from 'react-native-reanimated';
+import { useTranslation } from 'react-i18next';
+
+import { useTheme } from '@/contexts/ThemeContext';
+import { useCurrency } from '@/hooks/useCurrency';
+import { GlassCard } from '@/components/GlassCard';
+import { SkeletonCard } from '@/components/SkeletonLoader';
+import { PriceTrendChart, type TrendPoint } from '@/components/PriceTrendChart';
+import {
+  getItem,
+  getPriceHistory,
+  type Item,
+  type PriceChange,
+} from '@/utils/storage';
+import { unitLabel } from '@/utils/units';
+
+// Percentage change from `from` to `to`
+const percentChange = (from: number, to: number) => ((to - from) / from) * 100;
+
+// Price History Screen Component
+export default function PriceHistoryScreen() {
+  const { theme } = useTheme();
+  const { t, i18n } = useTranslation();
+  const { formatCurrency } = useCurrency();
+  const router = useRouter();
+  const { id } = useLocalSearchParams<{ id: string }>();
+
+  const [item, setItem] = useState<Item | null>(null);
+  const [changes, setChanges] = useState<PriceChange[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const loadHistory = async () => {
+    try {
+      const [loadedItem, loadedChanges] = await Promise.all([
+        getItem(id),
+        getPriceHistory(id),
+      ]);
+      setItem(loadedItem);
+      setChanges(loadedChanges);
+    } catch (error) {
+      console.error('Error loading price history:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useFocusEffect(
+    useCallback(() => {
+      loadHistory();
+    }, [id])
+  );
+
+  const formatPercent = (percent: number) =>
+    `${percent > 0 ? '+' : ''}${percent.toFixed(1)}%`;
+
+  const formatDateTime = (timestamp: number) =>
+    new Date(timestamp).toLocaleString(i18n.language, {
+      day: 'numeric',
+      month: 'short',
+      year: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit',
+    });
+
+  // Changes are stored newest first; the chart runs oldest to newest and
+  // ends at the current price
+  const chronological = [...changes].reverse();
+  const trendPoints: TrendPoint[] = chronological.length > 0
+    ? [
+      { timestamp: chronological[0].timestamp, value: chronological[0].oldPrice },
+      ...chronological.map(change => ({ timestamp: change.timestamp, value: change.newPrice })),
+      ...(item ? [{ timestamp: Date.now(), value: item.pricePerKg }] : []),
+    ]
+    : [];
+
+  const overallChange = item && chronological.length > 0
+    ? {
+      from: chronological[0].oldPrice,
+      percent: percentChange(chronological[0].oldPrice, item.pricePerKg),
+    }
+    : null;
+
+  const changeColor = (percent: number) => {
+    if (percent > 0) return theme.colors.error;
+    if (percent < 0) return theme.colors.success;
+    return theme.colors.textMuted;
+  };
+
+  const styles = createStyles(theme);
+
+  return (
+    <View style={styles.container}>
+      <LinearGradient colors={theme.gradients.background} style={styles.gradient}>
+        <StatusBar style={theme.isDark ? "light" : "dark"} />
+
+        <ScrollView style={styles.scrollView} showsVerticalScrollIndicator={false}>
+          {/* Header */}
+          <Animated.View
+            entering={FadeInDown.duration(500).delay(100)}
+            style={styles.header}
+          >
+            <TouchableOpacity
+              style={styles.backButton}
+              onPress={() => router.back()}
+              hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+            >
+              <ChevronLeft size={24} color={theme.colors.text} />
+            </TouchableOpacity>
+            <View style={styles.headerText}>
+              <Text style={styles.title}>{t('priceHistory.title')}</Text>
+              {item && <Text style={styles.subtitle}>{item.name}</Text>}
+            </View>
+          </Animated.View>
+
+          {isLoading ? (
+            <View style={styles.loadingContainer}>
+              <SkeletonCard />
+              <SkeletonCard />
+            </View>
+          ) : !item ? (
+            <GlassCard style={styles.card}>
+              <Text style={styles.emptyText}>{t('priceHistory.itemNotFound')}</Text>
+            </GlassCard>
+          ) : (
+            <>
+              {/* Summary */}
+              <Animated.View entering={FadeInDown.duration(500).delay(200)}>
+                <GlassCard style={styles.card}>
+                  <View style={styles.summaryRow}>
+                    <View>
+                      <Text style={styles.summaryLabel}>{t('priceHistory.currentPrice')}</Text>
+                      <Text style={styles.currentPrice}>{formatCurrency(item.pricePerKg)}/{unitLabel(item.unit)}</Text>
+                    </View>
+                    {overallChange !== null && (
+                      <View style={styles.summaryRight}>
+                        <Text style={styles.summaryLabel}>
+                          {t('priceHistory.sinceFirst', { price: formatCurrency(overallChange.from) })}
+                        </Text>
+                        <Text style={[styles.overallChange, { color: changeColor(overallChange.percent) }]}>
+                          {formatPercent(overallChange.percent)}
+                        </Text>
+                      </View>
+                    )}
+                  </View>
+                  <Text style={styles.changeCount}>
+                    {t('priceHistory.changeCount', { count: changes.length })}
+                  </Text>
+                </GlassCard>
+              </Animated.View>
+
+              {/* Trend chart */}
+              {trendPoints.length > 1 && (
+                <Animated.View entering={FadeInDown.duration(500).delay(300)}>
+                  <GlassCard style={styles.card}>
+                    <Text style={styles.cardTitle}>{t('priceHistory.trend')}</Text>
+                    <PriceTrendChart points={trendPoints} formatValue={formatCurrency} />
+                  </GlassCard>
+                </Animated.View>
+              )}
+
+              {/* Change log */}
+              <Animated.View entering={FadeInDown.duration(500).delay(400)}>
+                <GlassCard style={styles.card}>
+                  <Text style={styles.cardTitle}>{t('priceHistory.log')}</Text>
+                  {changes.length === 0 ? (
+                    <Text style={styles.emptyText}>{t('priceHistory.empty')}</Text>
+                  ) : (
+                    changes.map((change, index) => {
+                      const percent = percentChange(change.oldPrice, change.newPrice);
+                      return (
+                        <View
+                          key={change.id}
+                          style={[styles.changeRow, index !== changes.length - 1 && styles.changeRowBorder]}
+                        >
+                          {percent >= 0 ? (
+                            <TrendingUp size={18} color={changeColor(percent)} />
+                          ) : (
+                            <TrendingDown size={18} color={changeColor(percent)} />
+                          )}
+                          <View style={styles.changeInfo}>
+                            <Text style={styles.changePrices}>
+                              {formatCurrency(change.oldPrice)} → {formatCurrency(change.newPrice)}
+                            </Text>
+                            <Text style={styles.changeMeta}>
+                              {formatDateTime(change.timestamp)} · {t(`priceHistory.source.${change.source}`)}
+                            </Text>
+                          </View>
+                          <Text style={[styles.changePercent, { color: changeColor(percent) }]}>
+                            {formatPercent(percent)}
+                          </Text>
+                        </View>
+                      );
+                    })
+                  )}
+                </GlassCard>
+              </Animated.View>
+            </>
+          )}
+
+          <View style={styles.bottomPadding} />
+        </ScrollView>
+      </LinearGradient>
+    </View>
+  );
+}
+
+const createStyles = (theme: any) => StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  gradient: {
+    flex: 1,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  loadingContainer: {
+    padding: 20,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    paddingHorizontal: 16,
+    paddingTop: 40,
+    paddingBottom: 8,
+  },
+  backButton: {
+    padding: 4,
+  },
+  headerText: {
+    flex: 1,
+  },
+  title: {
+    fontSize: 22,
+    fontWeight: '800',
+    color: theme.colors.text,
+  },
+  subtitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: theme.colors.textMuted,
+  },
+  card: {
+    marginHorizontal: 12,
+    marginBottom: 10,
+  },
+  cardTitle: {
+    fontSize: 17,
+    fontWeight: '700',
+    color: theme.colors.text,
+    marginBottom: 12,
+  },
+  summaryRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'flex-end',
+  },
+  summaryRight: {
+    alignItems: 'flex-end',
+  },
+  summaryLabel: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: theme.colors.textMuted,
+    marginBottom: 4,
+  },
+  currentPrice: {
+    fontSize: 24,
+    fontWeight: '800',
+    color: theme.colors.secondary,
+  },
+  overallChange: {
+    fontSize: 20,
+    fontWeight: '800',
+  },
+  changeCount: {
+    fontSize: 13,
+    color: theme.colors.textSecondary,
+    marginTop: 10,
+  },
+  changeRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    paddingVertical: 12,
+  },
+  changeRowBorder: {
+    borderBottomWidth: 1,
+    borderBottomColor: theme.colors.borderLight,
+  },
+  changeInfo: {
+    flex: 1,
+  },
+  changePrices: {
+    fontSize: 15,
+    fontWeight: '700',
+    color: theme.colors.text,
+  },
+  changeMeta: {
+    fontSize: 12,
+    color: theme.colors.textMuted,
+    marginTop: 2,
+  },
+  changePercent: {
+    fontSize: 14,
+    fontWeight: '700',
+  },
+  emptyText: {
+    fontSize: 14,
+    color: theme.colors.textMuted,
+    textAlign: 'center',
+    paddingVertical: 12,
+  },
+  bottomPadding: {
+    height: 40,
+  },
+});
@@ -0,0 +1,420 @@
+import React, { useState, useCallback } from 'react';
+import {
+  View,
+  Text,
+  TouchableOpacity,
+  ScrollView,
+  StyleSheet,
+  Alert,
+} from 'react-native';
+import { StatusBar } from 'expo-status-bar';
+import { LinearGradient } from 'expo-linear-gradient';
+import { useFocusEffect } from '@react-navigation/native';
+import { useLocalSearchParams, useRouter } from 'expo-router';
+import { ChevronLeft, Share2, FileText, Printer } from 'lucide-react-native';
+import Animated, { FadeInDown } from 'react-native-reanimated';
+import { useTranslation } from 'react-i18next';
+
+import { getBills, type Bill } from '@/utils/storage';
+import { buildReceipt, formatReceiptText, formatReceiptHtml } from '@/utils/receipt';
+import { shareText, sharePdf, printHtml } from '@/utils/fileShare';
+import { LANGUAGES } from '@/i18n';
+import { useTheme } from '@/contexts/ThemeContext';
+import { useSettings } from '@/contexts/SettingsContext';
+import { GlassCard } from '@/components/GlassCard';
+import { useHaptics } from '@/hooks/useHaptics';
+
+// Receipt Screen Component
+export default function ReceiptScreen() {
+  const { theme } = useTheme();
+  const { impact, selection } = useHaptics();
+  const { t, i18n } = useTranslation();
+  const { settings } = useSettings();
+  const router = useRouter();
+  const { billId } = useLocalSearchParams<{ billId: string }>();
+
+  const [bill, setBill] = useState<Bill | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isWorking, setIsWorking] = useState(false);
+  // Customers may want the receipt in another language than the app
+  const [language, setLanguage] = useState<string>(i18n.language);
+
+  const loadBill = async () => {
+    try {
+      const bills = await getBills();
+      setBill(bills.find(b => b.id === billId) ?? null);
+    } catch (error) {
+      console.error('Error loading bill:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useFocusEffect(
+    useCallback(() => {
+      loadBill();
+    }, [billId])
+  );
+
+  const receiptT = i18n.getFixedT(language);
+  const receipt = bill
+    ? buildReceipt(bill, { shopName: settings.shopName, currency: settings.currency, language, t: receiptT })
+    : null;
+
+  const runAction = async (action: () => Promise<unknown>) => {
+    try {
+      setIsWorking(true);
+      impact('light');
+      await action();
+    } catch (error) {
+      console.error('Error sharing receipt:', error);
+      Alert.alert(t('common.error'), t('receipt.errors.shareFailed'));
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleShareText = () => {
+    if (!receipt) return;
+    runAction(() => shareText(formatReceiptText(receipt, receiptT), t('receipt.title')));
+  };
+
+  const handleSharePdf = () => {
+    if (!receipt) return;
+    runAction(async () => {
+      const shared = await sharePdf(formatReceiptHtml(receipt, receiptT, language), t('receipt.title'));
+      if (!shared) {
+        Alert.alert(t('common.error'), t('receipt.errors.shareUnavailable'));
+      }
+    });
+  };
+
+  const handlePrint = () => {
+    if (!receipt) return;
+    runAction(() => printHtml(formatReceiptHtml(receipt, receiptT, language)));
+  };
+
+  const styles = createStyles(theme);
+
+  return (
+    <View style={styles.container}>
+      <LinearGradient colors={theme.gradients.background} style={styles.gradient}>
+        <StatusBar style={theme.isDark ? "light" : "dark"} />
+
+        <ScrollView style={styles.scrollView} showsVerticalScrollIndicator={false}>
+          {/* Header */}
+          <Animated.View
+            entering={FadeInDown.duration(500).delay(100)}
+            style={styles.header}
+          >
+            <TouchableOpacity
+              style={styles.backButton}
+              onPress={() => router.back()}
+              hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+            >
+              <ChevronLeft size={24} color={theme.colors.text} />
+            </TouchableOpacity>
+            <Text style={styles.title}>{t('receipt.title')}</Text>
+          </Animated.View>
+
+          {!receipt ? (
+            !isLoading && (
+              <GlassCard style={styles.card}>
+                <Text style={styles.emptyText}>{t('receipt.notFound')}</Text>
+              </GlassCard>
+            )
+          ) : (
+            <>
+              {/* Language */}
+              <Animated.View entering={FadeInDown.duration(500).delay(150)} style={styles.chipRow}>
+                {LANGUAGES.map(lang => {
+                  const isActive = language === lang.code;
+                  return (
+                    <TouchableOpacity
+                      key={lang.code}
+                      style={[styles.chip, isActive && styles.chipActive]}
+                      onPress={() => { selection(); setLanguage(lang.code); }}
+                      activeOpacity={0.7}
+                    >
+                      <Text style={[styles.chipText, isActive && styles.chipTextActive]}>
+                        {lang.nativeName}
+                      </Text>
+                    </TouchableOpacity>
+                  );
+                })}
+              </Animated.View>
+
+              {/* Preview */}
+              <Animated.View entering={FadeInDown.duration(500).delay(200)}>
+                <GlassCard style={styles.card}>
+                  {receipt.shopName !== '' && <Text style={styles.shopName}>{receipt.shopName}</Text>}
+                  <Text style={styles.meta}>{receipt.date}</Text>
+                  <Text style={styles.meta}>{receiptT('receipt.number', { number: receipt.number })}</Text>
+
+                  <View style={styles.divider} />
+                  {receipt.lines.map((line, index) => (
+                    <View key={index} style={styles.lineRow}>
+                      <View style={styles.lineInfo}>
+                        <Text style={styles.lineName}>{line.name}</Text>
+                        <Text style={styles.note}>{line.detail}</Text>
+                        {line.notes.map(note => (
+                          <Text key={note} style={styles.note}>{note}</Text>
+                        ))}
+                      </View>
+                      <Text style={styles.lineAmount}>{line.amount}</Text>
+                    </View>
+                  ))}
+                  <View style={styles.divider} />
+
+                  {receipt.totals.map((row, index) => (
+                    <View key={index} style={styles.totalRow}>
+                      <Text style={styles.totalLabel}>{row.label}</Text>
+                      <Text style={styles.totalValue}>{row.value}</Text>
+                    </View>
+                  ))}
+                  <View style={[styles.totalRow, styles.grandTotalRow]}>
+                    <Text style={styles.grandTotalLabel}>{receipt.total.label}</Text>
+                    <Text style={styles.grandTotalValue}>{receipt.total.value}</Text>
+                  </View>
+                  {receipt.savings && <Text style={styles.savings}>{receipt.savings}</Text>}
+                </GlassCard>
+              </Animated.View>
+
+              {/* Actions */}
+              <Animated.View entering={FadeInDown.duration(500).delay(250)}>
+                <GlassCard style={styles.card}>
+                  <TouchableOpacity
+                    style={[styles.shareButton, isWorking && styles.buttonDisabled]}
+                    onPress={handleShareText}
+                    disabled={isWorking}
+                    activeOpacity={0.8}
+                  >
+                    <LinearGradient
+                      colors={theme.gradients.secondary}
+                      start={{ x: 0, y: 0 }}
+                      end={{ x: 1, y: 0 }}
+                      style={styles.shareButtonGradient}
+                    >
+                      <Share2 size={18} color="#FFFFFF" />
+                      <Text style={styles.shareButtonText}>{t('receipt.shareText')}</Text>
+                    </LinearGradient>
+                  </TouchableOpacity>
+                  <View style={styles.buttonRow}>
+                    <TouchableOpacity
+                      style={[styles.actionButton, isWorking && styles.buttonDisabled]}
+                      onPress={handleSharePdf}
+                      disabled={isWorking}
+                      activeOpacity={0.8}
+                    >
+                      <FileText size={18} color={theme.colors.primary} />
+                      <Text style={styles.actionButtonText}>{t('receipt.sharePdf')}</Text>
+                    </TouchableOpacity>
+                    <TouchableOpacity
+                      style={[styles.actionButton, isWorking && styles.buttonDisabled]}
+                      onPress={handlePrint}
+                      disabled={isWorking}
+                      activeOpacity={0.8}
+                    >
+                      <Printer size={18} color={theme.colors.primary} />
+                      <Text style={styles.actionButtonText}>{t('receipt.print')}</Text>
+                    </TouchableOpacity>
+                  </View>
+                </GlassCard>
+              </Animated.View>
+            </>
+          )}
+
+          <View style={styles.bottomPadding} />
+        </ScrollView>
+      </LinearGradient>
+    </View>
+  );
+}
+
+const createStyles = (theme: any) => StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  gradient: {
+    flex: 1,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    paddingHorizontal: 16,
+    paddingTop: 40,
+    paddingBottom: 8,
+  },
+  backButton: {
+    padding: 4,
+  },
+  title: {
+    fontSize: 22,
+    fontWeight: '800',
+    color: theme.colors.text,
+  },
+  card: {
+    marginHorizontal: 12,
+    marginBottom: 10,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    gap: 8,
+    marginHorizontal: 12,
+    marginBottom: 10,
+  },
+  chip: {
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 20,
+    backgroundColor: theme.colors.surfaceVariant,
+    borderWidth: 1,
+    borderColor: theme.colors.border,
+  },
+  chipActive: {
+    backgroundColor: theme.colors.primary,
+    borderColor: theme.colors.primary,
+  },
+  chipText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: theme.colors.textSecondary,
+  },
+  chipTextActive: {
+    color: '#FFFFFF',
+  },
+  shopName: {
+    fontSize: 18,
+    fontWeight: '800',
+    color: theme.colors.text,
+    textAlign: 'center',
+    marginBottom: 4,
+  },
+  meta: {
+    fontSize: 12,
+    color: theme.colors.textMuted,
+    textAlign: 'center',
+  },
+  divider: {
+    borderBottomWidth: 1,
+    borderBottomColor: theme.colors.borderLight,
+    borderStyle: 'dashed',
+    marginVertical: 10,
+  },
+  lineRow: {
+    flexDirection: 'row',
+    gap: 12,
+    paddingVertical: 4,
+  },
+  lineInfo: {
+    flex: 1,
+  },
+  lineName: {
+    fontSize: 14,
+    fontWeight: '700',
+    color: theme.colors.text,
+  },
+  note: {
+    fontSize: 12,
+    color: theme.colors.textMuted,
+    marginTop: 2,
+  },
+  lineAmount: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: theme.colors.text,
+  },
+  totalRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    gap: 12,
+    paddingVertical: 3,
+  },
+  totalLabel: {
+    flex: 1,
+    fontSize: 13,
+    color: theme.colors.textSecondary,
+  },
+  totalValue: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: theme.colors.text,
+  },
+  grandTotalRow: {
+    borderTopWidth: 1,
+    borderTopColor: theme.colors.borderLight,
+    marginTop: 6,
+    paddingTop: 10,
+  },
+  grandTotalLabel: {
+    flex: 1,
+    fontSize: 16,
+    fontWeight: '800',
+    color: theme.colors.text,
+  },
+  grandTotalValue: {
+    fontSize: 18,
+    fontWeight: '800',
+    color: theme.colors.primary,
+  },
+  savings: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: theme.colors.success,
+    textAlign: 'center',
+    marginTop: 10,
+  },
+  shareButton: {
+    borderRadius: 12,
+    overflow: 'hidden',
+  },
+  shareButtonGradient: {
+    flexDirection: 'row',
+    justifyContent: 'center',
+    alignItems: 'center',
+    gap: 8,
+    padding: 16,
+  },
+  shareButtonText: {
+    color: '#FFFFFF',
+    fontSize: 16,
+    fontWeight: '700',
+  },
+  buttonRow: {
+    flexDirection: 'row',
+    gap: 12,
+    marginTop: 12,
+  },
+  actionButton: {
+    flex: 1,
+    flexDirection: 'row',
+    justifyContent: 'center',
+    alignItems: 'center',
+    gap: 8,
+    paddingVertical: 12,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: theme.colors.primary,
+  },
+  actionButtonText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: theme.colors.primary,
+  },
+  buttonDisabled: {
+    opacity: 0.6,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: theme.colors.textMuted,
+    textAlign: 'center',
+    paddingVertical: 12,
+  },
+  bottomPadding: {
+    height: 40,
+  },
+});
@@ -0,0 +1,943 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  ScrollView,
+  StyleSheet,
+  Alert,
+} from 'react-native';
+import { StatusBar } from 'expo-status-bar';
+import { LinearGradient } from 'expo-linear-gradient';
+import { useRouter } from 'expo-router';
+import {
+  ChevronLeft,
+  Download,
+  Upload,
+  DatabaseBackup,
+  Banknote,
+  Scale,
+  Percent,
+  BadgePercent,
+  Weight,
+  Plus,
+  Trash2,
+  Store,
+} from 'lucide-react-native';
+import Animated, { FadeIn, FadeInDown } from 'react-native-reanimated';
+import { useTranslation } from 'react-i18next';
+
+import { useTheme } from '@/contexts/ThemeContext';
+import { useSettings } from '@/contexts/SettingsContext';
+import { useCurrency } from '@/hooks/useCurrency';
+import { ThemeToggle } from '@/components/ThemeToggle';
+import { GlassCard } from '@/components/GlassCard';
+import { LanguageSwitcher } from '@/components/LanguageSwitcher';
+import { useHaptics } from '@/hooks/useHaptics';
+import { LANGUAGES, changeLanguage, type LanguageCode } from '@/i18n';
+import {
+  createExportData,
+  parseBackup,
+  buildImportPlan,
+  applyImportPlan,
+  type ImportMode,
+} from '@/utils/backup';
+import { shareTextFile, pickTextFile, datedFileName } from '@/utils/fileShare';
+import { CURRENCY_PRESETS, MAX_CURRENCY_DECIMALS } from '@/utils/currency';
+import { MONEY_STEPS, ROUNDING_MODES, WEIGHT_STEPS } from '@/utils/rounding';
+import { fromPaise } from '@/utils/money';
+import { formatQuantity } from '@/utils/units';
+import { GST_RATES, getCategoryTaxRate } from '@/utils/tax';
+import { CATEGORIES, getCategoryLabel, type Category, type CurrencySettings, type ExportData, type RoundingSettings } from '@/types';
+
+// Sample amount shown under the currency settings
+const CURRENCY_PREVIEW_AMOUNT = 123456.789;
+
+// Settings Screen Component
+export default function SettingsScreen() {
+  const { theme, isDark, setDarkMode } = useTheme();
+  const { impact, notification, selection } = useHaptics();
+  const { t, i18n } = useTranslation();
+  const router = useRouter();
+  const { settings, updateSettings } = useSettings();
+  const { currency, formatCurrency } = useCurrency();
+
+  const [isWorking, setIsWorking] = useState(false);
+  const [pendingImport, setPendingImport] = useState<ExportData | null>(null);
+  const [currentData, setCurrentData] = useState<ExportData | null>(null);
+  const [importMode, setImportMode] = useState<ImportMode>('merge');
+  const [tareName, setTareName] = useState('');
+  const [tareGrams, setTareGrams] = useState('');
+
+  const updateCurrency = (updates: Partial<CurrencySettings>) => {
+    updateSettings({ currency: { ...currency, ...updates } });
+  };
+
+  const updateRounding = (updates: Partial<RoundingSettings>) => {
+    selection();
+    updateSettings({ rounding: { ...settings.rounding, ...updates } });
+  };
+
+  const setCategoryTaxRate = (category: Category, rate: number) => {
+    selection();
+    updateSettings({ categoryTaxRates: { ...settings.categoryTaxRates, [category]: rate } });
+  };
+
+  const addTarePreset = () => {
+    const name = tareName.trim();
+    const grams = parseFloat(tareGrams);
+    if (!name || !(grams > 0)) {
+      notification('warning');
+      return;
+    }
+    impact('light');
+    updateSettings({ tarePresets: [...settings.tarePresets, { id: Date.now().toString(), name, grams }] });
+    setTareName('');
+    setTareGrams('');
+  };
+
+  const removeTarePreset = (id: string) => {
+    selection();
+    updateSettings({ tarePresets: settings.tarePresets.filter(preset => preset.id !== id) });
+  };
+
+  const selectCurrencyPreset = (preset: CurrencySettings) => {
+    selection();
+    updateSettings({ currency: preset });
+  };
+
+  const currentPreferences = () => ({ isDarkMode: isDark, language: i18n.language });
+
+  const handleExport = async () => {
+    try {
+      setIsWorking(true);
+      impact('light');
+      const data = await createExportData(currentPreferences(), settings);
+      const shared = await shareTextFile(
+        datedFileName('price-calculator-backup', 'json'),
+        JSON.stringify(data, null, 2),
+        'application/json',
+        t('backup.export')
+      );
+      if (!shared) {
+        Alert.alert(t('common.error'), t('backup.shareUnavailable'));
+      }
+    } catch (error) {
+      console.error('Error exporting backup:', error);
+      Alert.alert(t('common.error'), t('backup.exportFailed'));
+      notification('error');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handlePickBackup = async () => {
+    try {
+      setIsWorking(true);
+      impact('light');
+      const json = await pickTextFile(['application/json', 'text/plain']);
+      if (json === null) return;
+
+      const parsed = parseBackup(json);
+      if (!parsed.ok) {
+        Alert.alert(t('backup.invalidTitle'), t(`backup.errors.${parsed.error}`));
+        notification('error');
+        return;
+      }
+
+      setCurrentData(await createExportData(currentPreferences(), settings));
+      setPendingImport(parsed.data);
+      setImportMode('merge');
+    } catch (error) {
+      console.error('Error reading backup:', error);
+      Alert.alert(t('common.error'), t('backup.readFailed'));
+      notification('error');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const cancelImport = () => {
+    setPendingImport(null);
+    setCurrentData(null);
+  };
+
+  const plan = pendingImport && currentData
+    ? buildImportPlan(currentData, pendingImport, importMode)
+    : null;
+
+  const confirmImport = () => {
+    if (!plan) return;
+
+    const apply = async () => {
+      try {
+        setIsWorking(true);
+        await applyImportPlan(plan);
+        if (plan.summary.themeChanged) {
+          await setDarkMode(plan.preferences.isDarkMode);
+        }
+        if (plan.summary.settingsChanged && plan.settings) {
+          await updateSettings(plan.settings);
+        }
+        if (
+          plan.summary.languageChanged &&
+          LANGUAGES.some(lang => lang.code === plan.preferences.language)
+        ) {
+          await changeLanguage(plan.preferences.language as LanguageCode);
+        }
+        cancelImport();
+        notification('success');
+        Alert.alert(t('common.success'), t('backup.importComplete'));
+      } catch (error) {
+        console.error('Error importing backup:', error);
+        Alert.alert(t('common.error'), t('backup.importFailed'));
+        notification('error');
+      } finally {
+        setIsWorking(false);
+      }
+    };
+
+    if (importMode === 'replace') {
+      Alert.alert(
+        t('backup.replaceConfirm.title'),
+        t('backup.replaceConfirm.message'),
+        [
+          { text: t('common.cancel'), style: 'cancel' },
+          { text: t('backup.modes.replace'), style: 'destructive', onPress: apply },
+        ]
+      );
+    } else {
+      apply();
+    }
+  };
+
+  const summaryLines = (() => {
+    if (!plan) return [];
+    const { summary } = plan;
+    const lines: string[] = [];
+    if (summary.itemsAdded > 0) lines.push(t('backup.summary.itemsAdded', { count: summary.itemsAdded }));
+    if (summary.itemsUpdated > 0) lines.push(t('backup.summary.itemsUpdated', { count: summary.itemsUpdated }));
+    if (summary.itemsRemoved > 0) lines.push(t('backup.summary.itemsRemoved', { count: summary.itemsRemoved }));
+    if (summary.calculationsAdded > 0) lines.push(t('backup.summary.calculationsAdded', { count: summary.calculationsAdded }));
+    if (summary.calculationsRemoved > 0) lines.push(t('backup.summary.calculationsRemoved', { count: summary.calculationsRemoved }));
+    if (summary.priceChangesAdded > 0) lines.push(t('backup.summary.priceChangesAdded', { count: summary.priceChangesAdded }));
+    if (summary.discountsAdded > 0) lines.push(t('backup.summary.discountsAdded', { count: summary.discountsAdded }));
+    if (summary.discountsUpdated > 0) lines.push(t('backup.summary.discountsUpdated', { count: summary.discountsUpdated }));
+    if (summary.discountsRemoved > 0) lines.push(t('backup.summary.discountsRemoved', { count: summary.discountsRemoved }));
+    if (summary.billsAdded > 0) lines.push(t('backup.summary.billsAdded', { count: summary.billsAdded }));
+    if (summary.billsRemoved > 0) lines.push(t('backup.summary.billsRemoved', { count: summary.billsRemoved }));
+    if (summary.recentItemsChanged) lines.push(t('backup.summary.recentItems'));
+    if (summary.themeChanged) {
+      lines.push(t('backup.summary.theme', {
+        theme: plan.preferences.isDarkMode ? t('settings.darkMode') : t('settings.lightMode'),
+      }));
+    }
+    if (summary.languageChanged) {
+      const language = LANGUAGES.find(lang => lang.code === plan.preferences.language);
+      lines.push(t('backup.summary.language', { language: language?.nativeName ?? plan.preferences.language }));
+    }
+    if (summary.settingsChanged) lines.push(t('backup.summary.settings'));
+    return lines;
+  })();
+
+  const styles = createStyles(theme);
+
+  return (
+    <View style={styles.container}>
+      <LinearGradient colors={theme.gradients.background} style={styles.gradient}>
+        <StatusBar style={theme.isDark ? "light" : "dark"} />
+
+        <ScrollView style={styles.scrollView} showsVerticalScrollIndicator={false}>
+          {/* Header */}
+          <Animated.View
+            entering={FadeInDown.duration(500).delay(100)}
+            style={styles.header}
+          >
+            <TouchableOpacity
+              style={styles.backButton}
+              onPress={() => router.back()}
+              hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+            >
+              <ChevronLeft size={24} color={theme.colors.text} />
+            </TouchableOpacity>
+            <Text style={styles.title}>{t('settings.title')}</Text>
+          </Animated.View>
+
+          {/* Appearance */}
+          <Animated.View entering={FadeInDown.duration(500).delay(200)}>
+            <GlassCard style={styles.card}>
+              <Text style={styles.cardTitle}>{t('settings.appearance')}</Text>
+              <View style={styles.settingRow}>
+                <Text style={styles.settingLabel}>{t('settings.language')}</Text>
+                <LanguageSwitcher />
+              </View>
+              <View style={[styles.settingRow, styles.settingRowLast]}>
+                <Text style={styles.settingLabel}>
+                  {t('settings.theme')} · {isDark ? t('settings.darkMode') : t('settings.lightMode')}
+                </Text>
+                <ThemeToggle />
+              </View>
+            </GlassCard>
+          </Animated.View>
+
+          {/* Shop */}
+          <Animated.View entering={FadeInDown.duration(500).delay(225)}>
+            <GlassCard style={styles.card}>
+              <View style={styles.cardTitleRow}>
+                <Store size={18} color={theme.colors.text} />
+                <Text style={styles.cardTitleNoMargin}>{t('settings.shop.title')}</Text>
+              </View>
+              <Text style={styles.cardDescription}>{t('settings.shop.description')}</Text>
+              <Text style={styles.fieldLabel}>{t('settings.shop.name')}</Text>
+              <TextInput
+                style={styles.fieldInput}
+                value={settings.shopName}
+                onChangeText={shopName => updateSettings({ shopName })}
+                placeholder={t('settings.shop.namePlaceholder')}
+                placeholderTextColor={theme.colors.textMuted}
+                maxLength={60}
+              />
+            </GlassCard>
+          </Animated.View>
+
+          {/* Currency */}
+          <Animated.View entering={FadeInDown.duration(500).delay(250)}>
+            <GlassCard style={styles.card}>
+              <View style={styles.cardTitleRow}>
+                <Banknote size={18} color={theme.colors.text} />
+                <Text style={styles.cardTitleNoMargin}>{t('settings.currency.title')}</Text>
+              </View>
+              <Text style={styles.cardDescription}>
+                {t('settings.currency.preview', { amount: formatCurrency(CURRENCY_PREVIEW_AMOUNT) })}
+              </Text>
+
+              <View style={styles.chipRow}>
+                {CURRENCY_PRESETS.map(preset => {
+                  const isActive = preset.code === currency.code && preset.symbol === currency.symbol;
+                  return (
+                    <TouchableOpacity
+                      key={preset.code}
+                      style={[styles.chip, isActive && styles.chipActive]}
+                      onPress={() => selectCurrencyPreset(preset)}
+                      activeOpacity={0.7}
+                    >
+                      <Text style={[styles.chipText, isActive && styles.chipTextActive]}>
+                        {preset.symbol} {preset.code}
+                      </Text>
+                    </TouchableOpacity>
+                  );
+                })}
+              </View>
+
+              <View style={styles.fieldRow}>
+                <View style={styles.field}>
+                  <Text style={styles.fieldLabel}>{t('settings.currency.symbol')}</Text>
+                  <TextInput
+                    style={styles.fieldInput}
+                    value={currency.symbol}
+                    onChangeText={symbol => updateCurrency({ symbol })}
+                    maxLength={4}
+                  />
+                </View>
+                <View style={styles.field}>
+                  <Text style={styles.fieldLabel}>{t('settings.currency.code')}</Text>
+                  <TextInput
+                    style={styles.fieldInput}
+                    value={currency.code}
+                    onChangeText={code => updateCurrency({ code: code.toUpperCase() })}
+                    autoCapitalize="characters"
+                    maxLength={3}
+                  />
+                </View>
+              </View>
+
+              <Text style={styles.fieldLabel}>{t('settings.currency.decimals')}</Text>
+              <View style={styles.modeToggleRow}>
+                {Array.from({ length: MAX_CURRENCY_DECIMALS + 1 }, (_, decimals) => (
+                  <TouchableOpacity
+                    key={decimals}
+                    style={[styles.modeToggleButton, currency.decimals === decimals && styles.modeToggleButtonActive]}
+                    onPress={() => { selection(); updateCurrency({ decimals }); }}
+                  >
+                    <Text style={[styles.modeToggleText, currency.decimals === decimals && styles.modeToggleTextActive]}>
+                      {decimals}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+
+              <Text style={styles.fieldLabel}>{t('settings.currency.position')}</Text>
+              <View style={styles.modeToggleRow}>
+                {(['before', 'after'] as const).map(symbolPosition => (
+                  <TouchableOpacity
+                    key={symbolPosition}
+                    style={[styles.modeToggleButton, currency.symbolPosition === symbolPosition && styles.modeToggleButtonActive]}
+                    onPress={() => { selection(); updateCurrency({ symbolPosition }); }}
+                  >
+                    <Text style={[styles.modeToggleText, currency.symbolPosition === symbolPosition && styles.modeToggleTextActive]}>
+                      {t(`settings.currency.positions.${symbolPosition}`)}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+
+              <Text style={styles.fieldLabel}>{t('settings.currency.grouping')}</Text>
+              <View style={styles.modeToggleRow}>
+                {(['indian', 'international'] as const).map(grouping => (
+                  <TouchableOpacity
+                    key={grouping}
+                    style={[styles.modeToggleButton, currency.grouping === grouping && styles.modeToggleButtonActive]}
+                    onPress={() => { selection(); updateCurrency({ grouping }); }}
+                  >
+                    <Text style={[styles.modeToggleText, currency.grouping === grouping && styles.modeToggleTextActive]}>
+                      {t(`settings.currency.groupings.${grouping}`)}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+            </GlassCard>
+          </Animated.View>
+
+          {/* Rounding */}
+          <Animated.View entering={FadeInDown.duration(500).delay(275)}>
+            <GlassCard style={styles.card}>
+              <View style={styles.cardTitleRow}>
+                <Scale size={18} color={theme.colors.text} />
+                <Text style={styles.cardTitleNoMargin}>{t('settings.rounding.title')}</Text>
+              </View>
+              <Text style={styles.cardDescription}>{t('settings.rounding.description')}</Text>
+
+              <Text style={styles.fieldLabel}>{t('settings.rounding.money')}</Text>
+              <View style={styles.chipRow}>
+                {MONEY_STEPS.map(step => {
+                  const isActive = settings.rounding.moneyStep === step;
+                  return (
+                    <TouchableOpacity
+                      key={step}
+                      style={[styles.chip, isActive && styles.chipActive]}
+                      onPress={() => updateRounding({ moneyStep: step })}
+                      activeOpacity={0.7}
+                    >
+                      <Text style={[styles.chipText, isActive && styles.chipTextActive]}>
+                        {step === 0 ? t('settings.rounding.none') : formatCurrency(fromPaise(step))}
+                      </Text>
+                    </TouchableOpacity>
+                  );
+                })}
+              </View>
+              {settings.rounding.moneyStep > 0 && (
+                <View style={styles.modeToggleRow}>
+                  {ROUNDING_MODES.map(moneyMode => (
+                    <TouchableOpacity
+                      key={moneyMode}
+                      style={[styles.modeToggleButton, settings.rounding.moneyMode === moneyMode && styles.modeToggleButtonActive]}
+                      onPress={() => updateRounding({ moneyMode })}
+                    >
+                      <Text style={[styles.modeToggleText, settings.rounding.moneyMode === moneyMode && styles.modeToggleTextActive]}>
+                        {t(`settings.rounding.modes.${moneyMode}`)}
+                      </Text>
+                    </TouchableOpacity>
+                  ))}
+                </View>
+              )}
+
+              <Text style={styles.fieldLabel}>{t('settings.rounding.weight')}</Text>
+              <View style={styles.chipRow}>
+                {WEIGHT_STEPS.map(step => {
+                  const isActive = settings.rounding.weightStep === step;
+                  return (
+                    <TouchableOpacity
+                      key={step}
+                      style={[styles.chip, isActive && styles.chipActive]}
+                      onPress={() => updateRounding({ weightStep: step })}
+                      activeOpacity={0.7}
+                    >
+                      <Text style={[styles.chipText, isActive && styles.chipTextActive]}>
+                        {step === 0 ? t('settings.rounding.none') : formatQuantity(step, 'g')}
+                      </Text>
+                    </TouchableOpacity>
+                  );
+                })}
+              </View>
+              {settings.rounding.weightStep > 0 && (
+                <View style={styles.modeToggleRow}>
+                  {ROUNDING_MODES.map(weightMode => (
+                    <TouchableOpacity
+                      key={weightMode}
+                      style={[styles.modeToggleButton, settings.rounding.weightMode === weightMode && styles.modeToggleButtonActive]}
+                      onPress={() => updateRounding({ weightMode })}
+                    >
+                      <Text style={[styles.modeToggleText, settings.rounding.weightMode === weightMode && styles.modeToggleTextActive]}>
+                        {t(`settings.rounding.modes.${weightMode}`)}
+                      </Text>
+                    </TouchableOpacity>
+                  ))}
+                </View>
+              )}
+            </GlassCard>
+          </Animated.View>
+
+          {/* Tax */}
+          <Animated.View entering={FadeInDown.duration(500).delay(290)}>
+            <GlassCard style={styles.card}>
+              <View style={styles.cardTitleRow}>
+                <Percent size={18} color={theme.colors.text} />
+                <Text style={styles.cardTitleNoMargin}>{t('settings.tax.title')}</Text>
+              </View>
+              <Text style={styles.cardDescription}>{t('settings.tax.description')}</Text>
+
+              {CATEGORIES.map(category => {
+                const currentRate = getCategoryTaxRate(category.id, settings.categoryTaxRates);
+                return (
+                  <View key={category.id} style={styles.taxCategory}>
+                    <Text style={styles.fieldLabel}>{getCategoryLabel(category.id)}</Text>
+                    <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.chipRowScroll}>
+                      {GST_RATES.map(rate => {
+                        const isActive = currentRate === rate;
+                        return (
+                          <TouchableOpacity
+                            key={rate}
+                            style={[styles.chip, isActive && styles.chipActive]}
+                            onPress={() => setCategoryTaxRate(category.id, rate)}
+                            activeOpacity={0.7}
+                          >
+                            <Text style={[styles.chipText, isActive && styles.chipTextActive]}>{rate}%</Text>
+                          </TouchableOpacity>
+                        );
+                      })}
+                    </ScrollView>
+                  </View>
+                );
+              })}
+            </GlassCard>
+          </Animated.View>
+
+          {/* Tare presets */}
+          <Animated.View entering={FadeInDown.duration(500).delay(292)}>
+            <GlassCard style={styles.card}>
+              <View style={styles.cardTitleRow}>
+                <Weight size={18} color={theme.colors.text} />
+                <Text style={styles.cardTitleNoMargin}>{t('settings.tare.title')}</Text>
+              </View>
+              <Text style={styles.cardDescription}>{t('settings.tare.description')}</Text>
+
+              {settings.tarePresets.map(preset => (
+                <View key={preset.id} style={styles.settingRow}>
+                  <Text style={styles.settingLabel}>
+                    {preset.name} · {formatQuantity(preset.grams, 'g')}
+                  </Text>
+                  <TouchableOpacity
+                    onPress={() => removeTarePreset(preset.id)}
+                    hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+                  >
+                    <Trash2 size={18} color={theme.colors.error} />
+                  </TouchableOpacity>
+                </View>
+              ))}
+
+              <View style={[styles.fieldRow, styles.tareFieldRow]}>
+                <View style={styles.field}>
+                  <Text style={styles.fieldLabel}>{t('settings.tare.name')}</Text>
+                  <TextInput
+                    style={styles.fieldInput}
+                    value={tareName}
+                    onChangeText={setTareName}
+                    placeholder={t('settings.tare.namePlaceholder')}
+                    placeholderTextColor={theme.colors.textMuted}
+                  />
+                </View>
+                <View style={styles.field}>
+                  <Text style={styles.fieldLabel}>{t('settings.tare.grams')}</Text>
+                  <TextInput
+                    style={styles.fieldInput}
+                    value={tareGrams}
+                    onChangeText={setTareGrams}
+                    placeholder="0"
+                    placeholderTextColor={theme.colors.textMuted}
+                    keyboardType="decimal-pad"
+                  />
+                </View>
+              </View>
+              <View style={styles.buttonRow}>
+                <TouchableOpacity style={styles.actionButton} onPress={addTarePreset} activeOpacity={0.8}>
+                  <Plus size={18} color={theme.colors.primary} />
+                  <Text style={styles.actionButtonText}>{t('settings.tare.add')}</Text>
+                </TouchableOpacity>
+              </View>
+            </GlassCard>
+          </Animated.View>
+
+          {/* Discounts */}
+          <Animated.View entering={FadeInDown.duration(500).delay(295)}>
+            <GlassCard style={styles.card}>
+              <View style={styles.cardTitleRow}>
+                <BadgePercent size={18} color={theme.colors.text} />
+                <Text style={styles.cardTitleNoMargin}>{t('settings.discounts.title')}</Text>
+              </View>
+              <Text style={styles.cardDescription}>{t('settings.discounts.description')}</Text>
+              <View style={styles.buttonRow}>
+                <TouchableOpacity
+                  style={styles.actionButton}
+                  onPress={() => router.push('/discounts')}
+                  activeOpacity={0.8}
+                >
+                  <BadgePercent size={18} color={theme.colors.primary} />
+                  <Text style={styles.actionButtonText}>{t('settings.discounts.manage')}</Text>
+                </TouchableOpacity>
+              </View>
+            </GlassCard>
+          </Animated.View>
+
+          {/* Backup & Restore */}
+          <Animated.View entering={FadeInDown.duration(500).delay(300)}>
+            <GlassCard style={styles.card}>
+              <View style={styles.cardTitleRow}>
+                <DatabaseBackup size={18} color={theme.colors.text} />
+                <Text style={styles.cardTitleNoMargin}>{t('backup.title')}</Text>
+              </View>
+              <Text style={styles.cardDescription}>{t('backup.description')}</Text>
+
+              <View style={styles.buttonRow}>
+                <TouchableOpacity
+                  style={[styles.actionButton, isWorking && styles.buttonDisabled]}
+                  onPress={handleExport}
+                  disabled={isWorking}
+                  activeOpacity={0.8}
+                >
+                  <Upload size={18} color={theme.colors.primary} />
+                  <Text style={styles.actionButtonText}>{t('backup.export')}</Text>
+                </TouchableOpacity>
+                <TouchableOpacity
+                  style={[styles.actionButton, isWorking && styles.buttonDisabled]}
+                  onPress={handlePickBackup}
+                  disabled={isWorking}
+                  activeOpacity={0.8}
+                >
+                  <Download size={18} color={theme.colors.primary} />
+                  <Text style={styles.actionButtonText}>{t('backup.import')}</Text>
+                </TouchableOpacity>
+              </View>
+
+              {/* Import preview */}
+              {pendingImport && plan && (
+                <Animated.View entering={FadeIn.duration(300)} style={styles.previewContainer}>
+                  <Text style={styles.previewTitle}>
+                    {t('backup.preview', {
+                      date: new Date(pendingImport.exportedAt).toLocaleString(i18n.language),
+                    })}
+                  </Text>
+                  <Text style={styles.previewMeta}>
+                    {t('backup.contents', {
+                      items: pendingImport.items.length,
+                      calculations: pendingImport.calculations.length,
+                    })}
+                  </Text>
+
+                  <View style={styles.modeToggleRow}>
+                    {(['merge', 'replace'] as ImportMode[]).map(option => (
+                      <TouchableOpacity
+                        key={option}
+                        style={[styles.modeToggleButton, importMode === option && styles.modeToggleButtonActive]}
+                        onPress={() => {
+                          selection();
+                          setImportMode(option);
+                        }}
+                        activeOpacity={0.7}
+                      >
+                        <Text style={[styles.modeToggleText, importMode === option && styles.modeToggleTextActive]}>
+                          {t(`backup.modes.${option}`)}
+                        </Text>
+                      </TouchableOpacity>
+                    ))}
+                  </View>
+                  <Text style={styles.modeHint}>{t(`backup.modes.${importMode}Hint`)}</Text>
+
+                  <View style={styles.summaryList}>
+                    {summaryLines.length > 0 ? (
+                      summaryLines.map(line => (
+                        <Text key={line} style={styles.summaryLine}>• {line}</Text>
+                      ))
+                    ) : (
+                      <Text style={styles.summaryLine}>{t('backup.summary.noChanges')}</Text>
+                    )}
+                  </View>
+
+                  <View style={styles.buttonRow}>
+                    <TouchableOpacity
+                      style={[styles.button, styles.cancelButton]}
+                      onPress={cancelImport}
+                      disabled={isWorking}
+                    >
+                      <Text style={styles.cancelButtonText}>{t('common.cancel')}</Text>
+                    </TouchableOpacity>
+                    <TouchableOpacity
+                      style={[styles.button, isWorking && styles.buttonDisabled]}
+                      onPress={confirmImport}
+                      disabled={isWorking}
+                      activeOpacity={0.8}
+                    >
+                      <LinearGradient
+                        colors={importMode === 'replace' ? theme.gradients.accent : theme.gradients.secondary}
+                        start={{ x: 0, y: 0 }}
+                        end={{ x: 1, y: 0 }}
+                        style={styles.applyButtonGradient}
+                      >
+                        <Text style={styles.applyButtonText}>
+                          {isWorking ? t('common.loading') : t('backup.apply')}
+                        </Text>
+                      </LinearGradient>
+                    </TouchableOpacity>
+                  </View>
+                </Animated.View>
+              )}
+            </GlassCard>
+          </Animated.View>
+
+          <View style={styles.bottomPadding} />
+        </ScrollView>
+      </LinearGradient>
+    </View>
+  );
+}
+
+const createStyles = (theme: any) => StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  gradient: {
+    flex: 1,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    paddingHorizontal: 16,
+    paddingTop: 40,
+    paddingBottom: 8,
+  },
+  backButton: {
+    padding: 4,
+  },
+  title: {
+    fontSize: 22,
+    fontWeight: '800',
+    color: theme.colors.text,
+  },
+  card: {
+    marginHorizontal: 12,
+    marginBottom: 10,
+  },
+  cardTitle: {
+    fontSize: 17,
+    fontWeight: '700',
+    color: theme.colors.text,
+    marginBottom: 12,
+  },
+  cardTitleRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginBottom: 6,
+  },
+  cardTitleNoMargin: {
+    fontSize: 17,
+    fontWeight: '700',
+    color: theme.colors.text,
+  },
+  cardDescription: {
+    fontSize: 14,
+    color: theme.colors.textMuted,
+    lineHeight: 20,
+    marginBottom: 14,
+  },
+  settingRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingVertical: 10,
+    borderBottomWidth: 1,
+    borderBottomColor: theme.colors.borderLight,
+  },
+  settingRowLast: {
+    borderBottomWidth: 0,
+  },
+  settingLabel: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: theme.colors.textSecondary,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 14,
+  },
+  chip: {
+    paddingVertical: 8,
+    paddingHorizontal: 14,
+    borderRadius: 20,
+    borderWidth: 1,
+    borderColor: theme.colors.border,
+    backgroundColor: theme.colors.surfaceVariant,
+  },
+  chipActive: {
+    backgroundColor: theme.colors.primary,
+    borderColor: theme.colors.primary,
+  },
+  chipText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: theme.colors.textSecondary,
+  },
+  chipTextActive: {
+    color: '#FFFFFF',
+  },
+  chipRowScroll: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  taxCategory: {
+    marginBottom: 12,
+  },
+  fieldRow: {
+    flexDirection: 'row',
+    gap: 12,
+    marginBottom: 12,
+  },
+  field: {
+    flex: 1,
+  },
+  tareFieldRow: {
+    marginTop: 12,
+  },
+  fieldLabel: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: theme.colors.textSecondary,
+    marginBottom: 6,
+  },
+  fieldInput: {
+    backgroundColor: theme.colors.surfaceVariant,
+    borderRadius: 12,
+    padding: 12,
+    fontSize: 16,
+    color: theme.colors.text,
+    borderWidth: 1,
+    borderColor: theme.colors.border,
+  },
+  buttonRow: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  actionButton: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+    padding: 14,
+    borderRadius: 12,
+    borderWidth: 1.5,
+    borderColor: theme.colors.primary,
+  },
+  actionButtonText: {
+    fontSize: 15,
+    fontWeight: '700',
+    color: theme.colors.primary,
+  },
+  button: {
+    flex: 1,
+    borderRadius: 12,
+    overflow: 'hidden',
+  },
+  buttonDisabled: {
+    opacity: 0.6,
+  },
+  cancelButton: {
+    backgroundColor: theme.colors.surfaceVariant,
+    borderWidth: 1,
+    borderColor: theme.colors.border,
+    padding: 16,
+    alignItems: 'center',
+  },
+  cancelButtonText: {
+    color: theme.colors.textMuted,
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  applyButtonGradient: {
+    padding: 16,
+    alignItems: 'center',
+  },
+  applyButtonText: {
+    color: '#FFFFFF',
+    fontSize: 16,
+    fontWeight: '700',
+  },
+  previewContainer: {
+    marginTop: 16,
+    paddingTop: 16,
+    borderTopWidth: 1,
+    borderTopColor: theme.colors.borderLight,
+  },
+  previewTitle: {
+    fontSize: 15,
+    fontWeight: '700',
+    color: theme.colors.text,
+    marginBottom: 4,
+  },
+  previewMeta: {
+    fontSize: 13,
+    color: theme.colors.textMuted,
+    marginBottom: 12,
+  },
+  modeToggleRow: {
+    flexDirection: 'row',
+    backgroundColor: theme.colors.surfaceVariant,
+    borderRadius: 12,
+    padding: 3,
+    marginBottom: 8,
+    gap: 3,
+  },
+  modeToggleButton: {
+    flex: 1,
+    alignItems: 'center',
+    paddingVertical: 10,
+    borderRadius: 9,
+  },
+  modeToggleButtonActive: {
+    backgroundColor: theme.colors.primary,
+  },
+  modeToggleText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: theme.colors.textMuted,
+  },
+  modeToggleTextActive: {
+    color: '#FFF',
+    fontWeight: '700',
+  },
+  modeHint: {
+    fontSize: 13,
+    color: theme.colors.textMuted,
+    marginBottom: 12,
+  },
+  summaryList: {
+    backgroundColor: theme.colors.surfaceVariant,
+    borderRadius: 12,
+    padding: 12,
+    marginBottom: 14,
+    gap: 4,
+  },
+  summaryLine: {
+    fontSize: 14,
+    color: theme.colors.textSecondary,
+  },
+  bottomPadding: {
+    height: 40,
+  },
+});
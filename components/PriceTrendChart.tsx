@@ -0,0 +1,126 @@
+import React, { useState } from 'react';
+import { View, Text, StyleSheet, LayoutChangeEvent } from 'react-native';
+import Svg, { Path, Circle, Line } from 'react-native-svg';
+import { useTheme } from '@/contexts/ThemeContext';
+
+export interface TrendPoint {
+    timestamp: number;
+    value: number;
+}
+
+interface PriceTrendChartProps {
+    points: TrendPoint[];
+    height?: number;
+    formatValue?: (value: number) => string;
+}
+
+const PADDING = 10;
+
+/**
+ * Step chart of a price over time. A price holds until the next change,
+ * so each segment is drawn flat and then steps to the new value.
+ */
+export const PriceTrendChart: React.FC<PriceTrendChartProps> = ({
+    points,
+    height = 140,
+    formatValue = value => value.toFixed(2),
+}) => {
+    const { theme } = useTheme();
+    const [width, setWidth] = useState(0);
+
+    const handleLayout = (event: LayoutChangeEvent) => {
+        setWidth(event.nativeEvent.layout.width);
+    };
+
+    const values = points.map(point => point.value);
+    const min = Math.min(...values);
+    const max = Math.max(...values);
+    const start = points[0]?.timestamp ?? 0;
+    const end = points[points.length - 1]?.timestamp ?? 0;
+
+    // Flat series still get a visible line through the middle
+    const valueRange = max - min || 1;
+    const timeRange = end - start || 1;
+
+    const x = (timestamp: number) => PADDING + ((timestamp - start) / timeRange) * (width - PADDING * 2);
+    const y = (value: number) =>
+        max === min
+            ? height / 2
+            : PADDING + (1 - (value - min) / valueRange) * (height - PADDING * 2);
+
+    const path = points
+        .map((point, index) => {
+            if (index === 0) return `M ${x(point.timestamp)} ${y(point.value)}`;
+            const previous = points[index - 1];
+            return `L ${x(point.timestamp)} ${y(previous.value)} L ${x(point.timestamp)} ${y(point.value)}`;
+        })
+        .join(' ');
+
+    return (
+        <View>
+            <View style={[styles.chart, { height }]} onLayout={handleLayout}>
+                {width > 0 && points.length > 1 && (
+                    <Svg width={width} height={height}>
+                        <Line
+                            x1={PADDING}
+                            x2={width - PADDING}
+                            y1={y(min)}
+                            y2={y(min)}
+                            stroke={theme.colors.borderLight}
+                            strokeWidth={1}
+                        />
+                        <Line
+                            x1={PADDING}
+                            x2={width - PADDING}
+                            y1={y(max)}
+                            y2={y(max)}
+                            stroke={theme.colors.borderLight}
+                            strokeWidth={1}
+                        />
+                        <Path
+                            d={path}
+                            stroke={theme.colors.primary}
+                            strokeWidth={2.5}
+                            strokeLinejoin="round"
+                            fill="none"
+                        />
+                        {points.map((point, index) => (
+                            <Circle
+                                key={index}
+                                cx={x(point.timestamp)}
+                                cy={y(point.value)}
+                                r={3.5}
+                                fill={theme.colors.primary}
+                            />
+                        ))}
+                    </Svg>
+                )}
+            </View>
+            <View style={styles.legend}>
+                <Text style={[styles.legendText, { color: theme.colors.textMuted }]}>
+                    ↓ {formatValue(min)}
+                </Text>
+                <Text style={[styles.legendText, { color: theme.colors.textMuted }]}>
+                    ↑ {formatValue(max)}
+                </Text>
+            </View>
+        </View>
+    );
+};
+
+const styles = StyleSheet.create({
+    chart: {
+        width: '100%',
+    },
+    legend: {
+        flexDirection: 'row',
+        justifyContent: 'space-between',
+        marginTop: 6,
+    },
+    legendText: {
+        fontSize: 12,
+        fontWeight: '600',
+    },
+});
+
+export default PriceTrendChart;
@@ -0,0 +1,49 @@
+import React from 'react';
+import { TouchableOpacity, StyleSheet } from 'react-native';
+import { useRouter } from 'expo-router';
+import { Settings } from 'lucide-react-native';
+import { useTheme } from '@/contexts/ThemeContext';
+import { useHaptics } from '@/hooks/useHaptics';
+
+/**
+ * Header button that opens the settings screen
+ */
+export const SettingsButton = () => {
+    const { theme } = useTheme();
+    const { impact } = useHaptics();
+    const router = useRouter();
+
+    const handlePress = () => {
+        impact('light');
+        router.push('/settings');
+    };
+
+    return (
+        <TouchableOpacity
+            onPress={handlePress}
+            activeOpacity={0.8}
+            style={[
+                styles.button,
+                {
+                    backgroundColor: theme.colors.surfaceVariant,
+                    borderColor: theme.colors.border,
+                },
+            ]}
+        >
+            <Settings size={20} color={theme.colors.textSecondary} />
+        </TouchableOpacity>
+    );
+};
+
+const styles = StyleSheet.create({
+    button: {
+        width: 44,
+        height: 44,
+        borderRadius: 14,
+        borderWidth: 1,
+        alignItems: 'center',
+        justifyContent: 'center',
+    },
+});
+
+export default SettingsButton;
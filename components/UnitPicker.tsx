@@ -0,0 +1,92 @@
+import React from 'react';
+import { Text, ScrollView, TouchableOpacity, StyleSheet } from 'react-native';
+import { useTranslation } from 'react-i18next';
+import { useTheme } from '@/contexts/ThemeContext';
+import { useHaptics } from '@/hooks/useHaptics';
+import { Unit, UNITS } from '@/types';
+
+interface UnitPickerProps {
+    selectedUnit: Unit;
+    onSelectUnit: (unit: Unit) => void;
+    units?: Unit[];
+}
+
+/**
+ * Pill-style picker for the unit an item is sold in
+ */
+export const UnitPicker: React.FC<UnitPickerProps> = ({
+    selectedUnit,
+    onSelectUnit,
+    units = UNITS.map(u => u.id),
+}) => {
+    const { theme } = useTheme();
+    const { selection } = useHaptics();
+    const { t } = useTranslation();
+
+    const handleSelect = (unit: Unit) => {
+        selection();
+        onSelectUnit(unit);
+    };
+
+    return (
+        <ScrollView
+            horizontal
+            showsHorizontalScrollIndicator={false}
+            contentContainerStyle={styles.scrollContent}
+        >
+            {units.map((unit) => {
+                const isSelected = selectedUnit === unit;
+
+                return (
+                    <TouchableOpacity
+                        key={unit}
+                        style={[
+                            styles.pill,
+                            {
+                                backgroundColor: isSelected
+                                    ? theme.colors.primary
+                                    : theme.isDark
+                                        ? 'rgba(255, 255, 255, 0.1)'
+                                        : 'rgba(0, 0, 0, 0.05)',
+                                borderColor: isSelected
+                                    ? theme.colors.primary
+                                    : theme.colors.border,
+                            },
+                        ]}
+                        onPress={() => handleSelect(unit)}
+                        activeOpacity={0.7}
+                    >
+                        <Text
+                            style={[
+                                styles.label,
+                                { color: isSelected ? '#FFFFFF' : theme.colors.textSecondary },
+                            ]}
+                        >
+                            {t(`units.name.${unit}`)}
+                        </Text>
+                    </TouchableOpacity>
+                );
+            })}
+        </ScrollView>
+    );
+};
+
+const styles = StyleSheet.create({
+    scrollContent: {
+        paddingHorizontal: 4,
+        gap: 8,
+        flexDirection: 'row',
+    },
+    pill: {
+        paddingVertical: 10,
+        paddingHorizontal: 16,
+        borderRadius: 20,
+        borderWidth: 1,
+    },
+    label: {
+        fontSize: 14,
+        fontWeight: '600',
+    },
+});
+
+export default UnitPicker;
@@ -0,0 +1,51 @@
+import React, { createContext, useContext, useRef, useState } from 'react';
+import type { BillLine } from '@/types';
+
+interface BillContextType {
+  lines: BillLine[];
+  addLine: (line: Omit<BillLine, 'id'>) => void;
+  updateLine: (id: string, line: Omit<BillLine, 'id'>) => void;
+  removeLine: (id: string) => void;
+  clearBill: () => void;
+}
+
+const BillContext = createContext<BillContextType | undefined>(undefined);
+
+// The bill being built at the counter. It lives in memory until checkout
+// saves it (see checkoutBill in utils/storage.ts).
+export function BillProvider({ children }: { children: React.ReactNode }) {
+  const [lines, setLines] = useState<BillLine[]>([]);
+  const nextId = useRef(0);
+
+  const addLine = (line: Omit<BillLine, 'id'>) => {
+    nextId.current += 1;
+    const id = nextId.current.toString();
+    setLines(prev => [...prev, { ...line, id }]);
+  };
+
+  const updateLine = (id: string, line: Omit<BillLine, 'id'>) => {
+    setLines(prev => prev.map(existing => (existing.id === id ? { ...line, id } : existing)));
+  };
+
+  const removeLine = (id: string) => {
+    setLines(prev => prev.filter(line => line.id !== id));
+  };
+
+  const clearBill = () => {
+    setLines([]);
+  };
+
+  return (
+    <BillContext.Provider value={{ lines, addLine, updateLine, removeLine, clearBill }}>
+      {children}
+    </BillContext.Provider>
+  );
+}
+
+export function useBill() {
+  const context = useContext(BillContext);
+  if (context === undefined) {
+    throw new Error('useBill must be used within a BillProvider');
+  }
+  return context;
+}
@@ -0,0 +1,81 @@
+import React, { createContext, useContext, useState, useEffect } from 'react';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import type { AppSettings } from '@/types';
+import { DEFAULT_CURRENCY, isCurrencySettings } from '@/utils/currency';
+import { DEFAULT_ROUNDING, isRoundingSettings } from '@/utils/rounding';
+import { isCategoryTaxRates } from '@/utils/tax';
+import { isTarePresets } from '@/utils/tare';
+
+interface SettingsContextType {
+  settings: AppSettings;
+  updateSettings: (updates: Partial<AppSettings>) => Promise<void>;
+}
+
+export const DEFAULT_SETTINGS: AppSettings = {
+  currency: DEFAULT_CURRENCY,
+  rounding: DEFAULT_ROUNDING,
+  categoryTaxRates: {},
+  tarePresets: [],
+  shopName: '',
+};
+
+const SettingsContext = createContext<SettingsContextType | undefined>(undefined);
+
+const SETTINGS_STORAGE_KEY = '@price_calculator_settings';
+
+// Fall back to defaults field by field so a bad value can't lose the rest
+const parseSettings = (json: string): AppSettings => {
+  const stored = JSON.parse(json) ?? {};
+  return {
+    currency: isCurrencySettings(stored.currency) ? stored.currency : DEFAULT_SETTINGS.currency,
+    rounding: isRoundingSettings(stored.rounding) ? stored.rounding : DEFAULT_SETTINGS.rounding,
+    categoryTaxRates: isCategoryTaxRates(stored.categoryTaxRates)
+      ? stored.categoryTaxRates
+      : DEFAULT_SETTINGS.categoryTaxRates,
+    tarePresets: isTarePresets(stored.tarePresets) ? stored.tarePresets : DEFAULT_SETTINGS.tarePresets,
+    shopName: typeof stored.shopName === 'string' ? stored.shopName : DEFAULT_SETTINGS.shopName,
+  };
+};
+
+export function SettingsProvider({ children }: { children: React.ReactNode }) {
+  const [settings, setSettings] = useState<AppSettings>(DEFAULT_SETTINGS);
+
+  useEffect(() => {
+    loadSettings();
+  }, []);
+
+  const loadSettings = async () => {
+    try {
+      const savedSettings = await AsyncStorage.getItem(SETTINGS_STORAGE_KEY);
+      if (savedSettings !== null) {
+        setSettings(parseSettings(savedSettings));
+      }
+    } catch (error) {
+      console.error('Error loading settings:', error);
+    }
+  };
+
+  const updateSettings = async (updates: Partial<AppSettings>) => {
+    try {
+      const newSettings = { ...settings, ...updates };
+      setSettings(newSettings);
+      await AsyncStorage.setItem(SETTINGS_STORAGE_KEY, JSON.stringify(newSettings));
+    } catch (error) {
+      console.error('Error saving settings:', error);
+    }
+  };
+
+  return (
+    <SettingsContext.Provider value={{ settings, updateSettings }}>
+      {children}
+    </SettingsContext.Provider>
+  );
+}
+
+export function useSettings() {
+  const context = useContext(SettingsContext);
+  if (context === undefined) {
+    throw new Error('useSettings must be used within a SettingsProvider');
+  }
+  return context;
+}
@@ -235,6 +235,7 @@ const darkTheme: Theme = {
 interface ThemeContextType {
   theme: Theme;
   toggleTheme: () => void;
+  setDarkMode: (isDark: boolean) => Promise<void>;
   isDark: boolean;
 }
 
@@ -270,10 +271,19 @@ export function ThemeProvider({ children }: { children: React.ReactNode }) {
     }
   };
 
+  const setDarkMode = async (dark: boolean) => {
+    try {
+      setIsDark(dark);
+      await AsyncStorage.setItem(THEME_STORAGE_KEY, JSON.stringify(dark));
+    } catch (error) {
+      console.error('Error saving theme:', error);
+    }
+  };
+
   const theme = isDark ? darkTheme : lightTheme;
 
   return (
-    <ThemeContext.Provider value={{ theme, toggleTheme, isDark }}>
+    <ThemeContext.Provider value={{ theme, toggleTheme, setDarkMode, isDark }}>
       {children}
     </ThemeContext.Provider>
   );
@@ -0,0 +1,16 @@
+import { useTranslation } from 'react-i18next';
+import { useSettings } from '@/contexts/SettingsContext';
+import { formatMoney } from '@/utils/currency';
+
+/**
+ * Money formatting for the configured currency and the active language
+ */
+export const useCurrency = () => {
+    const { settings } = useSettings();
+    const { i18n } = useTranslation();
+    const { currency } = settings;
+
+    const formatCurrency = (amount: number) => formatMoney(amount, currency, i18n.language);
+
+    return { currency, formatCurrency };
+};
@@ -0,0 +1,4 @@
+// Native modules have no implementation under Jest
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
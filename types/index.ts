@@ -24,25 +24,194 @@ export const getCategoryLabel = (category: Category): string => {
   return CATEGORIES.find(c => c.id === category)?.label || 'Other';
 };
 
+// Units an item can be sold in. Units of the same dimension convert into
+// each other through `toBase` (grams, millilitres or pieces).
+export type Unit =
+  | 'g'
+  | 'kg'
+  | 'quintal'
+  | 'ml'
+  | 'l'
+  | 'piece'
+  | 'dozen'
+  | 'packet';
+
+export type UnitDimension = 'mass' | 'volume' | 'count' | 'pack';
+
+export const UNITS: { id: Unit; dimension: UnitDimension; toBase: number }[] = [
+  { id: 'g', dimension: 'mass', toBase: 1 },
+  { id: 'kg', dimension: 'mass', toBase: 1000 },
+  { id: 'quintal', dimension: 'mass', toBase: 100000 },
+  { id: 'ml', dimension: 'volume', toBase: 1 },
+  { id: 'l', dimension: 'volume', toBase: 1000 },
+  { id: 'piece', dimension: 'count', toBase: 1 },
+  { id: 'dozen', dimension: 'count', toBase: 12 },
+  // Packet sizes differ per item, so packets don't convert to anything
+  { id: 'packet', dimension: 'pack', toBase: 1 },
+];
+
+// Supplier quote such as "₹120 for a 500 g pack". `size` is in `unit`,
+// which must convert to the item's unit.
+export interface PackQuote {
+  price: number;
+  size: number;
+  unit: Unit;
+}
+
+// Wholesale price break: from `minQuantity` (in the item's unit) the whole
+// quantity is charged at `price` per unit
+export interface PriceTier {
+  minQuantity: number;
+  price: number;
+}
+
 // Enhanced Item interface
 export interface Item {
   id: string;
   name: string;
-  pricePerKg: number;
+  pricePerKg: number; // price per `unit` (kept as pricePerKg for stored data)
+  unit: Unit;
+  packQuote?: PackQuote; // the quote pricePerKg was derived from, if any
+  priceTiers?: PriceTier[]; // cheaper rates for larger quantities, ascending
+  costPrice?: number; // what the shop pays per `unit`
+  yieldPercent?: number; // usable share after cleaning or processing
   isFavorite: boolean;
   category: Category;
+  taxRate?: number; // GST %, overrides the category rate
+  taxInclusive?: boolean; // whether pricePerKg already includes tax (default true)
   lastUsed?: number; // timestamp
+  usageCount?: number; // times picked in the calculator
 }
 
+// price: quantity → amount, weight: amount → quantity,
+// rate: amount and quantity → price per unit
+export type CalculationMode = 'price' | 'weight' | 'rate';
+
 // Calculation history entry
 export interface Calculation {
   id: string;
   itemId: string;
   itemName: string;
-  mode: 'price' | 'weight';
+  mode: CalculationMode;
   input: number;
   result: number;
-  perKgPrice: number;
+  perKgPrice: number; // item price per `unit` at the time
+  unit: Unit; // unit of the quantity (input in price mode, result in weight mode)
+  quantity?: number; // rate mode: the quantity the amount paid for
+  tare?: TareDeduction; // container weighed along with the goods
+  yieldPercent?: number; // set when quantities are cleaned weights
+  timestamp: number;
+}
+
+// Named container weight such as "steel dabba 180 g"
+export interface TarePreset {
+  id: string;
+  name: string;
+  grams: number;
+}
+
+// Tare taken off a calculation; `quantity` is in the calculation's unit.
+// In price mode `input` is the gross weight; in weight mode `result` is net.
+export interface TareDeduction {
+  name: string;
+  quantity: number;
+}
+
+// Screen or process that changed an item's price
+export type PriceChangeSource = 'calculator' | 'items' | 'itemDetail' | 'import';
+
+// One entry in an item's price change log
+export interface PriceChange {
+  id: string;
+  itemId: string;
+  oldPrice: number;
+  newPrice: number;
+  source: PriceChangeSource;
+  timestamp: number;
+}
+
+// How money is written: "₹1,00,000.00", "100,000.00 €", ...
+export type CurrencySymbolPosition = 'before' | 'after';
+export type DigitGrouping = 'indian' | 'international'; // 1,00,000 vs 100,000
+
+export interface CurrencySettings {
+  symbol: string;
+  code: string; // ISO 4217, e.g. INR
+  decimals: number;
+  symbolPosition: CurrencySymbolPosition;
+  grouping: DigitGrouping;
+}
+
+export type RoundingMode = 'nearest' | 'up' | 'down';
+
+// Cash and scale rounding. A step of 0 leaves values exact.
+export interface RoundingSettings {
+  moneyStep: number; // in paise, e.g. 50 for ₹0.50
+  moneyMode: RoundingMode;
+  weightStep: number; // in grams, for quantities sold by weight
+  weightMode: RoundingMode;
+}
+
+// Offer rules such as "10% off vegetables" or "₹5 off per kg above 5 kg"
+export type DiscountKind = 'percent' | 'flat';
+export type DiscountScope = 'item' | 'category' | 'bill';
+
+export interface Discount {
+  id: string;
+  name: string;
+  kind: DiscountKind;
+  value: number; // percent, or an amount of money
+  scope: DiscountScope;
+  itemId?: string; // scope 'item'
+  category?: Category; // scope 'category'
+  perUnit?: boolean; // flat amount per unit bought rather than per line
+  minQuantity?: number; // in the item's unit; applies at or above
+  startDate?: string; // YYYY-MM-DD, inclusive
+  endDate?: string; // YYYY-MM-DD, inclusive
+  weekdays?: number[]; // 0 = Sunday; empty or missing means every day
+  isActive: boolean;
+}
+
+// GST % per category; categories without an entry are untaxed
+export type CategoryTaxRates = Partial<Record<Category, number>>;
+
+// User preferences kept by SettingsContext
+export interface AppSettings {
+  currency: CurrencySettings;
+  rounding: RoundingSettings;
+  categoryTaxRates: CategoryTaxRates;
+  tarePresets: TarePreset[];
+  shopName: string; // printed at the top of receipts
+}
+
+// App preferences carried along in a backup
+export interface ExportPreferences {
+  isDarkMode: boolean;
+  language: string;
+}
+
+// One line of a bill: an item, how much of it, and what it came to
+export interface BillLine {
+  id: string;
+  itemId: string;
+  itemName: string;
+  mode: 'price' | 'weight'; // entered as a quantity or as an amount
+  quantity: number; // in `unit`
+  unit: Unit;
+  price: number; // per `unit` charged, after any bulk rate
+  discount: number; // item and category offers taken off
+  taxRate: number; // GST %
+  tax: number; // GST within `amount`
+  amount: number; // what the customer pays for the line
+}
+
+export interface Bill {
+  id: string;
+  lines: BillLine[];
+  subtotal: number; // sum of the line amounts
+  billDiscount?: { name: string; amount: number }; // bill offer off the subtotal
+  roundOff?: number; // cash rounding added to the total, may be negative
+  total: number;
   timestamp: number;
 }
 
@@ -50,6 +219,13 @@ export interface Calculation {
 export interface ExportData {
   version: string;
   exportedAt: string;
+  schemaVersion: number;
   items: Item[];
   calculations: Calculation[];
+  recentItems: string[];
+  priceHistory: PriceChange[];
+  discounts: Discount[];
+  bills: Bill[];
+  preferences: ExportPreferences;
+  settings?: AppSettings; // missing from backups made before 1.3
 }
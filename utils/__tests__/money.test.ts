@@ -0,0 +1,89 @@
+import {
+  calculateCost,
+  calculateQuantity,
+  calculateRate,
+  divideRounded,
+  roundToStep,
+  sumMoney,
+  toMilliPaise,
+  toMilliUnits,
+  toPaise,
+} from '@/utils/money';
+
+describe('money arithmetic', () => {
+  it('keeps unit prices below a paisa exact', () => {
+    // ₹65 a litre sold by the ml
+    expect(calculateCost(0.065, 1000)).toBe(65);
+    expect(calculateQuantity(65, 0.065)).toBe(1000);
+    // ₹45 a kg sold by the gram
+    expect(calculateCost(0.045, 1000)).toBe(45);
+  });
+
+  it('rounds half a paisa up', () => {
+    expect(toPaise(1.005)).toBe(101);
+    expect(calculateCost(1.005, 1)).toBe(1.01);
+  });
+
+  it('multiplies without floating point artifacts', () => {
+    expect(calculateCost(0.1, 45.8)).toBe(4.58);
+    expect(calculateCost(45.8, 0.1)).toBe(4.58);
+  });
+
+  it('works out the rate paid', () => {
+    expect(calculateRate(65, 1000)).toBe(0.065);
+    expect(calculateRate(100, 3)).toBe(33.33333);
+  });
+
+  it('rounds negative amounts the same way as positive ones', () => {
+    expect(toPaise(-1.005)).toBe(-101);
+    expect(calculateCost(-0.1, 45.8)).toBe(-4.58);
+    expect(calculateQuantity(-65, 0.065)).toBe(-1000);
+    expect(sumMoney([100, -0.1, -0.2])).toBe(99.7);
+    // No negative zero, which would format as "-₹0.00"
+    expect(toPaise(-0.001)).toBe(0);
+  });
+
+  it('scales inputs written with an exponent', () => {
+    // String(1e-7) is "1e-7", which can't simply have digits appended
+    expect(toMilliUnits(1e-7)).toBe(0);
+    expect(toMilliUnits(1e-7, 'up')).toBe(1);
+    expect(toMilliUnits(-1e-7, 'down')).toBe(-1);
+    expect(toMilliPaise(2.5e-7)).toBe(0);
+    expect(toPaise(1.5e-5, 'up')).toBe(1);
+    expect(calculateCost(1e-7, 1000)).toBe(0);
+  });
+
+  it('rounds quotients up, down or to the nearest', () => {
+    expect(divideRounded(7, 2)).toBe(4);
+    expect(divideRounded(7, 2, 'up')).toBe(4);
+    expect(divideRounded(7, 2, 'down')).toBe(3);
+    expect(divideRounded(6, 2, 'up')).toBe(3);
+    expect(divideRounded(6, 2, 'down')).toBe(3);
+    expect(divideRounded(-7, 2)).toBe(-4);
+    expect(divideRounded(-7, 2, 'up')).toBe(-3);
+    expect(divideRounded(-7, 2, 'down')).toBe(-4);
+  });
+
+  it('stays exact up to the largest safe integer', () => {
+    // Paise at the top of the safe integer range
+    expect(toPaise(90071992547409.5)).toBe(9007199254740950);
+    expect(toPaise(-90071992547409.5)).toBe(-9007199254740950);
+    // 900719925 milli-paise × 10000000 grams is just under the limit
+    expect(calculateCost(9007.19925, 10000)).toBe(90071992.5);
+    expect(calculateQuantity(90071992.5, 9007.19925)).toBe(10000);
+  });
+
+  it('rounds integers to a step', () => {
+    expect(roundToStep(4730, 50)).toBe(4750);
+    expect(roundToStep(4720, 50)).toBe(4700);
+    expect(roundToStep(4701, 50, 'up')).toBe(4750);
+    expect(roundToStep(4749, 50, 'down')).toBe(4700);
+    expect(roundToStep(4733, 0)).toBe(4733);
+  });
+
+  it('refuses to divide by zero', () => {
+    expect(() => divideRounded(100, 0)).toThrow(RangeError);
+    expect(() => calculateQuantity(100, 0)).toThrow(RangeError);
+    expect(() => calculateRate(100, 0)).toThrow(RangeError);
+  });
+});
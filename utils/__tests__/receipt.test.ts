@@ -0,0 +1,76 @@
+import type { Bill } from '@/types';
+import { lineTaxesAfterOffer } from '@/utils/bill';
+import { DEFAULT_CURRENCY } from '@/utils/currency';
+import { buildReceipt, formatReceiptHtml, formatReceiptText, type Translate } from '@/utils/receipt';
+
+// Shows the key and its values, so snapshots catch what is passed to i18n
+const t: Translate = (key, options) => (options ? `${key} ${JSON.stringify(options)}` : key);
+
+const bill: Bill = {
+  id: '1767000000123456',
+  lines: [
+    {
+      id: 'l1',
+      itemId: '1',
+      itemName: 'Rice',
+      mode: 'price',
+      quantity: 8,
+      unit: 'kg',
+      price: 50,
+      discount: 0,
+      taxRate: 5,
+      tax: 19.05,
+      amount: 400,
+    },
+    {
+      id: 'l2',
+      itemId: '2',
+      itemName: 'Onion',
+      mode: 'weight',
+      quantity: 2.5,
+      unit: 'kg',
+      price: 40,
+      discount: 0,
+      taxRate: 0,
+      tax: 0,
+      amount: 100,
+    },
+    {
+      id: 'l3',
+      itemId: '3',
+      itemName: 'Mustard oil <1 l>',
+      mode: 'price',
+      quantity: 1,
+      unit: 'l',
+      price: 180,
+      discount: 20,
+      taxRate: 18,
+      tax: 24.41,
+      amount: 160,
+    },
+  ],
+  subtotal: 660,
+  billDiscount: { name: 'Festival 10%', amount: 56 },
+  roundOff: 1,
+  total: 605,
+  // Local time, so the printed date doesn't depend on the time zone
+  timestamp: new Date(2026, 0, 15, 10, 30).getTime(),
+};
+
+const receiptFor = (language: string) =>
+  buildReceipt(bill, { shopName: 'Maa Tarini Stores', currency: DEFAULT_CURRENCY, language, t });
+
+describe('receipts', () => {
+  it('takes the bill offer off GST on the lines it came off', () => {
+    // ₹400 at 5% less its ₹40 share of the offer is ₹360, which holds ₹17.14
+    expect(lineTaxesAfterOffer(bill.lines, bill.billDiscount)).toEqual([17.14, 0, 21.97]);
+  });
+
+  it.each(['en', 'or'])('formats a text receipt in %s', language => {
+    expect(formatReceiptText(receiptFor(language), t)).toMatchSnapshot();
+  });
+
+  it.each(['en', 'or'])('formats an HTML receipt in %s', language => {
+    expect(formatReceiptHtml(receiptFor(language), t, language)).toMatchSnapshot();
+  });
+});
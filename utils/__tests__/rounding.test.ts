@@ -0,0 +1,38 @@
+import type { RoundingSettings } from '@/types';
+import { DEFAULT_ROUNDING, roundAmount, roundQuantityToScale } from '@/utils/rounding';
+
+const rounding = (updates: Partial<RoundingSettings>): RoundingSettings => ({ ...DEFAULT_ROUNDING, ...updates });
+
+describe('cash rounding', () => {
+  it('rounds to the nearest step', () => {
+    const halfRupee = rounding({ moneyStep: 50, moneyMode: 'nearest' });
+    expect(roundAmount(47.3, halfRupee)).toBe(47.5);
+    expect(roundAmount(47.2, halfRupee)).toBe(47);
+    expect(roundAmount(47.25, halfRupee)).toBe(47.5);
+    expect(roundAmount(-47.3, halfRupee)).toBe(-47.5);
+  });
+
+  it('rounds up or down to a step', () => {
+    expect(roundAmount(47.01, rounding({ moneyStep: 50, moneyMode: 'up' }))).toBe(47.5);
+    expect(roundAmount(47.49, rounding({ moneyStep: 50, moneyMode: 'down' }))).toBe(47);
+    expect(roundAmount(47.5, rounding({ moneyStep: 500, moneyMode: 'nearest' }))).toBe(50);
+    expect(roundAmount(51, rounding({ moneyStep: 100, moneyMode: 'up' }))).toBe(51);
+  });
+
+  it('leaves amounts alone without a step', () => {
+    expect(roundAmount(47.33, rounding({ moneyStep: 0 }))).toBe(47.33);
+  });
+});
+
+describe('scale rounding', () => {
+  it('rounds weights to what the scale can weigh', () => {
+    expect(roundQuantityToScale(1.2345, 'kg', rounding({ weightStep: 5, weightMode: 'down' }))).toBe(1.23);
+    expect(roundQuantityToScale(1234.5, 'g', rounding({ weightStep: 10, weightMode: 'nearest' }))).toBe(1230);
+    expect(roundQuantityToScale(0.7501, 'kg', rounding({ weightStep: 50, weightMode: 'up' }))).toBe(0.8);
+  });
+
+  it('leaves other units and a zero step alone', () => {
+    expect(roundQuantityToScale(1.234, 'l', rounding({ weightStep: 10 }))).toBe(1.234);
+    expect(roundQuantityToScale(1.2345, 'kg', rounding({ weightStep: 0 }))).toBe(1.2345);
+  });
+});
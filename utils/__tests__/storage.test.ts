@@ -0,0 +1,95 @@
+import type { BillLine } from '@/types';
+import {
+  addItem,
+  addRecentItem,
+  checkoutBill,
+  getBills,
+  getCalculations,
+  getItem,
+  getItems,
+  getPriceHistory,
+  toggleFavorite,
+  updateItem,
+} from '@/utils/storage';
+import { createMemoryBackend, setStorageBackend } from '@/utils/repositories';
+
+const ROUNDS = 20;
+
+describe('storage write queue', () => {
+  beforeEach(async () => {
+    setStorageBackend(createMemoryBackend());
+    await getItems(); // seed the default catalog
+  });
+
+  it('keeps every change made by interleaved calls', async () => {
+    const before = await getItem('1');
+
+    await Promise.all(
+      Array.from({ length: ROUNDS }, (_, round) => [
+        toggleFavorite('1'),
+        updateItem('2', { pricePerKg: 50 + round }),
+        addItem(`Item ${round}`, 10 + round),
+        addRecentItem('3'),
+      ]).flat()
+    );
+
+    const items = await getItems();
+    expect(items).toHaveLength(6 + ROUNDS);
+    expect(items.filter(item => item.name.startsWith('Item '))).toHaveLength(ROUNDS);
+
+    // An even number of toggles ends where it started
+    expect((await getItem('1'))?.isFavorite).toBe(before?.isFavorite);
+    expect((await getItem('2'))?.pricePerKg).toBe(50 + ROUNDS - 1);
+    expect(await getPriceHistory('2')).toHaveLength(ROUNDS);
+    expect((await getItem('3'))?.usageCount).toBe(ROUNDS);
+  });
+
+  it('keeps an odd number of favorite toggles', async () => {
+    const before = await getItem('4');
+
+    await Promise.all([toggleFavorite('4'), toggleFavorite('4'), toggleFavorite('4')]);
+
+    expect((await getItem('4'))?.isFavorite).toBe(!before?.isFavorite);
+  });
+});
+
+describe('checkoutBill', () => {
+  const line = (id: string, amount: number): BillLine => ({
+    id,
+    itemId: '1',
+    itemName: 'Rice',
+    mode: 'price',
+    quantity: amount / 50,
+    unit: 'kg',
+    price: 50,
+    discount: 0,
+    taxRate: 0,
+    tax: 0,
+    amount,
+  });
+  const bill = { lines: [line('a', 100), line('b', 50)], subtotal: 150, total: 150 };
+
+  it('saves the bill and every line in history', async () => {
+    const backend = createMemoryBackend();
+    setStorageBackend(backend);
+
+    const saved = await checkoutBill(bill);
+
+    expect(await getBills()).toEqual([saved]);
+    expect((await getCalculations()).map(calculation => calculation.result)).toEqual([50, 100]);
+  });
+
+  it('rejects and keeps nothing when the history write fails', async () => {
+    const backend = createMemoryBackend();
+    setStorageBackend(backend);
+    const replaceAll = backend.calculations.replaceAll;
+    backend.calculations.replaceAll = jest.fn()
+      .mockRejectedValueOnce(new Error('disk full'))
+      .mockImplementation(replaceAll);
+
+    await expect(checkoutBill(bill)).rejects.toThrow('disk full');
+
+    expect(await getBills()).toEqual([]);
+    expect(await getCalculations()).toEqual([]);
+  });
+});
@@ -0,0 +1,509 @@
+import {
+  getItems,
+  getCalculations,
+  getRecentItems,
+  getAllPriceHistory,
+  getDiscounts,
+  getBills,
+  replaceStoredData,
+  MAX_CALCULATIONS,
+  MAX_RECENT_ITEMS,
+  MAX_BILLS,
+} from '@/utils/storage';
+import { CURRENT_SCHEMA_VERSION, migrateSnapshot } from '@/utils/migrations';
+import { isUnit } from '@/utils/units';
+import { isCategoryTaxRates, isValidTaxRate } from '@/utils/tax';
+import { isValidYield } from '@/utils/yield';
+import { isCurrencySettings } from '@/utils/currency';
+import { isRoundingSettings } from '@/utils/rounding';
+import { isTarePresets } from '@/utils/tare';
+import { DISCOUNT_KINDS, DISCOUNT_SCOPES, isDateKey } from '@/utils/discounts';
+import {
+  CATEGORIES,
+  type AppSettings,
+  type Bill,
+  type BillLine,
+  type Item,
+  type Calculation,
+  type Discount,
+  type PriceChange,
+  type ExportData,
+  type ExportPreferences,
+} from '@/types';
+
+// Bump the minor version for backwards compatible additions and the major
+// version when older apps can no longer read the file.
+export const BACKUP_VERSION = '1.3';
+
+export type ImportMode = 'replace' | 'merge';
+
+export type BackupErrorCode =
+  | 'invalidJson'
+  | 'invalidFormat'
+  | 'unsupportedVersion'
+  | 'invalidItems'
+  | 'invalidCalculations'
+  | 'invalidPriceHistory'
+  | 'invalidDiscounts'
+  | 'invalidBills'
+  | 'invalidSettings';
+
+export type BackupParseResult =
+  | { ok: true; data: ExportData }
+  | { ok: false; error: BackupErrorCode };
+
+export interface ImportSummary {
+  itemsAdded: number;
+  itemsUpdated: number;
+  itemsRemoved: number;
+  calculationsAdded: number;
+  calculationsRemoved: number;
+  priceChangesAdded: number;
+  discountsAdded: number;
+  discountsUpdated: number;
+  discountsRemoved: number;
+  billsAdded: number;
+  billsRemoved: number;
+  recentItemsChanged: boolean;
+  themeChanged: boolean;
+  languageChanged: boolean;
+  settingsChanged: boolean;
+}
+
+export interface ImportPlan {
+  items: Item[];
+  calculations: Calculation[];
+  recentItems: string[];
+  priceHistory: PriceChange[];
+  discounts: Discount[];
+  bills: Bill[];
+  preferences: ExportPreferences;
+  settings: AppSettings | undefined;
+  summary: ImportSummary;
+}
+
+// ==================== EXPORT ====================
+
+export const createExportData = async (
+  preferences: ExportPreferences,
+  settings: AppSettings
+): Promise<ExportData> => {
+  const [items, calculations, recentItems, priceHistory, discounts, bills] = await Promise.all([
+    getItems(),
+    getCalculations(),
+    getRecentItems(),
+    getAllPriceHistory(),
+    getDiscounts(),
+    getBills(),
+  ]);
+
+  return {
+    version: BACKUP_VERSION,
+    exportedAt: new Date().toISOString(),
+    schemaVersion: CURRENT_SCHEMA_VERSION,
+    items,
+    calculations,
+    recentItems,
+    priceHistory,
+    discounts,
+    bills,
+    preferences,
+    settings,
+  };
+};
+
+// ==================== VALIDATION ====================
+
+const isObject = (value: unknown): value is Record<string, any> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isFiniteNumber = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value);
+
+const isValidPackQuote = (value: unknown): boolean =>
+  isObject(value) &&
+  isFiniteNumber(value.price) && value.price > 0 &&
+  isFiniteNumber(value.size) && value.size > 0 &&
+  isUnit(value.unit);
+
+const isValidPriceTier = (value: unknown): boolean =>
+  isObject(value) &&
+  isFiniteNumber(value.minQuantity) && value.minQuantity > 0 &&
+  isFiniteNumber(value.price) && value.price > 0;
+
+const isValidItem = (value: unknown): value is Item =>
+  isObject(value) &&
+  typeof value.id === 'string' && value.id !== '' &&
+  typeof value.name === 'string' && value.name.trim() !== '' &&
+  isFiniteNumber(value.pricePerKg) && value.pricePerKg > 0 &&
+  isUnit(value.unit) &&
+  typeof value.isFavorite === 'boolean' &&
+  CATEGORIES.some(c => c.id === value.category) &&
+  (value.lastUsed === undefined || isFiniteNumber(value.lastUsed)) &&
+  (value.usageCount === undefined || isFiniteNumber(value.usageCount)) &&
+  (value.packQuote === undefined || isValidPackQuote(value.packQuote)) &&
+  (value.priceTiers === undefined || (Array.isArray(value.priceTiers) && value.priceTiers.every(isValidPriceTier))) &&
+  (value.costPrice === undefined || (isFiniteNumber(value.costPrice) && value.costPrice > 0)) &&
+  (value.yieldPercent === undefined || isValidYield(value.yieldPercent)) &&
+  (value.taxRate === undefined || isValidTaxRate(value.taxRate)) &&
+  (value.taxInclusive === undefined || typeof value.taxInclusive === 'boolean');
+
+const isValidTare = (value: unknown): boolean =>
+  isObject(value) &&
+  typeof value.name === 'string' &&
+  isFiniteNumber(value.quantity) && value.quantity >= 0;
+
+const isValidCalculation = (value: unknown): value is Calculation =>
+  isObject(value) &&
+  typeof value.id === 'string' &&
+  typeof value.itemId === 'string' &&
+  typeof value.itemName === 'string' &&
+  (value.mode === 'price' || value.mode === 'weight' || value.mode === 'rate') &&
+  isFiniteNumber(value.input) &&
+  isFiniteNumber(value.result) &&
+  isFiniteNumber(value.perKgPrice) &&
+  isUnit(value.unit) &&
+  (value.mode === 'rate' ? isFiniteNumber(value.quantity) && value.quantity > 0 : value.quantity === undefined) &&
+  (value.tare === undefined || isValidTare(value.tare)) &&
+  (value.yieldPercent === undefined || isValidYield(value.yieldPercent)) &&
+  isFiniteNumber(value.timestamp);
+
+const PRICE_CHANGE_SOURCES = ['calculator', 'items', 'itemDetail', 'import'];
+
+const isValidPriceChange = (value: unknown): value is PriceChange =>
+  isObject(value) &&
+  typeof value.id === 'string' &&
+  typeof value.itemId === 'string' &&
+  isFiniteNumber(value.oldPrice) &&
+  isFiniteNumber(value.newPrice) &&
+  PRICE_CHANGE_SOURCES.includes(value.source) &&
+  isFiniteNumber(value.timestamp);
+
+const isOptionalDateKey = (value: unknown): boolean =>
+  value === undefined || (typeof value === 'string' && isDateKey(value));
+
+const isValidDiscount = (value: unknown): value is Discount =>
+  isObject(value) &&
+  typeof value.id === 'string' &&
+  typeof value.name === 'string' && value.name.trim() !== '' &&
+  DISCOUNT_KINDS.includes(value.kind) &&
+  isFiniteNumber(value.value) && value.value > 0 &&
+  (value.kind !== 'percent' || value.value <= 100) &&
+  DISCOUNT_SCOPES.includes(value.scope) &&
+  (value.scope !== 'item' || typeof value.itemId === 'string') &&
+  (value.scope !== 'category' || CATEGORIES.some(c => c.id === value.category)) &&
+  (value.perUnit === undefined || typeof value.perUnit === 'boolean') &&
+  (value.minQuantity === undefined || (isFiniteNumber(value.minQuantity) && value.minQuantity > 0)) &&
+  isOptionalDateKey(value.startDate) &&
+  isOptionalDateKey(value.endDate) &&
+  (value.weekdays === undefined ||
+    (Array.isArray(value.weekdays) &&
+      value.weekdays.every((day: number) => Number.isInteger(day) && day >= 0 && day <= 6))) &&
+  typeof value.isActive === 'boolean';
+
+const isValidBillLine = (value: unknown): value is BillLine =>
+  isObject(value) &&
+  typeof value.id === 'string' &&
+  typeof value.itemId === 'string' &&
+  typeof value.itemName === 'string' &&
+  (value.mode === 'price' || value.mode === 'weight') &&
+  isFiniteNumber(value.quantity) && value.quantity > 0 &&
+  isUnit(value.unit) &&
+  isFiniteNumber(value.price) &&
+  isFiniteNumber(value.discount) &&
+  isValidTaxRate(value.taxRate) &&
+  isFiniteNumber(value.tax) &&
+  isFiniteNumber(value.amount);
+
+const isValidBill = (value: unknown): value is Bill =>
+  isObject(value) &&
+  typeof value.id === 'string' &&
+  Array.isArray(value.lines) && value.lines.every(isValidBillLine) &&
+  isFiniteNumber(value.subtotal) &&
+  (value.billDiscount === undefined ||
+    (isObject(value.billDiscount) &&
+      typeof value.billDiscount.name === 'string' &&
+      isFiniteNumber(value.billDiscount.amount))) &&
+  (value.roundOff === undefined || isFiniteNumber(value.roundOff)) &&
+  isFiniteNumber(value.total) &&
+  isFiniteNumber(value.timestamp);
+
+const isValidSettings = (value: unknown): value is AppSettings =>
+  isObject(value) &&
+  isCurrencySettings(value.currency) &&
+  isRoundingSettings(value.rounding) &&
+  isCategoryTaxRates(value.categoryTaxRates) &&
+  isTarePresets(value.tarePresets) &&
+  typeof value.shopName === 'string';
+
+const isSupportedVersion = (version: string) =>
+  version.split('.')[0] === BACKUP_VERSION.split('.')[0];
+
+/**
+ * Parse and validate the contents of a backup file
+ */
+export const parseBackup = (json: string): BackupParseResult => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(json);
+  } catch {
+    return { ok: false, error: 'invalidJson' };
+  }
+
+  if (
+    !isObject(raw) ||
+    typeof raw.version !== 'string' ||
+    typeof raw.exportedAt !== 'string' ||
+    !Array.isArray(raw.items) ||
+    !Array.isArray(raw.calculations) ||
+    !Array.isArray(raw.recentItems) ||
+    !raw.recentItems.every((id: unknown) => typeof id === 'string') ||
+    !isObject(raw.preferences) ||
+    typeof raw.preferences.isDarkMode !== 'boolean' ||
+    typeof raw.preferences.language !== 'string'
+  ) {
+    return { ok: false, error: 'invalidFormat' };
+  }
+
+  if (!isSupportedVersion(raw.version)) {
+    return { ok: false, error: 'unsupportedVersion' };
+  }
+
+  // Backups from before schema versioning (1.0) carry no schemaVersion
+  const schemaVersion = raw.schemaVersion ?? 0;
+  if (!Number.isInteger(schemaVersion) || schemaVersion > CURRENT_SCHEMA_VERSION) {
+    return { ok: false, error: 'unsupportedVersion' };
+  }
+
+  // Upgrade older backups the same way stored data is upgraded at startup
+  const migrated = migrateSnapshot(
+    { items: raw.items, calculations: raw.calculations, recentItems: raw.recentItems },
+    schemaVersion
+  );
+
+  if (!migrated.items?.every(isValidItem)) {
+    return { ok: false, error: 'invalidItems' };
+  }
+
+  if (!migrated.calculations?.every(isValidCalculation)) {
+    return { ok: false, error: 'invalidCalculations' };
+  }
+
+  // Price history was added in 1.2
+  const priceHistory = raw.priceHistory ?? [];
+  if (!Array.isArray(priceHistory) || !priceHistory.every(isValidPriceChange)) {
+    return { ok: false, error: 'invalidPriceHistory' };
+  }
+
+  // Offers, bills and settings were added in 1.3
+  const discounts = raw.discounts ?? [];
+  if (!Array.isArray(discounts) || !discounts.every(isValidDiscount)) {
+    return { ok: false, error: 'invalidDiscounts' };
+  }
+
+  const bills = raw.bills ?? [];
+  if (!Array.isArray(bills) || !bills.every(isValidBill)) {
+    return { ok: false, error: 'invalidBills' };
+  }
+
+  if (raw.settings !== undefined && !isValidSettings(raw.settings)) {
+    return { ok: false, error: 'invalidSettings' };
+  }
+
+  return {
+    ok: true,
+    data: {
+      ...(raw as unknown as ExportData),
+      schemaVersion: CURRENT_SCHEMA_VERSION,
+      items: migrated.items,
+      calculations: migrated.calculations,
+      recentItems: migrated.recentItems ?? [],
+      priceHistory,
+      discounts,
+      bills,
+    },
+  };
+};
+
+// ==================== IMPORT ====================
+
+const normalizeName = (name: string) => name.trim().toLowerCase();
+
+const isSameRecord = (a: object, b: object) => {
+  const left = a as Record<string, unknown>;
+  const right = b as Record<string, unknown>;
+  const keys = new Set([...Object.keys(left), ...Object.keys(right)]);
+  return [...keys].every(key => JSON.stringify(left[key]) === JSON.stringify(right[key]));
+};
+
+const sortByNewest = <T extends { timestamp: number }>(records: T[]) =>
+  [...records].sort((a, b) => b.timestamp - a.timestamp);
+
+/**
+ * Work out what importing a backup will do, without writing anything.
+ * Merge resolves incoming items against existing ones by id first, then by
+ * name; offers are matched by id and bills are added when not already kept.
+ */
+export const buildImportPlan = (
+  current: ExportData,
+  incoming: ExportData,
+  mode: ImportMode
+): ImportPlan => {
+  const currentById = new Map(current.items.map(item => [item.id, item]));
+  let items: Item[];
+  let calculations: Calculation[];
+  let recentItems: string[];
+  let priceHistory: PriceChange[];
+  let discounts: Discount[];
+  let bills: Bill[];
+  let itemsAdded = 0;
+  let itemsUpdated = 0;
+  let itemsRemoved = 0;
+
+  if (mode === 'replace') {
+    items = incoming.items;
+    items.forEach(item => {
+      const existing = currentById.get(item.id);
+      if (!existing) {
+        itemsAdded++;
+      } else if (!isSameRecord(existing, item)) {
+        itemsUpdated++;
+      }
+    });
+    const incomingIds = new Set(items.map(item => item.id));
+    itemsRemoved = current.items.filter(item => !incomingIds.has(item.id)).length;
+
+    calculations = sortByNewest(incoming.calculations).slice(0, MAX_CALCULATIONS);
+    recentItems = incoming.recentItems;
+    priceHistory = incoming.priceHistory;
+    discounts = incoming.discounts;
+    bills = sortByNewest(incoming.bills).slice(0, MAX_BILLS);
+  } else {
+    items = [...current.items];
+    // Maps an incoming item id to the id it ends up with after merging
+    const idMap = new Map<string, string>();
+
+    incoming.items.forEach(item => {
+      let index = items.findIndex(existing => existing.id === item.id);
+      if (index === -1) {
+        index = items.findIndex(existing => normalizeName(existing.name) === normalizeName(item.name));
+      }
+
+      if (index === -1) {
+        items.push(item);
+        idMap.set(item.id, item.id);
+        itemsAdded++;
+        return;
+      }
+
+      const existing = items[index];
+      const mergedItem = { ...existing, ...item, id: existing.id };
+      if (!isSameRecord(existing, mergedItem)) {
+        itemsUpdated++;
+      }
+      items[index] = mergedItem;
+      idMap.set(item.id, existing.id);
+    });
+
+    const remapId = (id: string) => idMap.get(id) ?? id;
+    const knownCalculationIds = new Set(current.calculations.map(c => c.id));
+    const incomingCalculations = incoming.calculations
+      .filter(calculation => !knownCalculationIds.has(calculation.id))
+      .map(calculation => ({ ...calculation, itemId: remapId(calculation.itemId) }));
+    calculations = sortByNewest([...current.calculations, ...incomingCalculations])
+      .slice(0, MAX_CALCULATIONS);
+
+    recentItems = [...incoming.recentItems.map(remapId), ...current.recentItems];
+
+    const knownPriceChangeIds = new Set(current.priceHistory.map(change => change.id));
+    priceHistory = [
+      ...current.priceHistory,
+      ...incoming.priceHistory
+        .filter(change => !knownPriceChangeIds.has(change.id))
+        .map(change => ({ ...change, itemId: remapId(change.itemId) })),
+    ].sort((a, b) => b.timestamp - a.timestamp);
+
+    discounts = [...current.discounts];
+    incoming.discounts.forEach(discount => {
+      const mergedDiscount = discount.itemId === undefined
+        ? discount
+        : { ...discount, itemId: remapId(discount.itemId) };
+      const index = discounts.findIndex(existing => existing.id === discount.id);
+      if (index === -1) {
+        discounts.push(mergedDiscount);
+      } else {
+        discounts[index] = mergedDiscount;
+      }
+    });
+
+    const knownBillIds = new Set(current.bills.map(bill => bill.id));
+    const incomingBills = incoming.bills
+      .filter(bill => !knownBillIds.has(bill.id))
+      .map(bill => ({ ...bill, lines: bill.lines.map(line => ({ ...line, itemId: remapId(line.itemId) })) }));
+    bills = sortByNewest([...current.bills, ...incomingBills]).slice(0, MAX_BILLS);
+  }
+
+  // Recent items only make sense for items that still exist
+  const itemIds = new Set(items.map(item => item.id));
+  recentItems = recentItems
+    .filter((id, index) => itemIds.has(id) && recentItems.indexOf(id) === index)
+    .slice(0, MAX_RECENT_ITEMS);
+
+  const currentCalculationIds = new Set(current.calculations.map(c => c.id));
+  const plannedCalculationIds = new Set(calculations.map(c => c.id));
+  const currentPriceChangeIds = new Set(current.priceHistory.map(change => change.id));
+  const currentDiscountsById = new Map(current.discounts.map(discount => [discount.id, discount]));
+  const plannedDiscountIds = new Set(discounts.map(discount => discount.id));
+  const currentBillIds = new Set(current.bills.map(bill => bill.id));
+  const plannedBillIds = new Set(bills.map(bill => bill.id));
+  // Backups from before 1.3 leave the current settings alone
+  const settings = incoming.settings ?? current.settings;
+
+  return {
+    items,
+    calculations,
+    recentItems,
+    priceHistory,
+    discounts,
+    bills,
+    preferences: incoming.preferences,
+    settings,
+    summary: {
+      itemsAdded,
+      itemsUpdated,
+      itemsRemoved,
+      calculationsAdded: calculations.filter(c => !currentCalculationIds.has(c.id)).length,
+      calculationsRemoved: current.calculations.filter(c => !plannedCalculationIds.has(c.id)).length,
+      priceChangesAdded: priceHistory.filter(change => !currentPriceChangeIds.has(change.id)).length,
+      discountsAdded: discounts.filter(discount => !currentDiscountsById.has(discount.id)).length,
+      discountsUpdated: discounts.filter(discount => {
+        const existing = currentDiscountsById.get(discount.id);
+        return existing !== undefined && !isSameRecord(existing, discount);
+      }).length,
+      discountsRemoved: current.discounts.filter(discount => !plannedDiscountIds.has(discount.id)).length,
+      billsAdded: bills.filter(bill => !currentBillIds.has(bill.id)).length,
+      billsRemoved: current.bills.filter(bill => !plannedBillIds.has(bill.id)).length,
+      recentItemsChanged: recentItems.join() !== current.recentItems.join(),
+      themeChanged: incoming.preferences.isDarkMode !== current.preferences.isDarkMode,
+      languageChanged: incoming.preferences.language !== current.preferences.language,
+      settingsChanged: settings !== undefined && current.settings !== undefined && !isSameRecord(current.settings, settings),
+    },
+  };
+};
+
+/**
+ * Write the stored data of an import plan. Preferences and settings are
+ * applied by the caller through the theme context, i18n and the settings
+ * context. Rejects if anything could not be written; the stored data is then
+ * left as it was.
+ */
+export const applyImportPlan = async (plan: ImportPlan): Promise<void> => {
+  await replaceStoredData({
+    items: plan.items,
+    calculations: plan.calculations,
+    recentItems: plan.recentItems,
+    priceHistory: plan.priceHistory,
+    discounts: plan.discounts,
+    bills: plan.bills,
+  });
+};
@@ -0,0 +1,119 @@
+import type { Bill, BillLine, CategoryTaxRates, Discount, Item, RoundingSettings } from '@/types';
+import { applyBillDiscount, applyDiscounts, quantityForAmount } from '@/utils/discounts';
+import { priceForQuantity, solveAcrossTiers } from '@/utils/tiers';
+import { getItemTaxRate, isTaxInclusive, taxInTotal, taxOnBase } from '@/utils/tax';
+import { fromPaise, sumMoney, toPaise } from '@/utils/money';
+import { roundAmount } from '@/utils/rounding';
+
+// What was asked for: so much of the item, or so much money's worth
+export type BillEntry =
+  | { mode: 'price'; quantity: number }
+  | { mode: 'weight'; amount: number };
+
+export type BillTotals = Pick<Bill, 'subtotal' | 'billDiscount' | 'roundOff' | 'total'> & {
+  tax: number; // GST within the total before rounding
+};
+
+const difference = (a: number, b: number): number => fromPaise(toPaise(a) - toPaise(b));
+
+/**
+ * Price one line the way the calculator does: bulk rate, then the item or
+ * category offer, then GST. Bill offers are left for the whole bill.
+ */
+export const priceBillLine = (
+  item: Item,
+  entry: BillEntry,
+  discounts: Discount[],
+  categoryTaxRates: CategoryTaxRates,
+  date: Date = new Date()
+): Omit<BillLine, 'id'> => {
+  const lineOffers = discounts.filter(discount => discount.scope !== 'bill');
+  const taxRate = getItemTaxRate(item, categoryTaxRates);
+  const inclusive = isTaxInclusive(item);
+  const line = { itemId: item.id, itemName: item.name, mode: entry.mode, unit: item.unit, taxRate };
+
+  if (entry.mode === 'price') {
+    const rate = priceForQuantity(item, entry.quantity);
+    const pricing = applyDiscounts(lineOffers, { ...item, pricePerKg: rate.price }, entry.quantity, date);
+    const breakdown = inclusive ? taxInTotal(pricing.final, taxRate) : taxOnBase(pricing.final, taxRate);
+    return {
+      ...line,
+      quantity: entry.quantity,
+      price: rate.price,
+      discount: difference(pricing.original, pricing.final),
+      tax: difference(breakdown.total, breakdown.base),
+      amount: breakdown.total,
+    };
+  }
+
+  // The amount includes tax; with a pre-tax price only the base buys goods
+  const breakdown = taxInTotal(entry.amount, taxRate);
+  const budget = inclusive ? entry.amount : breakdown.base;
+  const bought = solveAcrossTiers(item, price =>
+    quantityForAmount(lineOffers, { ...item, pricePerKg: price }, budget, date)
+  );
+  return {
+    ...line,
+    quantity: bought.quantity,
+    price: bought.tier?.price ?? item.pricePerKg,
+    discount: difference(bought.pricing.original, bought.pricing.final),
+    tax: difference(breakdown.total, breakdown.base),
+    amount: entry.amount,
+  };
+};
+
+/**
+ * GST within each line once the bill offer is shared out over the lines it
+ * came off, in proportion to their amounts. Leftover paise of the share go
+ * to the first of those lines.
+ */
+export const lineTaxesAfterOffer = (lines: BillLine[], billDiscount: Bill['billDiscount']): number[] => {
+  const offerPaise = toPaise(billDiscount?.amount ?? 0);
+  const sharedPaise = lines.map(line => (line.mode === 'price' ? toPaise(line.amount) : 0));
+  const basePaise = sharedPaise.reduce((sum, paise) => sum + paise, 0);
+  if (offerPaise === 0 || basePaise === 0) {
+    return lines.map(line => line.tax);
+  }
+
+  const shares = sharedPaise.map(paise => Math.floor((paise * offerPaise) / basePaise));
+  let leftover = offerPaise - shares.reduce((sum, paise) => sum + paise, 0);
+  for (let index = 0; leftover > 0 && index < shares.length; index++) {
+    if (sharedPaise[index] > 0) {
+      shares[index]++;
+      leftover--;
+    }
+  }
+
+  return lines.map((line, index) => {
+    if (shares[index] === 0 || line.taxRate === 0) return line.tax;
+    const breakdown = taxInTotal(fromPaise(toPaise(line.amount) - shares[index]), line.taxRate);
+    return difference(breakdown.total, breakdown.base);
+  });
+};
+
+/**
+ * Subtotal, the best bill offer and the grand total of some lines, rounded
+ * to the cash step. Lines bought by amount keep that amount, so the bill
+ * offer only comes off lines bought by quantity.
+ */
+export const totalBill = (
+  lines: BillLine[],
+  discounts: Discount[],
+  rounding: RoundingSettings,
+  date: Date = new Date()
+): BillTotals => {
+  const subtotal = sumMoney(lines.map(line => line.amount));
+  const offerBase = sumMoney(lines.filter(line => line.mode === 'price').map(line => line.amount));
+  const [offer] = applyBillDiscount(discounts, offerBase, date).discounts;
+  const billDiscount = offer ? { name: offer.discount.name, amount: offer.amount } : undefined;
+  const discounted = difference(subtotal, offer?.amount ?? 0);
+  const total = roundAmount(discounted, rounding);
+  const roundOff = difference(total, discounted);
+  return {
+    subtotal,
+    billDiscount,
+    roundOff: roundOff !== 0 ? roundOff : undefined,
+    total,
+    tax: sumMoney(lineTaxesAfterOffer(lines, billDiscount)),
+  };
+};
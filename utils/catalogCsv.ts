@@ -0,0 +1,218 @@
+import { createId, modifyItems } from '@/utils/storage';
+import { parseCsv, toCsv } from '@/utils/csv';
+import {
+  validateItemName,
+  validateItemPrice,
+  parseDecimal,
+  type ItemFieldError,
+} from '@/utils/validation';
+import { DEFAULT_UNIT } from '@/utils/units';
+import { dropStalePackQuote } from '@/utils/packs';
+import { CATEGORIES, UNITS, type Category, type Item, type Unit } from '@/types';
+
+// Columns of the item catalog spreadsheet, in export order
+export type CatalogField = 'name' | 'pricePerKg' | 'unit' | 'category' | 'favorite';
+
+export const CATALOG_FIELDS: CatalogField[] = ['name', 'pricePerKg', 'unit', 'category', 'favorite'];
+
+// Index of the CSV column that feeds each field, or null when not imported
+export type ColumnMapping = Record<CatalogField, number | null>;
+
+export type CsvRowError =
+  | ItemFieldError
+  | 'invalidCategory'
+  | 'invalidUnit'
+  | 'invalidFavorite'
+  | 'duplicateName';
+
+export type CsvRowStatus = 'new' | 'updated' | 'unchanged' | 'invalid';
+
+export interface CsvImportRow {
+  rowNumber: number;
+  name: string;
+  status: CsvRowStatus;
+  errors: CsvRowError[];
+  item: Item | null;
+}
+
+export interface CsvTable {
+  headers: string[];
+  rows: string[][];
+}
+
+const HEADER_ALIASES: Record<CatalogField, string[]> = {
+  name: ['name', 'item', 'itemname', 'product', 'productname'],
+  pricePerKg: ['priceperkg', 'price', 'pricekg', 'rate', 'rateperkg', 'priceperunit'],
+  unit: ['unit', 'units', 'uom', 'per'],
+  category: ['category', 'type', 'group'],
+  favorite: ['favorite', 'favourite', 'fav', 'isfavorite', 'starred'],
+};
+
+// Spellings accepted for each unit besides its id
+const UNIT_ALIASES: Record<Unit, string[]> = {
+  g: ['gm', 'gms', 'gram', 'grams'],
+  kg: ['kgs', 'kilo', 'kilogram', 'kilograms'],
+  quintal: ['qtl', 'quintals'],
+  ml: ['millilitre', 'milliliter', 'millilitres', 'milliliters'],
+  l: ['ltr', 'litre', 'liter', 'litres', 'liters'],
+  piece: ['pc', 'pcs', 'pieces', 'nos'],
+  dozen: ['dz', 'doz', 'dozens'],
+  packet: ['pkt', 'pack', 'packets', 'packs'],
+};
+
+const TRUE_VALUES = ['true', 'yes', 'y', '1'];
+const FALSE_VALUES = ['false', 'no', 'n', '0'];
+
+const normalizeHeader = (header: string) => header.toLowerCase().replace(/[^a-z]/g, '');
+const normalizeName = (name: string) => name.trim().toLowerCase();
+
+// ==================== EXPORT ====================
+
+export const catalogToCsv = (items: Item[]): string =>
+  toCsv([
+    CATALOG_FIELDS,
+    ...items.map(item => [item.name, item.pricePerKg, item.unit, item.category, item.isFavorite]),
+  ]);
+
+// ==================== IMPORT ====================
+
+/**
+ * Split CSV text into a header row and data rows
+ */
+export const readCsvTable = (text: string): CsvTable => {
+  const [headers = [], ...rows] = parseCsv(text);
+  return { headers: headers.map(header => header.trim()), rows };
+};
+
+/**
+ * Map catalog fields to CSV columns by recognising common header names.
+ * Unrecognised fields are left unmapped for the user to choose.
+ */
+export const guessColumnMapping = (headers: string[]): ColumnMapping => {
+  const normalized = headers.map(normalizeHeader);
+  const mapping = {} as ColumnMapping;
+
+  CATALOG_FIELDS.forEach(field => {
+    const index = normalized.findIndex(header => HEADER_ALIASES[field].includes(header));
+    mapping[field] = index === -1 ? null : index;
+  });
+
+  return mapping;
+};
+
+const parseCategory = (value: string): Category | null => {
+  const normalized = value.trim().toLowerCase();
+  const category = CATEGORIES.find(c =>
+    c.id === normalized || c.label.toLowerCase() === normalized
+  );
+  return category ? category.id : null;
+};
+
+const parseUnit = (value: string): Unit | null => {
+  const normalized = value.trim().toLowerCase();
+  const unit = UNITS.find(u => u.id === normalized || UNIT_ALIASES[u.id].includes(normalized));
+  return unit ? unit.id : null;
+};
+
+const parseFavorite = (value: string): boolean | null => {
+  const normalized = value.trim().toLowerCase();
+  if (TRUE_VALUES.includes(normalized)) return true;
+  if (FALSE_VALUES.includes(normalized)) return false;
+  return null;
+};
+
+const isSameItem = (a: Item, b: Item) =>
+  a.name === b.name &&
+  a.pricePerKg === b.pricePerKg &&
+  a.unit === b.unit &&
+  a.category === b.category &&
+  a.isFavorite === b.isFavorite;
+
+/**
+ * Validate mapped CSV rows and classify them against the current catalog.
+ * Rows update an existing item when the names match (case-insensitive).
+ */
+export const buildCsvImportPreview = (
+  table: CsvTable,
+  mapping: ColumnMapping,
+  existingItems: Item[]
+): CsvImportRow[] => {
+  const seenNames = new Set<string>();
+
+  return table.rows.map((row, index) => {
+    const cell = (field: CatalogField) => {
+      const column = mapping[field];
+      return column === null ? '' : (row[column] ?? '').trim();
+    };
+
+    const name = cell('name');
+    const price = cell('pricePerKg');
+    const rawUnit = cell('unit');
+    const rawCategory = cell('category');
+    const rawFavorite = cell('favorite');
+    const existing = existingItems.find(item => normalizeName(item.name) === normalizeName(name)) ?? null;
+    const errors: CsvRowError[] = [];
+
+    const nameError = validateItemName(name);
+    if (nameError) errors.push(nameError);
+
+    const priceError = validateItemPrice(price);
+    if (priceError) errors.push(priceError);
+
+    const unit = rawUnit === '' ? (existing?.unit ?? DEFAULT_UNIT) : parseUnit(rawUnit);
+    if (unit === null) errors.push('invalidUnit');
+
+    const category = rawCategory === '' ? (existing?.category ?? 'other') : parseCategory(rawCategory);
+    if (category === null) errors.push('invalidCategory');
+
+    const isFavorite = rawFavorite === '' ? (existing?.isFavorite ?? false) : parseFavorite(rawFavorite);
+    if (isFavorite === null) errors.push('invalidFavorite');
+
+    if (!nameError) {
+      if (seenNames.has(normalizeName(name))) errors.push('duplicateName');
+      seenNames.add(normalizeName(name));
+    }
+
+    const rowNumber = index + 2; // 1-based, after the header row
+    if (errors.length > 0 || unit === null || category === null || isFavorite === null) {
+      return { rowNumber, name, status: 'invalid', errors, item: null };
+    }
+
+    const item: Item = dropStalePackQuote({
+      ...existing,
+      id: existing?.id ?? createId(),
+      name,
+      pricePerKg: parseDecimal(price),
+      unit,
+      category,
+      isFavorite,
+    });
+
+    let status: CsvRowStatus = 'new';
+    if (existing) {
+      status = isSameItem(existing, item) ? 'unchanged' : 'updated';
+    }
+
+    return { rowNumber, name, status, errors, item };
+  });
+};
+
+/**
+ * Write the new and updated rows of a preview to the catalog
+ */
+export const applyCsvImport = async (rows: CsvImportRow[]): Promise<void> => {
+  const changes = rows.filter(row =>
+    row.item !== null && (row.status === 'new' || row.status === 'updated')
+  );
+  const added = changes
+    .filter(row => row.status === 'new')
+    .map(row => row.item as Item);
+
+  await modifyItems(items => [
+    ...items.map(item => {
+      const change = changes.find(row => row.status === 'updated' && row.item?.id === item.id);
+      return change?.item ?? item;
+    }),
+    ...added,
+  ], 'import');
+};
@@ -0,0 +1,57 @@
+import { packUnitPrice } from '@/utils/packs';
+import { getUnitDimension } from '@/utils/units';
+import type { PackQuote, Unit, UnitDimension } from '@/types';
+
+// One product on the shelf: a price for a quantity in some unit
+export interface Offer extends PackQuote {
+  id: string;
+  label: string;
+}
+
+export interface RankedOffer {
+  offer: Offer;
+  unitPrice: number; // per comparison unit
+  savings: number; // per comparison unit, against the worst offer
+  savingsPercent: number;
+}
+
+export interface OfferComparison {
+  unit: Unit;
+  ranked: RankedOffer[]; // cheapest first
+  incompatible: Offer[]; // measured in a different dimension than the first offer
+}
+
+// Unit prices are compared per kg, per litre, per piece or per packet
+const COMPARISON_UNITS: Record<UnitDimension, Unit> = {
+  mass: 'kg',
+  volume: 'l',
+  count: 'piece',
+  pack: 'packet',
+};
+
+/**
+ * Normalize offers to a common unit price and rank them, cheapest first.
+ * The first offer decides what is being compared; offers in another
+ * dimension (e.g. litres against kilograms) are set aside.
+ */
+export const compareOffers = (offers: Offer[]): OfferComparison | null => {
+  if (offers.length === 0) return null;
+
+  const dimension = getUnitDimension(offers[0].unit);
+  const unit = COMPARISON_UNITS[dimension];
+  const comparable = offers.filter(offer => getUnitDimension(offer.unit) === dimension);
+  const incompatible = offers.filter(offer => getUnitDimension(offer.unit) !== dimension);
+
+  const priced = comparable.map(offer => ({ offer, unitPrice: packUnitPrice(offer, unit) }));
+  const worst = Math.max(...priced.map(entry => entry.unitPrice));
+
+  const ranked = priced
+    .sort((a, b) => a.unitPrice - b.unitPrice)
+    .map(entry => ({
+      ...entry,
+      savings: worst - entry.unitPrice,
+      savingsPercent: ((worst - entry.unitPrice) / worst) * 100,
+    }));
+
+  return { unit, ranked, incompatible };
+};
@@ -0,0 +1,82 @@
+import type { CurrencySettings, DigitGrouping } from '@/types';
+
+export const DEFAULT_CURRENCY: CurrencySettings = {
+  symbol: '₹',
+  code: 'INR',
+  decimals: 2,
+  symbolPosition: 'before',
+  grouping: 'indian',
+};
+
+// Quick picks on the settings screen
+export const CURRENCY_PRESETS: CurrencySettings[] = [
+  DEFAULT_CURRENCY,
+  { symbol: '$', code: 'USD', decimals: 2, symbolPosition: 'before', grouping: 'international' },
+  { symbol: '€', code: 'EUR', decimals: 2, symbolPosition: 'after', grouping: 'international' },
+  { symbol: '£', code: 'GBP', decimals: 2, symbolPosition: 'before', grouping: 'international' },
+  { symbol: 'د.إ', code: 'AED', decimals: 2, symbolPosition: 'after', grouping: 'international' },
+];
+
+export const MAX_CURRENCY_DECIMALS = 3;
+
+const ODIA_DIGITS = ['୦', '୧', '୨', '୩', '୪', '୫', '୬', '୭', '୮', '୯'];
+
+export const isCurrencySettings = (value: unknown): value is CurrencySettings => {
+  if (typeof value !== 'object' || value === null) return false;
+  const currency = value as Record<string, unknown>;
+  return (
+    typeof currency.symbol === 'string' &&
+    typeof currency.code === 'string' &&
+    Number.isInteger(currency.decimals) &&
+    (currency.decimals as number) >= 0 &&
+    (currency.decimals as number) <= MAX_CURRENCY_DECIMALS &&
+    (currency.symbolPosition === 'before' || currency.symbolPosition === 'after') &&
+    (currency.grouping === 'indian' || currency.grouping === 'international')
+  );
+};
+
+// "1234567" → "12,34,567" (Indian) or "1,234,567" (international)
+const groupDigits = (digits: string, grouping: DigitGrouping): string => {
+  if (grouping === 'international') {
+    return digits.replace(/\B(?=(\d{3})+(?!\d))/g, ',');
+  }
+  if (digits.length <= 3) return digits;
+  const head = digits.slice(0, -3);
+  const tail = digits.slice(-3);
+  return `${head.replace(/\B(?=(\d{2})+(?!\d))/g, ',')},${tail}`;
+};
+
+/**
+ * Localize Western digits for the active language: Odia uses ୦-୯
+ */
+export const localizeDigits = (text: string, language: string): string =>
+  language.startsWith('or') ? text.replace(/[0-9]/g, digit => ODIA_DIGITS[Number(digit)]) : text;
+
+/**
+ * Group and localize a number, e.g. 100000 → "1,00,000.00" or "୧,୦୦,୦୦୦.୦୦"
+ */
+export const formatNumber = (
+  value: number,
+  decimals: number,
+  grouping: DigitGrouping,
+  language: string
+): string => {
+  const [whole, fraction] = Math.abs(value).toFixed(decimals).split('.');
+  const grouped = fraction ? `${groupDigits(whole, grouping)}.${fraction}` : groupDigits(whole, grouping);
+  // Values that round to zero are not shown as negative
+  const sign = value < 0 && /[1-9]/.test(grouped) ? '-' : '';
+  return localizeDigits(`${sign}${grouped}`, language);
+};
+
+/**
+ * Format an amount of money with the currency's symbol, precision and grouping
+ */
+export const formatMoney = (amount: number, currency: CurrencySettings, language: string): string => {
+  const formatted = formatNumber(amount, currency.decimals, currency.grouping, language);
+  // The minus sign goes ahead of a leading symbol: -₹5.00
+  const sign = formatted.startsWith('-') ? '-' : '';
+  const number = formatted.slice(sign.length);
+  return currency.symbolPosition === 'before'
+    ? `${sign}${currency.symbol}${number}`
+    : `${sign}${number} ${currency.symbol}`;
+};
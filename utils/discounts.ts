@@ -0,0 +1,233 @@
+import type { Discount, DiscountKind, DiscountScope, Item } from '@/types';
+import {
+  costInPaise,
+  divideRounded,
+  fromMilliUnits,
+  fromPaise,
+  quantityInMilliUnits,
+  toMilliPaise,
+  toMilliUnits,
+  toPaise,
+} from '@/utils/money';
+
+export const DISCOUNT_KINDS: DiscountKind[] = ['percent', 'flat'];
+export const DISCOUNT_SCOPES: DiscountScope[] = ['item', 'category', 'bill'];
+
+// Percentages are handled in basis points so 12.5% stays an integer
+const BASIS_POINTS = 10000;
+
+export interface AppliedDiscount {
+  discount: Discount;
+  amount: number;
+}
+
+export interface DiscountedPrice {
+  original: number;
+  // The best item or category offer, then the best bill offer
+  discounts: AppliedDiscount[];
+  final: number;
+}
+
+// ==================== DATES ====================
+
+const DATE_KEY_PATTERN = /^(\d{4})-(\d{2})-(\d{2})$/;
+
+/**
+ * Local calendar date as YYYY-MM-DD, the format rule dates are stored in
+ */
+export const toDateKey = (date: Date): string =>
+  [
+    date.getFullYear(),
+    (date.getMonth() + 1).toString().padStart(2, '0'),
+    date.getDate().toString().padStart(2, '0'),
+  ].join('-');
+
+export const isDateKey = (value: string): boolean => {
+  const match = DATE_KEY_PATTERN.exec(value);
+  if (!match) return false;
+  const date = new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3]));
+  return toDateKey(date) === value;
+};
+
+/**
+ * Whether a rule is switched on and `date` falls in its range and weekdays
+ */
+export const isDiscountActiveOn = (discount: Discount, date: Date): boolean => {
+  if (!discount.isActive) return false;
+  const key = toDateKey(date);
+  if (discount.startDate && key < discount.startDate) return false;
+  if (discount.endDate && key > discount.endDate) return false;
+  return !discount.weekdays?.length || discount.weekdays.includes(date.getDay());
+};
+
+// ==================== AMOUNTS ====================
+
+const appliesToItem = (discount: Discount, item: Item): boolean =>
+  (discount.scope === 'item' && discount.itemId === item.id) ||
+  (discount.scope === 'category' && discount.category === item.category);
+
+const meetsMinimum = (discount: Discount, milliUnits: number): boolean =>
+  discount.minQuantity === undefined || milliUnits >= toMilliUnits(discount.minQuantity);
+
+// Paise taken off `grossPaise`, never more than the amount itself
+const discountPaise = (discount: Discount, grossPaise: number, milliUnits: number): number => {
+  let off: number;
+  if (discount.kind === 'percent') {
+    off = divideRounded(grossPaise * Math.round(discount.value * 100), BASIS_POINTS);
+  } else if (discount.perUnit && discount.scope !== 'bill') {
+    off = costInPaise(toMilliPaise(discount.value), milliUnits);
+  } else {
+    off = toPaise(discount.value);
+  }
+  return Math.min(Math.max(off, 0), grossPaise);
+};
+
+// The rule that takes the most off, or null when none applies
+const bestDiscount = (
+  candidates: Discount[],
+  grossPaise: number,
+  milliUnits: number
+): { discount: Discount; paise: number } | null => {
+  let best: { discount: Discount; paise: number } | null = null;
+  for (const discount of candidates) {
+    const paise = discountPaise(discount, grossPaise, milliUnits);
+    if (paise > 0 && (!best || paise > best.paise)) {
+      best = { discount, paise };
+    }
+  }
+  return best;
+};
+
+const lineCandidates = (discounts: Discount[], item: Item, date: Date): Discount[] =>
+  discounts.filter(discount => appliesToItem(discount, item) && isDiscountActiveOn(discount, date));
+
+const billCandidates = (discounts: Discount[], date: Date): Discount[] =>
+  discounts.filter(discount => discount.scope === 'bill' && isDiscountActiveOn(discount, date));
+
+const priceLine = (
+  lineRules: Discount[],
+  billRules: Discount[],
+  priceMilliPaise: number,
+  milliUnits: number
+) => {
+  const originalPaise = costInPaise(priceMilliPaise, milliUnits);
+  const eligible = lineRules.filter(discount => meetsMinimum(discount, milliUnits));
+  const line = bestDiscount(eligible, originalPaise, milliUnits);
+  const subtotalPaise = originalPaise - (line?.paise ?? 0);
+  const bill = bestDiscount(billRules, subtotalPaise, milliUnits);
+  const applied = [line, bill].filter((entry): entry is { discount: Discount; paise: number } => entry !== null);
+  return {
+    originalPaise,
+    applied,
+    finalPaise: subtotalPaise - (bill?.paise ?? 0),
+  };
+};
+
+const toDiscountedPrice = ({ originalPaise, applied, finalPaise }: ReturnType<typeof priceLine>): DiscountedPrice => ({
+  original: fromPaise(originalPaise),
+  discounts: applied.map(({ discount, paise }) => ({ discount, amount: fromPaise(paise) })),
+  final: fromPaise(finalPaise),
+});
+
+/**
+ * Price `quantity` of an item with the best offers running on `date`.
+ * At most one item or category offer and one bill offer are combined.
+ */
+export const applyDiscounts = (
+  discounts: Discount[],
+  item: Item,
+  quantity: number,
+  date: Date = new Date()
+): DiscountedPrice =>
+  toDiscountedPrice(priceLine(
+    lineCandidates(discounts, item, date),
+    billCandidates(discounts, date),
+    toMilliPaise(item.pricePerKg),
+    toMilliUnits(quantity)
+  ));
+
+/**
+ * Best bill offer for a subtotal, e.g. across a whole cart
+ */
+export const applyBillDiscount = (
+  discounts: Discount[],
+  subtotal: number,
+  date: Date = new Date()
+): DiscountedPrice => {
+  const subtotalPaise = toPaise(subtotal);
+  const bill = bestDiscount(billCandidates(discounts, date), subtotalPaise, 0);
+  return toDiscountedPrice({
+    originalPaise: subtotalPaise,
+    applied: bill ? [bill] : [],
+    finalPaise: subtotalPaise - (bill?.paise ?? 0),
+  });
+};
+
+// Gross amount that leaves `netPaise` after a rule, or null if it can't
+const grossBefore = (discount: Discount | null, netPaise: number): number | null => {
+  if (!discount) return netPaise;
+  if (discount.kind === 'flat') return netPaise + toPaise(discount.value);
+  const remaining = BASIS_POINTS - Math.round(discount.value * 100);
+  return remaining > 0 ? (netPaise * BASIS_POINTS) / remaining : null;
+};
+
+// Quantity whose price after the given rules comes to `amountPaise`
+const solveQuantity = (
+  line: Discount | null,
+  bill: Discount | null,
+  amountPaise: number,
+  priceMilliPaise: number
+): number | null => {
+  const linePaise = grossBefore(bill, amountPaise);
+  if (linePaise === null) return null;
+  if (line?.kind === 'flat' && line.perUnit) {
+    // Each unit costs the price less the flat amount
+    const netPrice = priceMilliPaise - toMilliPaise(line.value);
+    return netPrice > 0 ? quantityInMilliUnits(linePaise, netPrice, 'down') : null;
+  }
+  const grossPaise = grossBefore(line, linePaise);
+  return grossPaise === null ? null : quantityInMilliUnits(grossPaise, priceMilliPaise, 'down');
+};
+
+// Back off a solved quantity until its price fits the amount
+const MAX_FIT_STEPS = 10;
+
+/**
+ * The most of an item that `amount` buys once offers are taken off, along
+ * with how that quantity is priced
+ */
+export const quantityForAmount = (
+  discounts: Discount[],
+  item: Item,
+  amount: number,
+  date: Date = new Date()
+): { quantity: number; pricing: DiscountedPrice } => {
+  const amountPaise = toPaise(amount);
+  const priceMilliPaise = toMilliPaise(item.pricePerKg);
+  const lineRules = lineCandidates(discounts, item, date);
+  const billRules = billCandidates(discounts, date);
+
+  // Without offers this matches calculateQuantity
+  let bestMilliUnits = quantityInMilliUnits(amountPaise, priceMilliPaise);
+
+  for (const line of [null, ...lineRules]) {
+    for (const bill of [null, ...billRules]) {
+      if (!line && !bill) continue;
+      let milliUnits = solveQuantity(line, bill, amountPaise, priceMilliPaise);
+      if (milliUnits === null || milliUnits <= bestMilliUnits) continue;
+
+      for (let step = 0; step < MAX_FIT_STEPS && milliUnits > bestMilliUnits; step++) {
+        if (priceLine(lineRules, billRules, priceMilliPaise, milliUnits).finalPaise <= amountPaise) {
+          bestMilliUnits = milliUnits;
+          break;
+        }
+        milliUnits--;
+      }
+    }
+  }
+
+  return {
+    quantity: fromMilliUnits(bestMilliUnits),
+    pricing: toDiscountedPrice(priceLine(lineRules, billRules, priceMilliPaise, bestMilliUnits)),
+  };
+};
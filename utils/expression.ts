@@ -0,0 +1,344 @@
+// Safe evaluation of what's typed into the calculator, e.g. "1.25 + 0.8",
+// "3 * 0.5" or "500g + 1.2kg". Numbers may carry a unit, which is converted
+// to the unit being entered; bare numbers are taken to be in that unit.
+// Scale readings ("1 kg 250 g", "1 kilo 250") and the way customers ask
+// ("ek pao", "dedh kilo", "ଅଧା କିଲୋ") are understood too.
+
+import type { Unit } from '@/types';
+import { convertQuantity, getUnitDimension } from '@/utils/units';
+
+// i18n keys under `calculator.expression`
+export type ExpressionError =
+  | 'invalidCharacter'
+  | 'invalidExpression'
+  | 'unknownUnit'
+  | 'incompatibleUnit'
+  | 'unitNotAllowed'
+  | 'divideByZero';
+
+export type ExpressionResult =
+  | { status: 'empty' }
+  // Still being typed, e.g. "1.25 +"; neither a value nor an error yet
+  | { status: 'incomplete' }
+  | { status: 'error'; error: ExpressionError }
+  // `isExpression` is false for a plain number, which needs no preview
+  | { status: 'value'; value: number; isExpression: boolean };
+
+type Token =
+  | { type: 'number'; value: number }
+  // Colloquial share of a kilo or litre, e.g. pao = ¼
+  | { type: 'fraction'; value: number }
+  | { type: 'unit'; unit: Unit }
+  | { type: 'operator'; operator: '+' | '-' | '*' | '/' }
+  | { type: 'open' }
+  | { type: 'close' };
+
+const UNIT_ALIASES: Record<string, Unit> = {
+  g: 'g',
+  gm: 'g',
+  gms: 'g',
+  gram: 'g',
+  grams: 'g',
+  kg: 'kg',
+  kgs: 'kg',
+  kilo: 'kg',
+  kilos: 'kg',
+  'କିଲୋ': 'kg',
+  'କେଜି': 'kg',
+  'ଗ୍ରାମ': 'g',
+  qtl: 'quintal',
+  quintal: 'quintal',
+  quintals: 'quintal',
+  ml: 'ml',
+  l: 'l',
+  ltr: 'l',
+  litre: 'l',
+  litres: 'l',
+  liter: 'l',
+  liters: 'l',
+  'ଲିଟର': 'l',
+  pc: 'piece',
+  pcs: 'piece',
+  piece: 'piece',
+  pieces: 'piece',
+  dz: 'dozen',
+  dozen: 'dozen',
+  pkt: 'packet',
+  packet: 'packet',
+  packets: 'packet',
+};
+
+// Counts said as words, in English, Hindi and Odia as typed in Roman
+// letters, and Odia
+const NUMBER_WORDS: Record<string, number> = {
+  one: 1,
+  two: 2,
+  three: 3,
+  four: 4,
+  five: 5,
+  ek: 1,
+  do: 2,
+  dui: 2,
+  tin: 3,
+  tini: 3,
+  char: 4,
+  chari: 4,
+  panch: 5,
+  'ଏକ': 1,
+  'ଦୁଇ': 2,
+  'ତିନି': 3,
+  'ଚାରି': 4,
+  'ପାଞ୍ଚ': 5,
+};
+
+const FRACTION_WORDS: Record<string, number> = {
+  quarter: 0.25,
+  pao: 0.25,
+  pav: 0.25,
+  paav: 0.25,
+  pau: 0.25,
+  'ପାଏ': 0.25,
+  'ପାଉ': 0.25,
+  half: 0.5,
+  adha: 0.5,
+  aadha: 0.5,
+  'ଅଧା': 0.5,
+  sawa: 1.25,
+  dedh: 1.5,
+  derh: 1.5,
+  'ଦେଢ଼': 1.5,
+  'ଦେ\u0B5D': 1.5, // the same word with ଢ଼ as one character
+  adhai: 2.5,
+  dhai: 2.5,
+  'ଅଢ଼େଇ': 2.5,
+  'ଅ\u0B5Dେଇ': 2.5,
+};
+
+const WORDS: Record<string, Token> = {
+  ...Object.fromEntries(Object.entries(UNIT_ALIASES).map(([word, unit]) => [word, { type: 'unit' as const, unit }])),
+  ...Object.fromEntries(Object.entries(NUMBER_WORDS).map(([word, value]) => [word, { type: 'number' as const, value }])),
+  ...Object.fromEntries(Object.entries(FRACTION_WORDS).map(([word, value]) => [word, { type: 'fraction' as const, value }])),
+};
+
+// "1 kilo 250" means 250 g: a bare number after a unit is in the next one down
+const SMALLER_UNITS: Partial<Record<Unit, Unit>> = {
+  quintal: 'kg',
+  kg: 'g',
+  l: 'ml',
+  dozen: 'piece',
+};
+
+const OPERATORS: Record<string, '+' | '-' | '*' | '/'> = {
+  '+': '+',
+  '-': '-',
+  '−': '-',
+  '*': '*',
+  '×': '*',
+  '/': '/',
+  '÷': '/',
+};
+
+const NUMBER_PATTERN = /^(\d+\.?\d*|\.\d+)/;
+// Latin letters, or Odia letters and signs (but not Odia digits)
+const WORD_PATTERN = /^[a-z\u0B00-\u0B65\u0B70-\u0B7F]+/i;
+const ODIA_ZERO = 0x0b66;
+const ODIA_DIGITS = /[\u0B66-\u0B6F]/g;
+
+// Thrown inside the parser and turned back into a result at the top
+class ExpressionFailure {
+  constructor(readonly result: ExpressionResult) {}
+}
+
+const fail = (error: ExpressionError): never => {
+  throw new ExpressionFailure({ status: 'error', error });
+};
+
+const incomplete = (): never => {
+  throw new ExpressionFailure({ status: 'incomplete' });
+};
+
+const tokenize = (text: string): Token[] => {
+  const tokens: Token[] = [];
+  let rest = text
+    .replace(ODIA_DIGITS, digit => String(digit.charCodeAt(0) - ODIA_ZERO))
+    .trim();
+  while (rest) {
+    const number = NUMBER_PATTERN.exec(rest);
+    const word = WORD_PATTERN.exec(rest);
+    const char = rest[0];
+    if (number) {
+      tokens.push({ type: 'number', value: parseFloat(number[0]) });
+      rest = rest.slice(number[0].length);
+    } else if (word) {
+      const name = word[0].toLowerCase();
+      const token = WORDS[name];
+      if (!token) {
+        // "500 k" on the way to "500 kg"
+        const isTyping = word[0].length === rest.length && Object.keys(WORDS).some(known => known.startsWith(name));
+        return isTyping ? incomplete() : fail('unknownUnit');
+      }
+      tokens.push(token);
+      rest = rest.slice(word[0].length);
+    } else if (OPERATORS[char]) {
+      tokens.push({ type: 'operator', operator: OPERATORS[char] });
+      rest = rest.slice(1);
+    } else if (char === '(' || char === ')') {
+      tokens.push({ type: char === '(' ? 'open' : 'close' });
+      rest = rest.slice(1);
+    } else if (/\s/.test(char)) {
+      rest = rest.slice(1);
+    } else {
+      fail('invalidCharacter');
+    }
+  }
+  return tokens;
+};
+
+/**
+ * Recursive descent over the tokens: sums of products of signed terms.
+ * `target` is the unit quantities are entered in, or null for amounts.
+ */
+const parse = (tokens: Token[], target: Unit | null): number => {
+  let position = 0;
+
+  const peek = (): Token | undefined => tokens[position];
+
+  const peekOperator = (...operators: string[]): boolean => {
+    const token = peek();
+    return token?.type === 'operator' && operators.includes(token.operator);
+  };
+
+  const withUnit = (value: number, unit: Unit): number => {
+    if (!target) return fail('unitNotAllowed');
+    if (getUnitDimension(unit) !== getUnitDimension(target) || (unit !== target && getUnitDimension(unit) === 'pack')) {
+      return fail('incompatibleUnit');
+    }
+    return convertQuantity(value, unit, target);
+  };
+
+  const startsReading = (token: Token | undefined): boolean =>
+    token?.type === 'number' || token?.type === 'fraction';
+
+  // Fractions without a unit are of a kilo or a litre, as they're said
+  const colloquialUnit = (): Unit => {
+    if (!target) return fail('unitNotAllowed');
+    const dimension = getUnitDimension(target);
+    return dimension === 'mass' ? 'kg' : dimension === 'volume' ? 'l' : target;
+  };
+
+  // A count, any fractions and a unit: "2", "250 g", "ek pao", "dedh kilo"
+  const reading = (): { value: number; unit: Unit | null } => {
+    let value = 1;
+    let hasFraction = false;
+    const count = peek();
+    if (count?.type === 'number') {
+      value = count.value;
+      position++;
+    }
+    for (let token = peek(); token?.type === 'fraction'; token = peek()) {
+      value *= token.value;
+      hasFraction = true;
+      position++;
+    }
+    const unit = peek();
+    if (unit?.type === 'unit') {
+      position++;
+      return { value, unit: unit.unit };
+    }
+    return { value, unit: hasFraction ? colloquialUnit() : null };
+  };
+
+  // Readings side by side add up: "1 kg 250 g", "1 kilo 250", "1 kg 2 pao"
+  const quantity = (): number => {
+    let total = 0;
+    let lastUnit: Unit | null = null;
+    do {
+      const { value, unit } = reading();
+      if (!unit && !lastUnit) return value;
+      if (!unit) {
+        const smaller = lastUnit && SMALLER_UNITS[lastUnit];
+        return smaller ? total + withUnit(value, smaller) : fail('invalidExpression');
+      }
+      total += withUnit(value, unit);
+      lastUnit = unit;
+    } while (startsReading(peek()));
+    return total;
+  };
+
+  const primary = (): number => {
+    if (startsReading(peek())) return quantity();
+    const token = tokens[position++];
+    if (!token) return incomplete();
+    if (token.type === 'open') {
+      const value = sum();
+      const close = tokens[position++];
+      if (!close) return incomplete();
+      return close.type === 'close' ? value : fail('invalidExpression');
+    }
+    return fail('invalidExpression');
+  };
+
+  const signed = (): number => {
+    if (peekOperator('-', '+')) {
+      const token = tokens[position++] as Extract<Token, { type: 'operator' }>;
+      const value = signed();
+      return token.operator === '-' ? -value : value;
+    }
+    return primary();
+  };
+
+  const product = (): number => {
+    let value = signed();
+    while (peekOperator('*', '/')) {
+      const token = tokens[position++] as Extract<Token, { type: 'operator' }>;
+      const right = signed();
+      if (token.operator === '/') {
+        if (right === 0) fail('divideByZero');
+        value /= right;
+      } else {
+        value *= right;
+      }
+    }
+    return value;
+  };
+
+  const sum = (): number => {
+    let value = product();
+    while (peekOperator('+', '-')) {
+      const token = tokens[position++] as Extract<Token, { type: 'operator' }>;
+      const right = product();
+      value = token.operator === '+' ? value + right : value - right;
+    }
+    return value;
+  };
+
+  const value = sum();
+  if (position < tokens.length) fail('invalidExpression');
+  return value;
+};
+
+// Drop float noise such as 1.1 + 2.2 = 3.3000000000000003
+const tidy = (value: number): number => parseFloat(value.toPrecision(12));
+
+/**
+ * Evaluate calculator input. Quantities are returned in `unit`; pass null
+ * when an amount of money is being entered, where units make no sense.
+ */
+export const evaluateInput = (text: string, unit: Unit | null): ExpressionResult => {
+  if (!text.trim()) return { status: 'empty' };
+  try {
+    const tokens = tokenize(text);
+    const value = tidy(parse(tokens, unit));
+    const isExpression = tokens.length > 1 || tokens[0].type !== 'number';
+    return { status: 'value', value, isExpression };
+  } catch (error) {
+    if (error instanceof ExpressionFailure) return error.result;
+    throw error;
+  }
+};
+
+/**
+ * The number typed, or NaN while there isn't one
+ */
+export const inputValueOf = (result: ExpressionResult): number =>
+  result.status === 'value' ? result.value : NaN;
@@ -0,0 +1,87 @@
+import { Share } from 'react-native';
+import { File, Paths } from 'expo-file-system';
+import * as Sharing from 'expo-sharing';
+import * as DocumentPicker from 'expo-document-picker';
+import * as Print from 'expo-print';
+
+// ==================== SHARE ====================
+
+/**
+ * Write text content to a cache file and open the native share sheet for it.
+ * Returns false when sharing is not available on this platform.
+ */
+export const shareTextFile = async (
+  fileName: string,
+  content: string,
+  mimeType: string,
+  dialogTitle?: string
+): Promise<boolean> => {
+  if (!(await Sharing.isAvailableAsync())) {
+    return false;
+  }
+
+  const file = new File(Paths.cache, fileName);
+  if (file.exists) {
+    file.delete();
+  }
+  file.create();
+  file.write(content);
+
+  await Sharing.shareAsync(file.uri, { mimeType, dialogTitle });
+  return true;
+};
+
+/**
+ * Open the native share sheet with a message, e.g. to send it on WhatsApp
+ */
+export const shareText = async (message: string, title?: string): Promise<void> => {
+  await Share.share({ message, title });
+};
+
+/**
+ * Render HTML to a PDF and open the native share sheet for it.
+ * Returns false when sharing is not available on this platform.
+ */
+export const sharePdf = async (html: string, dialogTitle?: string): Promise<boolean> => {
+  if (!(await Sharing.isAvailableAsync())) {
+    return false;
+  }
+
+  const { uri } = await Print.printToFileAsync({ html });
+  await Sharing.shareAsync(uri, { mimeType: 'application/pdf', UTI: 'com.adobe.pdf', dialogTitle });
+  return true;
+};
+
+// ==================== PRINT ====================
+
+/**
+ * Open the system print dialog for an HTML document
+ */
+export const printHtml = async (html: string): Promise<void> => {
+  await Print.printAsync({ html });
+};
+
+// ==================== PICK ====================
+
+/**
+ * Open the document picker and read the chosen file as text.
+ * Resolves to null when the user cancels.
+ */
+export const pickTextFile = async (mimeTypes: string[]): Promise<string | null> => {
+  const result = await DocumentPicker.getDocumentAsync({
+    type: mimeTypes,
+    copyToCacheDirectory: true,
+  });
+
+  if (result.canceled || result.assets.length === 0) {
+    return null;
+  }
+
+  return new File(result.assets[0].uri).text();
+};
+
+// File names like "price-calculator-backup-2024-05-31.json"
+export const datedFileName = (prefix: string, extension: string): string => {
+  const date = new Date().toISOString().slice(0, 10);
+  return `${prefix}-${date}.${extension}`;
+};
@@ -0,0 +1,35 @@
+import { calculateCost, fromPaise, toPaise } from '@/utils/money';
+
+/**
+ * Profit as a share of the selling price, e.g. cost ₹80, price ₹100 → 20%
+ */
+export const marginPercent = (cost: number, price: number): number =>
+  price > 0 ? ((price - cost) / price) * 100 : 0;
+
+/**
+ * Profit as a share of the cost, e.g. cost ₹80, price ₹100 → 25%
+ */
+export const markupPercent = (cost: number, price: number): number =>
+  cost > 0 ? ((price - cost) / cost) * 100 : 0;
+
+export const isValidMargin = (margin: number): boolean =>
+  Number.isFinite(margin) && margin >= 0 && margin < 100;
+
+/**
+ * Selling price that earns `margin` % of itself over `cost`, to the paisa,
+ * or null for a margin of 100% or more
+ */
+export const priceFromMargin = (cost: number, margin: number): number | null =>
+  isValidMargin(margin) ? fromPaise(Math.round(toPaise(cost) / (1 - margin / 100))) : null;
+
+/**
+ * Profit on `quantity` units sold for `revenue` (before tax) at `cost` per unit
+ */
+export const profitFor = (cost: number, quantity: number, revenue: number): number =>
+  fromPaise(toPaise(revenue) - toPaise(calculateCost(cost, quantity)));
+
+/**
+ * Percentages shown to one decimal place, e.g. 14.3
+ */
+export const formatPercentage = (value: number): string =>
+  (Math.round(value * 10) / 10).toString();
@@ -0,0 +1,187 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { STORAGE_KEYS } from '@/utils/repositories/asyncStorage';
+
+const SCHEMA_VERSION_KEY = '@price_calculator_schema_version';
+const MIGRATION_BACKUP_KEY = '@price_calculator_migration_backup';
+
+// Parsed contents of every versioned storage key. A null value means the
+// key has never been written (fresh install) and is left untouched.
+export interface StorageSnapshot {
+  items: any[] | null;
+  calculations: any[] | null;
+  recentItems: any[] | null;
+}
+
+interface Migration {
+  version: number;
+  description: string;
+  migrate: (snapshot: StorageSnapshot) => StorageSnapshot;
+}
+
+interface MigrationBackup {
+  version: number;
+  createdAt: number;
+  values: [string, string | null][];
+}
+
+export type MigrationResult =
+  | { status: 'upToDate'; version: number }
+  | { status: 'migrated'; from: number; to: number }
+  | { status: 'failed'; version: number; error: unknown };
+
+const isObject = (value: unknown): value is Record<string, any> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// ==================== MIGRATIONS ====================
+
+// Ordered list of schema upgrades. Each migration is a pure transform of the
+// previous version's data; append new ones, never edit a released one.
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: 'Default item favorites and categories; drop malformed history and recent entries',
+    migrate: snapshot => ({
+      items: snapshot.items && snapshot.items
+        .filter(item => isObject(item) && typeof item.id === 'string')
+        .map(item => ({
+          id: item.id,
+          name: item.name,
+          pricePerKg: item.pricePerKg,
+          isFavorite: item.isFavorite ?? false,
+          category: item.category ?? 'other',
+          lastUsed: item.lastUsed ?? undefined,
+        })),
+      calculations: snapshot.calculations && snapshot.calculations
+        .filter(calculation => isObject(calculation) && typeof calculation.id === 'string'),
+      recentItems: snapshot.recentItems && snapshot.recentItems
+        .filter(id => typeof id === 'string'),
+    }),
+  },
+  {
+    version: 2,
+    description: 'Items and calculations were priced per kg before units existed',
+    migrate: snapshot => ({
+      ...snapshot,
+      items: snapshot.items && snapshot.items.map(item => ({ ...item, unit: item.unit ?? 'kg' })),
+      calculations: snapshot.calculations && snapshot.calculations
+        .map(calculation => ({ ...calculation, unit: calculation.unit ?? 'kg' })),
+    }),
+  },
+];
+
+export const CURRENT_SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+/**
+ * Upgrade a snapshot written at `fromVersion` to the current schema
+ */
+export const migrateSnapshot = (snapshot: StorageSnapshot, fromVersion: number): StorageSnapshot =>
+  MIGRATIONS
+    .filter(migration => migration.version > fromVersion)
+    .reduce((current, migration) => migration.migrate(current), snapshot);
+
+// ==================== RUNNER ====================
+
+const SNAPSHOT_KEYS: [keyof StorageSnapshot, string][] = [
+  ['items', STORAGE_KEYS.items],
+  ['calculations', STORAGE_KEYS.calculations],
+  ['recentItems', STORAGE_KEYS.recentItems],
+];
+
+const getStoredVersion = async (): Promise<number> => {
+  const value = await AsyncStorage.getItem(SCHEMA_VERSION_KEY);
+  return value === null ? 0 : parseInt(value, 10);
+};
+
+// A value that isn't a list is corrupt; failing keeps it rather than wiping it
+const parseSnapshotValue = (key: string, value: string | null): any[] | null => {
+  if (value === null) return null;
+  const parsed = JSON.parse(value);
+  if (!Array.isArray(parsed)) {
+    throw new Error(`Stored value of ${key} is not a list`);
+  }
+  return parsed;
+};
+
+const getMigrationBackup = async (): Promise<MigrationBackup | null> => {
+  const jsonValue = await AsyncStorage.getItem(MIGRATION_BACKUP_KEY);
+  return jsonValue == null ? null : JSON.parse(jsonValue);
+};
+
+/**
+ * Bring stored data up to the current schema. Runs once at startup.
+ *
+ * All migrations are applied in memory and written back in a single
+ * multiSet together with the new version, so a failure leaves the old data
+ * and version in place and the upgrade is retried on the next launch. The
+ * raw pre-migration values are kept under a backup key, which the failure
+ * dialog at startup can put back with restoreMigrationBackup.
+ */
+export const runMigrations = async (): Promise<MigrationResult> => {
+  let fromVersion = 0;
+  try {
+    fromVersion = await getStoredVersion();
+    if (fromVersion >= CURRENT_SCHEMA_VERSION) {
+      return { status: 'upToDate', version: fromVersion };
+    }
+
+    const rawValues = await AsyncStorage.multiGet(SNAPSHOT_KEYS.map(([, key]) => key));
+    const rawByKey = new Map(rawValues);
+
+    const snapshot = {} as StorageSnapshot;
+    SNAPSHOT_KEYS.forEach(([field, key]) => {
+      snapshot[field] = parseSnapshotValue(key, rawByKey.get(key) ?? null);
+    });
+
+    const migrated = migrateSnapshot(snapshot, fromVersion);
+
+    // A retry keeps the backup of the first attempt, which may be all that
+    // is left of the original data if that attempt was cut short
+    const existingBackup = await getMigrationBackup();
+    if (existingBackup?.version !== fromVersion) {
+      const backup: MigrationBackup = {
+        version: fromVersion,
+        createdAt: Date.now(),
+        values: rawValues.map(([key, value]) => [key, value]),
+      };
+      await AsyncStorage.setItem(MIGRATION_BACKUP_KEY, JSON.stringify(backup));
+    }
+
+    const writes: [string, string][] = [[SCHEMA_VERSION_KEY, CURRENT_SCHEMA_VERSION.toString()]];
+    SNAPSHOT_KEYS.forEach(([field, key]) => {
+      const value = migrated[field];
+      if (value !== null) {
+        writes.push([key, JSON.stringify(value)]);
+      }
+    });
+    await AsyncStorage.multiSet(writes);
+
+    return { status: 'migrated', from: fromVersion, to: CURRENT_SCHEMA_VERSION };
+  } catch (error) {
+    console.error(`Error migrating storage from version ${fromVersion}:`, error);
+    return { status: 'failed', version: fromVersion, error };
+  }
+};
+
+/**
+ * Put back the data exactly as it was before the last migration run.
+ * The next runMigrations call will upgrade it again.
+ */
+export const restoreMigrationBackup = async (): Promise<boolean> => {
+  try {
+    const backup = await getMigrationBackup();
+    if (backup === null) return false;
+
+    const restored = backup.values.filter((entry): entry is [string, string] => entry[1] !== null);
+    const removed = backup.values.filter(([, value]) => value === null).map(([key]) => key);
+
+    await AsyncStorage.multiRemove(removed);
+    await AsyncStorage.multiSet([
+      ...restored,
+      [SCHEMA_VERSION_KEY, backup.version.toString()],
+    ]);
+    return true;
+  } catch (error) {
+    console.error('Error restoring migration backup:', error);
+    return false;
+  }
+};
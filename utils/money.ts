@@ -0,0 +1,139 @@
+// Exact money and quantity arithmetic. Amounts are held as integer paise
+// and quantities as integer thousandths of their unit (grams for kg,
+// milligrams for g, millilitres for l), so products and sums never pick up
+// floating point artifacts such as 0.1 × 45.8 = 4.579999999999999.
+// Prices per unit are held as thousandths of a paisa: a ₹65 litre sold by
+// the ml costs ₹0.065/ml, which rounding to the paisa would make ₹0.07.
+
+import type { RoundingMode } from '@/types';
+
+export type { RoundingMode };
+
+export const PAISE_PER_RUPEE = 100;
+export const MILLI_UNITS_PER_UNIT = 1000;
+export const MILLI_PAISE_PER_RUPEE = 100000;
+
+// A unit price in milli-paise times a quantity in milli-units, per paisa
+const PRICE_PRODUCT_PER_PAISA = (MILLI_PAISE_PER_RUPEE / PAISE_PER_RUPEE) * MILLI_UNITS_PER_UNIT;
+
+// Scale a decimal to an integer without multiplying floats: 1.005 → 100.5
+// rather than 100.49999999999999. Exponent notation falls back to plain
+// multiplication, which is exact enough at those magnitudes.
+const scaleToInteger = (value: number, scale: number, mode: RoundingMode): number => {
+  const text = String(value);
+  const digits = Math.log10(scale);
+  const scaled = text.includes('e') ? value * scale : Number(`${text}e${digits}`);
+  return roundInteger(scaled, mode);
+};
+
+// 'up' and 'down' go towards plus and minus infinity; 'nearest' rounds
+// halves away from zero so -1.005 mirrors 1.005
+const roundInteger = (value: number, mode: RoundingMode): number => {
+  let rounded: number;
+  switch (mode) {
+    case 'up':
+      rounded = Math.ceil(value);
+      break;
+    case 'down':
+      rounded = Math.floor(value);
+      break;
+    default:
+      rounded = Math.sign(value) * Math.round(Math.abs(value));
+  }
+  // Never hand back -0, which formats as "-₹0.00"
+  return rounded === 0 ? 0 : rounded;
+};
+
+/**
+ * Divide two integers and round the quotient to an integer
+ */
+export const divideRounded = (
+  numerator: number,
+  denominator: number,
+  mode: RoundingMode = 'nearest'
+): number => {
+  if (denominator === 0) {
+    throw new RangeError('Division by zero');
+  }
+  return roundInteger(numerator / denominator, mode);
+};
+
+// ==================== CONVERSIONS ====================
+
+export const toPaise = (amount: number, mode: RoundingMode = 'nearest'): number =>
+  scaleToInteger(amount, PAISE_PER_RUPEE, mode);
+
+export const fromPaise = (paise: number): number => paise / PAISE_PER_RUPEE;
+
+export const toMilliUnits = (quantity: number, mode: RoundingMode = 'nearest'): number =>
+  scaleToInteger(quantity, MILLI_UNITS_PER_UNIT, mode);
+
+export const fromMilliUnits = (milliUnits: number): number => milliUnits / MILLI_UNITS_PER_UNIT;
+
+export const toMilliPaise = (price: number, mode: RoundingMode = 'nearest'): number =>
+  scaleToInteger(price, MILLI_PAISE_PER_RUPEE, mode);
+
+export const fromMilliPaise = (milliPaise: number): number => milliPaise / MILLI_PAISE_PER_RUPEE;
+
+// ==================== ARITHMETIC ====================
+
+/**
+ * Cost in paise of `milliUnits` at `priceMilliPaise` per unit
+ */
+export const costInPaise = (
+  priceMilliPaise: number,
+  milliUnits: number,
+  mode: RoundingMode = 'nearest'
+): number => divideRounded(priceMilliPaise * milliUnits, PRICE_PRODUCT_PER_PAISA, mode);
+
+/**
+ * Quantity in thousandths of a unit that `amountPaise` buys at
+ * `priceMilliPaise` per unit
+ */
+export const quantityInMilliUnits = (
+  amountPaise: number,
+  priceMilliPaise: number,
+  mode: RoundingMode = 'nearest'
+): number => divideRounded(amountPaise * PRICE_PRODUCT_PER_PAISA, priceMilliPaise, mode);
+
+/**
+ * Round an integer to a multiple of `step`; a step of 0 leaves it as is
+ */
+export const roundToStep = (value: number, step: number, mode: RoundingMode = 'nearest'): number =>
+  step > 0 ? divideRounded(value, step, mode) * step : value;
+
+export const sumPaise = (amounts: number[]): number =>
+  amounts.reduce((total, amount) => total + amount, 0);
+
+// ==================== DECIMAL HELPERS ====================
+
+/**
+ * Total price of `quantity` units at `price` per unit, rounded to the paisa
+ */
+export const calculateCost = (price: number, quantity: number): number =>
+  fromPaise(costInPaise(toMilliPaise(price), toMilliUnits(quantity)));
+
+/**
+ * Quantity `amount` buys at `price` per unit, rounded to a thousandth
+ */
+export const calculateQuantity = (amount: number, price: number): number =>
+  fromMilliUnits(quantityInMilliUnits(toPaise(amount), toMilliPaise(price)));
+
+/**
+ * Price per unit when `amount` pays for `quantity`, rounded to a thousandth
+ * of a paisa
+ */
+export const calculateRate = (amount: number, quantity: number): number =>
+  fromMilliPaise(divideRounded(toPaise(amount) * PRICE_PRODUCT_PER_PAISA, toMilliUnits(quantity)));
+
+/**
+ * Sum amounts of money without drift
+ */
+export const sumMoney = (amounts: number[]): number =>
+  fromPaise(sumPaise(amounts.map(amount => toPaise(amount))));
+
+export const roundMoney = (amount: number): number => fromPaise(toPaise(amount));
+
+export const roundUnitPrice = (price: number): number => fromMilliPaise(toMilliPaise(price));
+
+export const roundQuantity = (quantity: number): number => fromMilliUnits(toMilliUnits(quantity));
@@ -0,0 +1,72 @@
+import i18n from '@/i18n';
+import { convertQuantity, getCompatibleUnits, formatQuantity, formatQuantityValue } from '@/utils/units';
+import type { Item, PackQuote, Unit } from '@/types';
+
+// Prices within half a paisa are treated as the same
+const PRICE_TOLERANCE = 0.005;
+
+/**
+ * Price per `itemUnit` implied by a pack quote, e.g. ₹120 for 500 g → ₹240/kg
+ */
+export const packUnitPrice = (quote: PackQuote, itemUnit: Unit): number =>
+  quote.price / convertQuantity(quote.size, quote.unit, itemUnit);
+
+/**
+ * Pack size expressed in the item's unit, e.g. 500 g → 0.5 kg
+ */
+export const packSizeInUnit = (quote: PackQuote, itemUnit: Unit): number =>
+  convertQuantity(quote.size, quote.unit, itemUnit);
+
+/**
+ * Whether an item's stored price still matches its pack quote
+ */
+export const isPackQuoteCurrent = (item: Item): boolean => {
+  const { packQuote } = item;
+  if (!packQuote || !getCompatibleUnits(item.unit).includes(packQuote.unit)) return false;
+  return Math.abs(packUnitPrice(packQuote, item.unit) - item.pricePerKg) < PRICE_TOLERANCE;
+};
+
+/**
+ * Remove a pack quote the price no longer comes from, e.g. after the
+ * per-unit price was edited directly
+ */
+export const dropStalePackQuote = (item: Item): Item => {
+  if (!item.packQuote || isPackQuoteCurrent(item)) return item;
+  const { packQuote, ...rest } = item;
+  return rest;
+};
+
+export interface PackBreakdown {
+  packs: number;
+  remainder: number; // in the pack's unit
+}
+
+/**
+ * Split a quantity (in `unit`) into whole packs plus what is left over
+ */
+export const splitIntoPacks = (quantity: number, unit: Unit, quote: PackQuote): PackBreakdown => {
+  const inPackUnit = convertQuantity(quantity, unit, quote.unit);
+  // Nudge by a tiny epsilon so 1.5 kg / 500 g gives 3 packs, not 2 + 500 g
+  const packs = Math.floor(inPackUnit / quote.size + 1e-9);
+  const remainder = Math.max(0, inPackUnit - packs * quote.size);
+  return { packs, remainder };
+};
+
+/**
+ * "3 packs + 200 g", "2 packs" or "350 g"
+ */
+export const formatPackBreakdown = ({ packs, remainder }: PackBreakdown, quote: PackQuote): string => {
+  const parts: string[] = [];
+  if (packs > 0) parts.push(i18n.t('packs.count', { count: packs }));
+  // Skip leftovers too small to show at the unit's precision
+  if (parseFloat(formatQuantityValue(remainder, quote.unit)) > 0 || packs === 0) {
+    parts.push(formatQuantity(remainder, quote.unit));
+  }
+  return parts.join(' + ');
+};
+
+/**
+ * "₹120.00 / 500 g pack"
+ */
+export const formatPackQuote = (quote: PackQuote, formatPrice: (amount: number) => string): string =>
+  i18n.t('packs.quote', { price: formatPrice(quote.price), size: formatQuantity(quote.size, quote.unit) });
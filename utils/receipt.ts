@@ -0,0 +1,211 @@
+import type { Bill, CurrencySettings, Unit } from '@/types';
+import { formatMoney, localizeDigits } from '@/utils/currency';
+import { formatQuantityValue } from '@/utils/units';
+import { fromPaise, toPaise } from '@/utils/money';
+import { lineTaxesAfterOffer } from '@/utils/bill';
+
+// Receipts are rendered without touching app state, so the caller hands in
+// the translator and formatting choices for the language being printed.
+export type Translate = (key: string, options?: Record<string, unknown>) => string;
+
+export interface ReceiptOptions {
+  shopName: string;
+  currency: CurrencySettings;
+  language: string;
+  t: Translate;
+}
+
+interface ReceiptRow {
+  label: string;
+  value: string;
+}
+
+interface ReceiptLine {
+  name: string;
+  detail: string; // "2.000 kg × ₹50.00/kg"
+  amount: string;
+  notes: string[]; // offer and GST on the line
+}
+
+// Everything on a receipt, formatted and in order
+export interface Receipt {
+  shopName: string;
+  date: string;
+  number: string;
+  lines: ReceiptLine[];
+  totals: ReceiptRow[]; // subtotal, bill offer, round off and GST
+  total: ReceiptRow;
+  savings: string | null;
+}
+
+// ==================== BUILD ====================
+
+// GST collected at each rate after the bill offer, as CGST and SGST halves
+// (odd paisa to SGST)
+const taxRows = (bill: Bill, money: (amount: number) => string, t: Translate): ReceiptRow[] => {
+  const byRate = new Map<number, number>();
+  lineTaxesAfterOffer(bill.lines, bill.billDiscount).forEach((tax, index) => {
+    if (tax > 0) {
+      const { taxRate } = bill.lines[index];
+      byRate.set(taxRate, (byRate.get(taxRate) ?? 0) + toPaise(tax));
+    }
+  });
+
+  return [...byRate.entries()]
+    .sort(([a], [b]) => a - b)
+    .flatMap(([rate, taxPaise]) => {
+      const cgstPaise = Math.floor(taxPaise / 2);
+      return [
+        { label: t('receipt.cgst', { rate: rate / 2 }), value: money(fromPaise(cgstPaise)) },
+        { label: t('receipt.sgst', { rate: rate / 2 }), value: money(fromPaise(taxPaise - cgstPaise)) },
+      ];
+    });
+};
+
+/**
+ * Lay out a bill as a receipt: shop, date, lines, offers, GST and total
+ */
+export const buildReceipt = (bill: Bill, options: ReceiptOptions): Receipt => {
+  const { currency, language, t } = options;
+  const money = (amount: number) => formatMoney(amount, currency, language);
+  const quantity = (value: number, unit: Unit) =>
+    `${localizeDigits(formatQuantityValue(value, unit), language)} ${t(`units.short.${unit}`)}`;
+
+  const lines = bill.lines.map(line => ({
+    name: line.itemName,
+    detail: t('receipt.lineDetail', {
+      quantity: quantity(line.quantity, line.unit),
+      price: money(line.price),
+      unit: t(`units.short.${line.unit}`),
+    }),
+    amount: money(line.amount),
+    notes: [
+      ...(line.discount > 0 ? [t('receipt.lineOffer', { amount: money(line.discount) })] : []),
+      ...(line.tax > 0
+        ? [t('receipt.lineTax', { rate: line.taxRate, amount: money(line.tax) })]
+        : []),
+    ],
+  }));
+
+  const totals: ReceiptRow[] = [{ label: t('receipt.subtotal'), value: money(bill.subtotal) }];
+  if (bill.billDiscount) {
+    totals.push({ label: bill.billDiscount.name, value: `−${money(bill.billDiscount.amount)}` });
+  }
+  if (bill.roundOff) {
+    const sign = bill.roundOff < 0 ? '−' : '+';
+    totals.push({ label: t('receipt.roundOff'), value: `${sign}${money(Math.abs(bill.roundOff))}` });
+  }
+  totals.push(...taxRows(bill, money, t));
+
+  const saved = fromPaise(
+    bill.lines.reduce((sum, line) => sum + toPaise(line.discount), 0) +
+      toPaise(bill.billDiscount?.amount ?? 0)
+  );
+
+  return {
+    shopName: options.shopName.trim(),
+    date: new Date(bill.timestamp).toLocaleString(language, {
+      day: 'numeric',
+      month: 'short',
+      year: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit',
+    }),
+    number: localizeDigits(bill.id.slice(-6), language),
+    lines,
+    totals,
+    total: { label: t('receipt.total'), value: money(bill.total) },
+    savings: saved > 0 ? t('receipt.savings', { amount: money(saved) }) : null,
+  };
+};
+
+// ==================== TEXT ====================
+
+const RULE = '-'.repeat(24);
+
+/**
+ * Plain-text receipt for chat apps. Asterisks make WhatsApp show bold.
+ */
+export const formatReceiptText = (receipt: Receipt, t: Translate): string => {
+  const header = [
+    ...(receipt.shopName ? [`*${receipt.shopName}*`] : []),
+    receipt.date,
+    t('receipt.number', { number: receipt.number }),
+  ];
+  const lines = receipt.lines.flatMap(line => [
+    line.name,
+    `  ${line.detail} = ${line.amount}`,
+    ...line.notes.map(note => `  ${note}`),
+  ]);
+  const totals = receipt.totals.map(row => `${row.label}: ${row.value}`);
+
+  return [
+    ...header,
+    RULE,
+    ...lines,
+    RULE,
+    ...totals,
+    `*${receipt.total.label}: ${receipt.total.value}*`,
+    ...(receipt.savings ? [receipt.savings] : []),
+    '',
+    t('receipt.thanks'),
+  ].join('\n');
+};
+
+// ==================== HTML ====================
+
+const escapeHtml = (text: string): string =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+const htmlRow = (row: ReceiptRow, className = ''): string =>
+  `<tr class="${className}"><td>${escapeHtml(row.label)}</td><td class="right">${escapeHtml(row.value)}</td></tr>`;
+
+/**
+ * Printable receipt, sized for narrow thermal paper as well as A4
+ */
+export const formatReceiptHtml = (receipt: Receipt, t: Translate, language: string): string => {
+  const lines = receipt.lines
+    .map(line => {
+      const notes = line.notes.map(note => `<div class="note">${escapeHtml(note)}</div>`).join('');
+      return (
+        `<tr><td><div class="item">${escapeHtml(line.name)}</div>` +
+        `<div class="note">${escapeHtml(line.detail)}</div>${notes}</td>` +
+        `<td class="right">${escapeHtml(line.amount)}</td></tr>`
+      );
+    })
+    .join('');
+
+  return `<!DOCTYPE html>
+<html lang="${escapeHtml(language)}">
+<head>
+<meta charset="utf-8" />
+<meta name="viewport" content="width=device-width, initial-scale=1" />
+<style>
+  body { font-family: -apple-system, Roboto, "Noto Sans Oriya", sans-serif; color: #111827; max-width: 380px; margin: 0 auto; padding: 16px; }
+  h1 { font-size: 20px; text-align: center; margin: 0 0 4px; }
+  .meta { text-align: center; font-size: 12px; color: #6B7280; }
+  table { width: 100%; border-collapse: collapse; margin-top: 12px; }
+  td { padding: 4px 0; vertical-align: top; font-size: 13px; }
+  .right { text-align: right; white-space: nowrap; padding-left: 12px; }
+  .item { font-weight: 600; }
+  .note { font-size: 11px; color: #6B7280; }
+  .lines td { border-bottom: 1px dashed #D1D5DB; }
+  .total td { font-size: 16px; font-weight: 800; border-top: 2px solid #111827; padding-top: 8px; }
+  .savings, .thanks { text-align: center; font-size: 12px; margin-top: 12px; }
+</style>
+</head>
+<body>
+${receipt.shopName ? `<h1>${escapeHtml(receipt.shopName)}</h1>` : ''}
+<div class="meta">${escapeHtml(receipt.date)}</div>
+<div class="meta">${escapeHtml(t('receipt.number', { number: receipt.number }))}</div>
+<table class="lines">${lines}</table>
+<table>${receipt.totals.map(row => htmlRow(row)).join('')}${htmlRow(receipt.total, 'total')}</table>
+${receipt.savings ? `<div class="savings">${escapeHtml(receipt.savings)}</div>` : ''}
+<div class="thanks">${escapeHtml(t('receipt.thanks'))}</div>
+</body>
+</html>`;
+};
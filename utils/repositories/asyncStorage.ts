@@ -0,0 +1,34 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { StorageBackend } from './types';
+import { createJsonBackend, JsonStore } from './jsonStore';
+
+// Keys whose data shape is versioned by utils/migrations.ts
+export const STORAGE_KEYS = {
+  items: '@price_calculator_items',
+  calculations: '@price_calculator_calculations',
+  recentItems: '@price_calculator_recent_items',
+} as const;
+
+const PRICE_HISTORY_KEY = '@price_calculator_price_history';
+const DISCOUNTS_KEY = '@price_calculator_discounts';
+const BILLS_KEY = '@price_calculator_bills';
+
+const asyncStorageStore: JsonStore = {
+  read: async key => {
+    const jsonValue = await AsyncStorage.getItem(key);
+    return jsonValue != null ? JSON.parse(jsonValue) : null;
+  },
+  write: (key, value) => AsyncStorage.setItem(key, JSON.stringify(value)),
+  remove: key => AsyncStorage.removeItem(key),
+};
+
+/**
+ * The original storage format: one JSON blob per collection in AsyncStorage
+ */
+export const createAsyncStorageBackend = (): StorageBackend =>
+  createJsonBackend('asyncStorage', asyncStorageStore, {
+    ...STORAGE_KEYS,
+    priceHistory: PRICE_HISTORY_KEY,
+    discounts: DISCOUNTS_KEY,
+    bills: BILLS_KEY,
+  });
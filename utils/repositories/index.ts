@@ -0,0 +1,48 @@
+import { Platform } from 'react-native';
+import Constants from 'expo-constants';
+import { StorageBackend, StorageBackendName } from './types';
+import { createAsyncStorageBackend } from './asyncStorage';
+import { createSqliteBackend } from './sqlite';
+
+export type {
+  StorageBackend,
+  StorageBackendName,
+  ItemRepository,
+  CalculationRepository,
+  RecentItemRepository,
+  PriceHistoryRepository,
+  DiscountRepository,
+  BillRepository,
+} from './types';
+export { createAsyncStorageBackend } from './asyncStorage';
+export { createSqliteBackend } from './sqlite';
+export { createMemoryBackend } from './memory';
+
+// Picked with `expo.extra.storageBackend` in app.json. SQLite is native only;
+// web always uses AsyncStorage.
+const configuredBackend = (): StorageBackendName => {
+  const name = Constants.expoConfig?.extra?.storageBackend;
+  return name === 'sqlite' && Platform.OS !== 'web' ? 'sqlite' : 'asyncStorage';
+};
+
+const createDefaultBackend = (): StorageBackend =>
+  configuredBackend() === 'sqlite'
+    // Existing AsyncStorage data is copied over the first time
+    ? createSqliteBackend({ importFrom: createAsyncStorageBackend() })
+    : createAsyncStorageBackend();
+
+let activeBackend: StorageBackend | null = null;
+
+export const getStorageBackend = (): StorageBackend => {
+  if (!activeBackend) {
+    activeBackend = createDefaultBackend();
+  }
+  return activeBackend;
+};
+
+/**
+ * Swap the backend used by utils/storage.ts, e.g. a memory backend in tests
+ */
+export const setStorageBackend = (backend: StorageBackend): void => {
+  activeBackend = backend;
+};
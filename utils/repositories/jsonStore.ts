@@ -0,0 +1,136 @@
+import { Item, Calculation, PriceChange, Discount, Bill } from '@/types';
+import {
+  StorageBackend,
+  StorageBackendName,
+  ItemRepository,
+  CalculationRepository,
+  RecentItemRepository,
+  PriceHistoryRepository,
+  DiscountRepository,
+  BillRepository,
+} from './types';
+
+// Key-value store holding each collection as one JSON document
+export interface JsonStore {
+  read<T>(key: string): Promise<T | null>;
+  write<T>(key: string, value: T): Promise<void>;
+  remove(key: string): Promise<void>;
+}
+
+export interface JsonStoreKeys {
+  items: string;
+  calculations: string;
+  recentItems: string;
+  priceHistory: string;
+  discounts: string;
+  bills: string;
+}
+
+const createItemRepository = (store: JsonStore, key: string): ItemRepository => {
+  const load = async () => (await store.read<Item[]>(key)) ?? [];
+
+  return {
+    isInitialized: async () => (await store.read<Item[]>(key)) !== null,
+    getAll: load,
+    getById: async id => (await load()).find(item => item.id === id) ?? null,
+    getByIds: async ids => {
+      const byId = new Map((await load()).map(item => [item.id, item]));
+      return ids.flatMap(id => byId.get(id) ?? []);
+    },
+    getFavorites: async () => (await load()).filter(item => item.isFavorite),
+    getByCategory: async category => (await load()).filter(item => item.category === category),
+    insert: async item => {
+      await store.write(key, [...(await load()), item]);
+    },
+    update: async (id, updates) => {
+      const items = await load();
+      const index = items.findIndex(item => item.id === id);
+      if (index === -1) return null;
+
+      const updated = { ...items[index], ...updates, id };
+      items[index] = updated;
+      await store.write(key, items);
+      return updated;
+    },
+    remove: async id => {
+      await store.write(key, (await load()).filter(item => item.id !== id));
+    },
+    replaceAll: items => store.write(key, items),
+  };
+};
+
+const createCalculationRepository = (store: JsonStore, key: string): CalculationRepository => {
+  const load = async () => (await store.read<Calculation[]>(key)) ?? [];
+
+  return {
+    getAll: load,
+    getByItem: async itemId => (await load()).filter(calculation => calculation.itemId === itemId),
+    add: async (calculation, limit) => {
+      const calculations = await load();
+      await store.write(key, [calculation, ...calculations].slice(0, limit));
+    },
+    replaceAll: calculations => store.write(key, calculations),
+    clear: () => store.remove(key),
+  };
+};
+
+const createRecentItemRepository = (store: JsonStore, key: string): RecentItemRepository => {
+  const load = async () => (await store.read<string[]>(key)) ?? [];
+
+  return {
+    getIds: load,
+    touch: async (itemId, limit) => {
+      const filtered = (await load()).filter(id => id !== itemId);
+      await store.write(key, [itemId, ...filtered].slice(0, limit));
+    },
+    replaceAll: itemIds => store.write(key, itemIds),
+  };
+};
+
+const createPriceHistoryRepository = (store: JsonStore, key: string): PriceHistoryRepository => {
+  const load = async () => (await store.read<PriceChange[]>(key)) ?? [];
+
+  return {
+    getAll: load,
+    getByItem: async itemId => (await load()).filter(change => change.itemId === itemId),
+    add: async change => {
+      await store.write(key, [change, ...(await load())]);
+    },
+    replaceAll: changes => store.write(key, changes),
+  };
+};
+
+const createDiscountRepository = (store: JsonStore, key: string): DiscountRepository => ({
+  getAll: async () => (await store.read<Discount[]>(key)) ?? [],
+  replaceAll: discounts => store.write(key, discounts),
+});
+
+const createBillRepository = (store: JsonStore, key: string): BillRepository => {
+  const load = async () => (await store.read<Bill[]>(key)) ?? [];
+
+  return {
+    getAll: load,
+    add: async (bill, limit) => {
+      await store.write(key, [bill, ...(await load())].slice(0, limit));
+    },
+    replaceAll: bills => store.write(key, bills),
+  };
+};
+
+/**
+ * Build repositories over a document store. Every read loads the whole
+ * collection, which is fine for small catalogs but does not scale.
+ */
+export const createJsonBackend = (
+  name: StorageBackendName,
+  store: JsonStore,
+  keys: JsonStoreKeys
+): StorageBackend => ({
+  name,
+  items: createItemRepository(store, keys.items),
+  calculations: createCalculationRepository(store, keys.calculations),
+  recentItems: createRecentItemRepository(store, keys.recentItems),
+  priceHistory: createPriceHistoryRepository(store, keys.priceHistory),
+  discounts: createDiscountRepository(store, keys.discounts),
+  bills: createBillRepository(store, keys.bills),
+});
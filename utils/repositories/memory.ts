@@ -0,0 +1,32 @@
+import { StorageBackend } from './types';
+import { createJsonBackend, JsonStore } from './jsonStore';
+
+/**
+ * Non-persistent backend for tests and previews. Values are copied on the
+ * way in and out so callers can't mutate stored data by reference.
+ */
+export const createMemoryBackend = (): StorageBackend => {
+  const values = new Map<string, string>();
+
+  const store: JsonStore = {
+    read: async key => {
+      const jsonValue = values.get(key);
+      return jsonValue !== undefined ? JSON.parse(jsonValue) : null;
+    },
+    write: async (key, value) => {
+      values.set(key, JSON.stringify(value));
+    },
+    remove: async key => {
+      values.delete(key);
+    },
+  };
+
+  return createJsonBackend('memory', store, {
+    items: 'items',
+    calculations: 'calculations',
+    recentItems: 'recentItems',
+    priceHistory: 'priceHistory',
+    discounts: 'discounts',
+    bills: 'bills',
+  });
+};
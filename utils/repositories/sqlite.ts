@@ -0,0 +1,437 @@
+import * as SQLite from 'expo-sqlite';
+import { Item, Calculation, PriceChange, Discount, Bill } from '@/types';
+import { CURRENT_SCHEMA_VERSION, migrateSnapshot } from '@/utils/migrations';
+import {
+  StorageBackend,
+  ItemRepository,
+  CalculationRepository,
+  RecentItemRepository,
+  PriceHistoryRepository,
+  DiscountRepository,
+  BillRepository,
+} from './types';
+
+const DATABASE_NAME = 'price_calculator.db';
+
+// Table layout, applied in order and tracked with PRAGMA user_version.
+// Records are stored whole in `data`; the other columns exist for indexing.
+const TABLE_MIGRATIONS = [
+  `
+  CREATE TABLE meta (key TEXT PRIMARY KEY NOT NULL, value TEXT NOT NULL);
+  CREATE TABLE items (
+    id TEXT PRIMARY KEY NOT NULL,
+    position INTEGER NOT NULL,
+    name TEXT NOT NULL,
+    category TEXT NOT NULL,
+    is_favorite INTEGER NOT NULL,
+    last_used INTEGER,
+    data TEXT NOT NULL
+  );
+  CREATE INDEX items_position ON items (position);
+  CREATE INDEX items_category ON items (category, position);
+  CREATE INDEX items_favorite ON items (is_favorite, position);
+  CREATE TABLE calculations (
+    id TEXT PRIMARY KEY NOT NULL,
+    item_id TEXT NOT NULL,
+    timestamp INTEGER NOT NULL,
+    data TEXT NOT NULL
+  );
+  CREATE INDEX calculations_timestamp ON calculations (timestamp DESC);
+  CREATE INDEX calculations_item ON calculations (item_id, timestamp DESC);
+  CREATE TABLE recent_items (item_id TEXT PRIMARY KEY NOT NULL, rank INTEGER NOT NULL);
+  CREATE INDEX recent_items_rank ON recent_items (rank DESC);
+  `,
+  `
+  CREATE TABLE price_changes (
+    id TEXT PRIMARY KEY NOT NULL,
+    item_id TEXT NOT NULL,
+    timestamp INTEGER NOT NULL,
+    data TEXT NOT NULL
+  );
+  CREATE INDEX price_changes_item ON price_changes (item_id, timestamp DESC);
+  `,
+  `
+  CREATE TABLE discounts (
+    id TEXT PRIMARY KEY NOT NULL,
+    position INTEGER NOT NULL,
+    data TEXT NOT NULL
+  );
+  `,
+  `
+  CREATE TABLE bills (
+    id TEXT PRIMARY KEY NOT NULL,
+    timestamp INTEGER NOT NULL,
+    data TEXT NOT NULL
+  );
+  CREATE INDEX bills_timestamp ON bills (timestamp DESC);
+  `,
+];
+
+// meta keys
+const ITEMS_INITIALIZED = 'itemsInitialized';
+const DATA_VERSION = 'dataVersion';
+const IMPORTED = 'imported';
+
+interface DataRow {
+  data: string;
+}
+
+export interface SqliteBackendOptions {
+  databaseName?: string;
+  // Copied into the database once, e.g. the AsyncStorage data. Until a copy
+  // has completed it is retried every time the database is opened.
+  importFrom?: StorageBackend;
+}
+
+const parseRows = <T>(rows: DataRow[]): T[] => rows.map(row => JSON.parse(row.data));
+
+const placeholders = (count: number) => new Array(count).fill('?').join(', ');
+
+const setMeta = (db: SQLite.SQLiteDatabase, key: string, value: string) =>
+  db.runAsync('INSERT OR REPLACE INTO meta (key, value) VALUES (?, ?)', key, value);
+
+const getMeta = async (db: SQLite.SQLiteDatabase, key: string) =>
+  (await db.getFirstAsync<{ value: string }>('SELECT value FROM meta WHERE key = ?', key))?.value ?? null;
+
+const writeItem = (db: SQLite.SQLiteDatabase, item: Item, position: number) =>
+  db.runAsync(
+    `INSERT OR REPLACE INTO items (id, position, name, category, is_favorite, last_used, data)
+     VALUES (?, ?, ?, ?, ?, ?, ?)`,
+    item.id,
+    position,
+    item.name,
+    item.category,
+    item.isFavorite ? 1 : 0,
+    item.lastUsed ?? null,
+    JSON.stringify(item)
+  );
+
+const writeCalculation = (db: SQLite.SQLiteDatabase, calculation: Calculation) =>
+  db.runAsync(
+    'INSERT OR REPLACE INTO calculations (id, item_id, timestamp, data) VALUES (?, ?, ?, ?)',
+    calculation.id,
+    calculation.itemId,
+    calculation.timestamp,
+    JSON.stringify(calculation)
+  );
+
+const writePriceChange = (db: SQLite.SQLiteDatabase, change: PriceChange) =>
+  db.runAsync(
+    'INSERT OR REPLACE INTO price_changes (id, item_id, timestamp, data) VALUES (?, ?, ?, ?)',
+    change.id,
+    change.itemId,
+    change.timestamp,
+    JSON.stringify(change)
+  );
+
+const writeBill = (db: SQLite.SQLiteDatabase, bill: Bill) =>
+  db.runAsync(
+    'INSERT OR REPLACE INTO bills (id, timestamp, data) VALUES (?, ?, ?)',
+    bill.id,
+    bill.timestamp,
+    JSON.stringify(bill)
+  );
+
+const replaceItems = async (db: SQLite.SQLiteDatabase, items: Item[]) => {
+  await db.runAsync('DELETE FROM items');
+  for (const [index, item] of items.entries()) {
+    await writeItem(db, item, index);
+  }
+  await setMeta(db, ITEMS_INITIALIZED, '1');
+};
+
+const replaceCalculations = async (db: SQLite.SQLiteDatabase, calculations: Calculation[]) => {
+  await db.runAsync('DELETE FROM calculations');
+  for (const calculation of calculations) {
+    await writeCalculation(db, calculation);
+  }
+};
+
+const replaceRecentItems = async (db: SQLite.SQLiteDatabase, itemIds: string[]) => {
+  await db.runAsync('DELETE FROM recent_items');
+  for (const [index, itemId] of itemIds.entries()) {
+    await db.runAsync('INSERT OR REPLACE INTO recent_items (item_id, rank) VALUES (?, ?)', itemId, itemIds.length - index);
+  }
+};
+
+const replacePriceHistory = async (db: SQLite.SQLiteDatabase, changes: PriceChange[]) => {
+  await db.runAsync('DELETE FROM price_changes');
+  for (const change of changes) {
+    await writePriceChange(db, change);
+  }
+};
+
+const replaceDiscounts = async (db: SQLite.SQLiteDatabase, discounts: Discount[]) => {
+  await db.runAsync('DELETE FROM discounts');
+  for (const [index, discount] of discounts.entries()) {
+    await db.runAsync(
+      'INSERT OR REPLACE INTO discounts (id, position, data) VALUES (?, ?, ?)',
+      discount.id,
+      index,
+      JSON.stringify(discount)
+    );
+  }
+};
+
+const replaceBills = async (db: SQLite.SQLiteDatabase, bills: Bill[]) => {
+  await db.runAsync('DELETE FROM bills');
+  for (const bill of bills) {
+    await writeBill(db, bill);
+  }
+};
+
+const applyTableMigrations = async (db: SQLite.SQLiteDatabase): Promise<void> => {
+  const row = await db.getFirstAsync<{ user_version: number }>('PRAGMA user_version');
+  const version = row?.user_version ?? 0;
+
+  for (let next = version; next < TABLE_MIGRATIONS.length; next++) {
+    await db.withTransactionAsync(async () => {
+      await db.execAsync(TABLE_MIGRATIONS[next]);
+      await db.execAsync(`PRAGMA user_version = ${next + 1}`);
+    });
+  }
+};
+
+// Databases set up before the imported flag existed recorded a data version
+// right after their copy finished
+const isImported = async (db: SQLite.SQLiteDatabase) =>
+  (await getMeta(db, IMPORTED)) !== null || (await getMeta(db, DATA_VERSION)) !== null;
+
+const importData = async (db: SQLite.SQLiteDatabase, source: StorageBackend) => {
+  const [initialized, items, calculations, recentItems, priceHistory, discounts, bills] = await Promise.all([
+    source.items.isInitialized(),
+    source.items.getAll(),
+    source.calculations.getAll(),
+    source.recentItems.getIds(),
+    source.priceHistory.getAll(),
+    source.discounts.getAll(),
+    source.bills.getAll(),
+  ]);
+
+  await db.withTransactionAsync(async () => {
+    if (initialized) await replaceItems(db, items);
+    await replaceCalculations(db, calculations);
+    await replaceRecentItems(db, recentItems);
+    await replacePriceHistory(db, priceHistory);
+    await replaceDiscounts(db, discounts);
+    await replaceBills(db, bills);
+    await setMeta(db, DATA_VERSION, CURRENT_SCHEMA_VERSION.toString());
+    await setMeta(db, IMPORTED, '1');
+  });
+};
+
+// Stored records go through the same data migrations as AsyncStorage
+const upgradeData = async (db: SQLite.SQLiteDatabase) => {
+  const version = parseInt((await getMeta(db, DATA_VERSION)) ?? '0', 10);
+  if (version >= CURRENT_SCHEMA_VERSION) return;
+
+  const initialized = (await getMeta(db, ITEMS_INITIALIZED)) !== null;
+  const snapshot = migrateSnapshot({
+    items: initialized ? parseRows(await db.getAllAsync<DataRow>('SELECT data FROM items ORDER BY position')) : null,
+    calculations: parseRows(await db.getAllAsync<DataRow>('SELECT data FROM calculations ORDER BY timestamp DESC')),
+    recentItems: (await db.getAllAsync<{ item_id: string }>('SELECT item_id FROM recent_items ORDER BY rank DESC'))
+      .map(row => row.item_id),
+  }, version);
+
+  await db.withTransactionAsync(async () => {
+    if (snapshot.items) await replaceItems(db, snapshot.items);
+    await replaceCalculations(db, snapshot.calculations ?? []);
+    await replaceRecentItems(db, snapshot.recentItems ?? []);
+    await setMeta(db, DATA_VERSION, CURRENT_SCHEMA_VERSION.toString());
+  });
+};
+
+const openDatabase = async (options: SqliteBackendOptions) => {
+  const db = await SQLite.openDatabaseAsync(options.databaseName ?? DATABASE_NAME);
+  await db.execAsync('PRAGMA journal_mode = WAL');
+
+  await applyTableMigrations(db);
+  if (options.importFrom && !(await isImported(db))) {
+    await importData(db, options.importFrom);
+  }
+  await upgradeData(db);
+
+  return db;
+};
+
+const createItemRepository = (getDb: () => Promise<SQLite.SQLiteDatabase>): ItemRepository => ({
+  isInitialized: async () => (await getMeta(await getDb(), ITEMS_INITIALIZED)) !== null,
+  getAll: async () =>
+    parseRows(await (await getDb()).getAllAsync<DataRow>('SELECT data FROM items ORDER BY position')),
+  getById: async id => {
+    const row = await (await getDb()).getFirstAsync<DataRow>('SELECT data FROM items WHERE id = ?', id);
+    return row ? JSON.parse(row.data) : null;
+  },
+  getByIds: async ids => {
+    if (ids.length === 0) return [];
+    const rows = await (await getDb()).getAllAsync<DataRow & { id: string }>(
+      `SELECT id, data FROM items WHERE id IN (${placeholders(ids.length)})`,
+      ids
+    );
+    const byId = new Map(rows.map(row => [row.id, JSON.parse(row.data) as Item]));
+    return ids.flatMap(id => byId.get(id) ?? []);
+  },
+  getFavorites: async () =>
+    parseRows(await (await getDb()).getAllAsync<DataRow>(
+      'SELECT data FROM items WHERE is_favorite = 1 ORDER BY position'
+    )),
+  getByCategory: async category =>
+    parseRows(await (await getDb()).getAllAsync<DataRow>(
+      'SELECT data FROM items WHERE category = ? ORDER BY position',
+      category
+    )),
+  insert: async item => {
+    const db = await getDb();
+    const row = await db.getFirstAsync<{ next: number }>('SELECT COALESCE(MAX(position), -1) + 1 AS next FROM items');
+    await writeItem(db, item, row?.next ?? 0);
+    await setMeta(db, ITEMS_INITIALIZED, '1');
+  },
+  update: async (id, updates) => {
+    const db = await getDb();
+    const row = await db.getFirstAsync<DataRow & { position: number }>(
+      'SELECT position, data FROM items WHERE id = ?',
+      id
+    );
+    if (!row) return null;
+
+    const updated: Item = { ...JSON.parse(row.data), ...updates, id };
+    await writeItem(db, updated, row.position);
+    return updated;
+  },
+  remove: async id => {
+    await (await getDb()).runAsync('DELETE FROM items WHERE id = ?', id);
+  },
+  replaceAll: async items => {
+    const db = await getDb();
+    await db.withTransactionAsync(() => replaceItems(db, items));
+  },
+});
+
+const createCalculationRepository = (getDb: () => Promise<SQLite.SQLiteDatabase>): CalculationRepository => ({
+  getAll: async () =>
+    parseRows(await (await getDb()).getAllAsync<DataRow>(
+      'SELECT data FROM calculations ORDER BY timestamp DESC'
+    )),
+  getByItem: async itemId =>
+    parseRows(await (await getDb()).getAllAsync<DataRow>(
+      'SELECT data FROM calculations WHERE item_id = ? ORDER BY timestamp DESC',
+      itemId
+    )),
+  add: async (calculation, limit) => {
+    const db = await getDb();
+    await db.withTransactionAsync(async () => {
+      await writeCalculation(db, calculation);
+      await db.runAsync(
+        'DELETE FROM calculations WHERE id NOT IN (SELECT id FROM calculations ORDER BY timestamp DESC LIMIT ?)',
+        limit
+      );
+    });
+  },
+  replaceAll: async calculations => {
+    const db = await getDb();
+    await db.withTransactionAsync(() => replaceCalculations(db, calculations));
+  },
+  clear: async () => {
+    await (await getDb()).runAsync('DELETE FROM calculations');
+  },
+});
+
+const createRecentItemRepository = (getDb: () => Promise<SQLite.SQLiteDatabase>): RecentItemRepository => ({
+  getIds: async () =>
+    (await (await getDb()).getAllAsync<{ item_id: string }>(
+      'SELECT item_id FROM recent_items ORDER BY rank DESC'
+    )).map(row => row.item_id),
+  touch: async (itemId, limit) => {
+    const db = await getDb();
+    await db.withTransactionAsync(async () => {
+      await db.runAsync(
+        `INSERT OR REPLACE INTO recent_items (item_id, rank)
+         VALUES (?, (SELECT COALESCE(MAX(rank), 0) + 1 FROM recent_items))`,
+        itemId
+      );
+      await db.runAsync(
+        'DELETE FROM recent_items WHERE item_id NOT IN (SELECT item_id FROM recent_items ORDER BY rank DESC LIMIT ?)',
+        limit
+      );
+    });
+  },
+  replaceAll: async itemIds => {
+    const db = await getDb();
+    await db.withTransactionAsync(() => replaceRecentItems(db, itemIds));
+  },
+});
+
+const createPriceHistoryRepository = (getDb: () => Promise<SQLite.SQLiteDatabase>): PriceHistoryRepository => ({
+  getAll: async () =>
+    parseRows(await (await getDb()).getAllAsync<DataRow>(
+      'SELECT data FROM price_changes ORDER BY timestamp DESC'
+    )),
+  getByItem: async itemId =>
+    parseRows(await (await getDb()).getAllAsync<DataRow>(
+      'SELECT data FROM price_changes WHERE item_id = ? ORDER BY timestamp DESC',
+      itemId
+    )),
+  add: async change => {
+    await writePriceChange(await getDb(), change);
+  },
+  replaceAll: async changes => {
+    const db = await getDb();
+    await db.withTransactionAsync(() => replacePriceHistory(db, changes));
+  },
+});
+
+const createDiscountRepository = (getDb: () => Promise<SQLite.SQLiteDatabase>): DiscountRepository => ({
+  getAll: async () =>
+    parseRows(await (await getDb()).getAllAsync<DataRow>('SELECT data FROM discounts ORDER BY position')),
+  replaceAll: async discounts => {
+    const db = await getDb();
+    await db.withTransactionAsync(() => replaceDiscounts(db, discounts));
+  },
+});
+
+const createBillRepository = (getDb: () => Promise<SQLite.SQLiteDatabase>): BillRepository => ({
+  getAll: async () =>
+    parseRows(await (await getDb()).getAllAsync<DataRow>('SELECT data FROM bills ORDER BY timestamp DESC')),
+  add: async (bill, limit) => {
+    const db = await getDb();
+    await db.withTransactionAsync(async () => {
+      await writeBill(db, bill);
+      await db.runAsync(
+        'DELETE FROM bills WHERE id NOT IN (SELECT id FROM bills ORDER BY timestamp DESC LIMIT ?)',
+        limit
+      );
+    });
+  },
+  replaceAll: async bills => {
+    const db = await getDb();
+    await db.withTransactionAsync(() => replaceBills(db, bills));
+  },
+});
+
+/**
+ * SQLite storage with one row per record and indexed lookups, for large
+ * catalogs. The database is opened lazily on first use.
+ */
+export const createSqliteBackend = (options: SqliteBackendOptions = {}): StorageBackend => {
+  let database: Promise<SQLite.SQLiteDatabase> | null = null;
+  const getDb = () => {
+    if (!database) {
+      database = openDatabase(options);
+      // Allow a later call to retry if opening failed
+      database.catch(() => {
+        database = null;
+      });
+    }
+    return database;
+  };
+
+  return {
+    name: 'sqlite',
+    items: createItemRepository(getDb),
+    calculations: createCalculationRepository(getDb),
+    recentItems: createRecentItemRepository(getDb),
+    priceHistory: createPriceHistoryRepository(getDb),
+    discounts: createDiscountRepository(getDb),
+    bills: createBillRepository(getDb),
+  };
+};
@@ -0,0 +1,72 @@
+import { Item, Calculation, Category, PriceChange, Discount, Bill } from '@/types';
+
+// Persistence contracts for the app's data. Screens reach these through the
+// helpers in utils/storage.ts, so backends can be swapped without UI changes.
+
+export interface ItemRepository {
+  // False until items have been written once, so defaults can be seeded
+  isInitialized(): Promise<boolean>;
+  getAll(): Promise<Item[]>;
+  getById(id: string): Promise<Item | null>;
+  // Returned in the order of `ids`; unknown ids are skipped
+  getByIds(ids: string[]): Promise<Item[]>;
+  getFavorites(): Promise<Item[]>;
+  getByCategory(category: Category): Promise<Item[]>;
+  insert(item: Item): Promise<void>;
+  // Returns the updated item, or null when no item has that id
+  update(id: string, updates: Partial<Item>): Promise<Item | null>;
+  remove(id: string): Promise<void>;
+  replaceAll(items: Item[]): Promise<void>;
+}
+
+export interface CalculationRepository {
+  // Newest first
+  getAll(): Promise<Calculation[]>;
+  getByItem(itemId: string): Promise<Calculation[]>;
+  // Inserts and drops the oldest entries beyond `limit`
+  add(calculation: Calculation, limit: number): Promise<void>;
+  replaceAll(calculations: Calculation[]): Promise<void>;
+  clear(): Promise<void>;
+}
+
+export interface RecentItemRepository {
+  // Most recently used first
+  getIds(): Promise<string[]>;
+  // Moves the id to the front and drops entries beyond `limit`
+  touch(itemId: string, limit: number): Promise<void>;
+  replaceAll(itemIds: string[]): Promise<void>;
+}
+
+export interface PriceHistoryRepository {
+  // Newest first
+  getAll(): Promise<PriceChange[]>;
+  getByItem(itemId: string): Promise<PriceChange[]>;
+  add(change: PriceChange): Promise<void>;
+  replaceAll(changes: PriceChange[]): Promise<void>;
+}
+
+export interface DiscountRepository {
+  // In the order they were created
+  getAll(): Promise<Discount[]>;
+  replaceAll(discounts: Discount[]): Promise<void>;
+}
+
+export interface BillRepository {
+  // Newest first
+  getAll(): Promise<Bill[]>;
+  // Inserts and drops the oldest bills beyond `limit`
+  add(bill: Bill, limit: number): Promise<void>;
+  replaceAll(bills: Bill[]): Promise<void>;
+}
+
+export interface StorageBackend {
+  name: StorageBackendName;
+  items: ItemRepository;
+  calculations: CalculationRepository;
+  recentItems: RecentItemRepository;
+  priceHistory: PriceHistoryRepository;
+  discounts: DiscountRepository;
+  bills: BillRepository;
+}
+
+export type StorageBackendName = 'asyncStorage' | 'sqlite' | 'memory';
@@ -0,0 +1,52 @@
+import type { RoundingMode, RoundingSettings, Unit } from '@/types';
+import { convertQuantity, getUnitDimension } from '@/utils/units';
+import { fromMilliUnits, fromPaise, roundToStep, toMilliUnits, toPaise } from '@/utils/money';
+
+export const ROUNDING_MODES: RoundingMode[] = ['nearest', 'up', 'down'];
+
+// Offered on the settings screen: none, ₹0.50, ₹1, ₹5
+export const MONEY_STEPS = [0, 50, 100, 500];
+
+// Scale resolutions in grams
+export const WEIGHT_STEPS = [0, 1, 5, 10, 50];
+
+// Rounding down never hands over more than was paid for
+export const DEFAULT_ROUNDING: RoundingSettings = {
+  moneyStep: 0,
+  moneyMode: 'nearest',
+  weightStep: 0,
+  weightMode: 'down',
+};
+
+const isRoundingMode = (value: unknown): value is RoundingMode =>
+  ROUNDING_MODES.includes(value as RoundingMode);
+
+export const isRoundingSettings = (value: unknown): value is RoundingSettings => {
+  if (typeof value !== 'object' || value === null) return false;
+  const rounding = value as Record<string, unknown>;
+  return (
+    MONEY_STEPS.includes(rounding.moneyStep as number) &&
+    isRoundingMode(rounding.moneyMode) &&
+    WEIGHT_STEPS.includes(rounding.weightStep as number) &&
+    isRoundingMode(rounding.weightMode)
+  );
+};
+
+/**
+ * Round a bill amount to the configured cash step, e.g. ₹47.30 → ₹47.50
+ */
+export const roundAmount = (amount: number, rounding: RoundingSettings): number =>
+  fromPaise(roundToStep(toPaise(amount), rounding.moneyStep, rounding.moneyMode));
+
+/**
+ * Round a quantity to what the scale can weigh. Only applies to mass
+ * units; other quantities are returned unchanged.
+ */
+export const roundQuantityToScale = (quantity: number, unit: Unit, rounding: RoundingSettings): number => {
+  if (rounding.weightStep === 0 || getUnitDimension(unit) !== 'mass') return quantity;
+
+  // Work in milligrams so steps of a few grams stay exact
+  const milligrams = toMilliUnits(convertQuantity(quantity, unit, 'g'));
+  const rounded = roundToStep(milligrams, rounding.weightStep * 1000, rounding.weightMode);
+  return convertQuantity(fromMilliUnits(rounded), 'g', unit);
+};
@@ -1,164 +1,417 @@
-import AsyncStorage from '@react-native-async-storage/async-storage';
-import { Item, Calculation, Category } from '@/types';
+import { Item, Calculation, Category, Unit, PackQuote, ExportData, PriceChange, PriceChangeSource, Discount, Bill, BillLine } from '@/types';
+import { getStorageBackend } from '@/utils/repositories';
+import { isPackQuoteCurrent } from '@/utils/packs';
+import { roundMoney, roundQuantity, roundUnitPrice } from '@/utils/money';
 
-const ITEMS_STORAGE_KEY = '@price_calculator_items';
-const CALCULATIONS_STORAGE_KEY = '@price_calculator_calculations';
-const RECENT_ITEMS_KEY = '@price_calculator_recent_items';
+// All persistence goes through the active repository backend
+// (see utils/repositories); these helpers add defaults and error handling.
+const repositories = () => getStorageBackend();
 
-// Migration function to add new fields to existing items
-const migrateItem = (item: any): Item => {
-  return {
-    id: item.id,
-    name: item.name,
-    pricePerKg: item.pricePerKg,
-    isFavorite: item.isFavorite ?? false,
-    category: item.category ?? 'other',
-    lastUsed: item.lastUsed ?? undefined,
-  };
+// ==================== WRITE QUEUE ====================
+
+let writeQueue: Promise<unknown> = Promise.resolve();
+
+/**
+ * Run a read-modify-write task after every previously queued one has
+ * finished, so concurrent helpers can't overwrite each other's changes.
+ * Tasks must use the repositories directly: awaiting another queued
+ * helper from inside a task would deadlock.
+ */
+const serialized = <T>(task: () => Promise<T>): Promise<T> => {
+  const run = writeQueue.then(task, task);
+  writeQueue = run.catch(() => undefined);
+  return run;
+};
+
+let lastId = 0;
+
+// Timestamp-based ids that stay unique when several are created in the same
+// millisecond. Use for every new record so ids never collide.
+export const createId = (): string => {
+  lastId = Math.max(Date.now(), lastId + 1);
+  return lastId.toString();
 };
 
 // ==================== ITEMS ====================
 
+const DEFAULT_ITEMS: Item[] = [
+  { id: '1', name: 'Rice', pricePerKg: 75.50, unit: 'kg', isFavorite: true, category: 'groceries' },
+  { id: '2', name: 'Wheat Flour', pricePerKg: 45.80, unit: 'kg', isFavorite: false, category: 'groceries' },
+  { id: '3', name: 'Sugar', pricePerKg: 55.20, unit: 'kg', isFavorite: true, category: 'groceries' },
+  { id: '4', name: 'Onions', pricePerKg: 35.00, unit: 'kg', isFavorite: false, category: 'vegetables' },
+  { id: '5', name: 'Tomatoes', pricePerKg: 40.00, unit: 'kg', isFavorite: false, category: 'vegetables' },
+  { id: '6', name: 'Potatoes', pricePerKg: 25.00, unit: 'kg', isFavorite: false, category: 'vegetables' },
+];
+
+// Writes the default catalog the first time items are used. Call from
+// inside a serialized task.
+const ensureItemsSeeded = async (): Promise<void> => {
+  const { items } = repositories();
+  if (!(await items.isInitialized())) {
+    await items.replaceAll(DEFAULT_ITEMS);
+  }
+};
+
 export const getItems = async (): Promise<Item[]> => {
   try {
-    const jsonValue = await AsyncStorage.getItem(ITEMS_STORAGE_KEY);
-    if (jsonValue != null) {
-      const rawItems = JSON.parse(jsonValue);
-      // Migrate items to new format
-      return rawItems.map(migrateItem);
+    const { items } = repositories();
+    if (!(await items.isInitialized())) {
+      await serialized(ensureItemsSeeded);
     }
-
-    // Return default items if none exist
-    const defaultItems: Item[] = [
-      { id: '1', name: 'Rice', pricePerKg: 75.50, isFavorite: true, category: 'groceries' },
-      { id: '2', name: 'Wheat Flour', pricePerKg: 45.80, isFavorite: false, category: 'groceries' },
-      { id: '3', name: 'Sugar', pricePerKg: 55.20, isFavorite: true, category: 'groceries' },
-      { id: '4', name: 'Onions', pricePerKg: 35.00, isFavorite: false, category: 'vegetables' },
-      { id: '5', name: 'Tomatoes', pricePerKg: 40.00, isFavorite: false, category: 'vegetables' },
-      { id: '6', name: 'Potatoes', pricePerKg: 25.00, isFavorite: false, category: 'vegetables' },
-    ];
-
-    await saveItems(defaultItems);
-    return defaultItems;
+    return await items.getAll();
   } catch (error) {
     console.error('Error loading items:', error);
     return [];
   }
 };
 
+export const getItem = async (id: string): Promise<Item | null> => {
+  try {
+    return await repositories().items.getById(id);
+  } catch (error) {
+    console.error('Error loading item:', error);
+    return null;
+  }
+};
+
 export const saveItems = async (items: Item[]): Promise<void> => {
   try {
-    const jsonValue = JSON.stringify(items);
-    await AsyncStorage.setItem(ITEMS_STORAGE_KEY, jsonValue);
+    await serialized(() => repositories().items.replaceAll(items));
   } catch (error) {
     console.error('Error saving items:', error);
   }
 };
 
-export const addItem = async (name: string, pricePerKg: number, category: Category = 'other'): Promise<Item> => {
-  const items = await getItems();
-  const newItem: Item = {
-    id: Date.now().toString(),
-    name,
-    pricePerKg,
-    isFavorite: false,
-    category,
-  };
-  items.push(newItem);
-  await saveItems(items);
-  return newItem;
+// Read-modify-write of the whole catalog as one queued operation.
+// Price changes are logged against `source`. Rejects if the write fails.
+export const modifyItems = async (
+  transform: (items: Item[]) => Item[],
+  source: PriceChangeSource
+): Promise<void> =>
+  serialized(async () => {
+    await ensureItemsSeeded();
+    const { items } = repositories();
+    const before = new Map((await items.getAll()).map(item => [item.id, item]));
+    const after = transform([...before.values()]);
+    await items.replaceAll(after);
+
+    for (const item of after) {
+      const previous = before.get(item.id);
+      if (previous) {
+        await recordPriceChange(previous, item.pricePerKg, source);
+      }
+    }
+  });
+
+// Optional pricing details of a new item
+export type ItemPricingDetails = Partial<Pick<Item, 'packQuote' | 'priceTiers' | 'costPrice' | 'yieldPercent' | 'taxRate' | 'taxInclusive'>>;
+
+export const addItem = async (
+  name: string,
+  pricePerKg: number,
+  category: Category = 'other',
+  unit: Unit = 'kg',
+  details: ItemPricingDetails = {}
+): Promise<Item> =>
+  serialized(async () => {
+    await ensureItemsSeeded();
+    const newItem: Item = {
+      id: createId(),
+      name,
+      pricePerKg,
+      unit,
+      ...details,
+      isFavorite: false,
+      category,
+    };
+    await repositories().items.insert(newItem);
+    return newItem;
+  });
+
+// Put back an item exactly as it was, e.g. when undoing a delete
+export const restoreItem = async (item: Item): Promise<void> => {
+  try {
+    await serialized(async () => {
+      const { items } = repositories();
+      if (!(await items.getById(item.id))) {
+        await items.insert(item);
+      }
+    });
+  } catch (error) {
+    console.error('Error restoring item:', error);
+  }
 };
 
-export const updateItem = async (id: string, updates: Partial<Item>): Promise<void> => {
+// Resolves to whether the item was found and saved
+export const updateItem = async (
+  id: string,
+  updates: Partial<Item>,
+  source: PriceChangeSource = 'items'
+): Promise<boolean> => {
   try {
-    const items = await getItems();
-    const updatedItems = items.map(item =>
-      item.id === id ? { ...item, ...updates } : item
-    );
-    await saveItems(updatedItems);
+    return await serialized(async () => {
+      const { items } = repositories();
+      const previous = await items.getById(id);
+      if (!previous) return false;
+      // A direct price or unit edit leaves the old pack quote behind
+      const reconciled = !previous.packQuote || 'packQuote' in updates || isPackQuoteCurrent({ ...previous, ...updates })
+        ? updates
+        : { ...updates, packQuote: undefined };
+      if (!(await items.update(id, reconciled))) return false;
+      await recordPriceChange(previous, updates.pricePerKg, source);
+      return true;
+    });
   } catch (error) {
     console.error('Error updating item:', error);
+    return false;
   }
 };
 
 export const deleteItem = async (id: string): Promise<void> => {
   try {
-    const items = await getItems();
-    const filteredItems = items.filter(item => item.id !== id);
-    await saveItems(filteredItems);
+    await serialized(() => repositories().items.remove(id));
   } catch (error) {
     console.error('Error deleting item:', error);
   }
 };
 
-export const toggleFavorite = async (id: string): Promise<void> => {
-  const items = await getItems();
-  const item = items.find(i => i.id === id);
-  if (item) {
-    await updateItem(id, { isFavorite: !item.isFavorite });
+// Resolves to whether the star was flipped, so callers can leave it alone on failure
+export const toggleFavorite = async (id: string): Promise<boolean> => {
+  try {
+    return await serialized(async () => {
+      const { items } = repositories();
+      const item = await items.getById(id);
+      return item !== null && (await items.update(id, { isFavorite: !item.isFavorite })) !== null;
+    });
+  } catch (error) {
+    console.error('Error toggling favorite:', error);
+    return false;
   }
 };
 
 export const getFavoriteItems = async (): Promise<Item[]> => {
-  const items = await getItems();
-  return items.filter(item => item.isFavorite);
+  return repositories().items.getFavorites();
 };
 
 export const getItemsByCategory = async (category: Category): Promise<Item[]> => {
-  const items = await getItems();
-  return items.filter(item => item.category === category);
+  return repositories().items.getByCategory(category);
+};
+
+// ==================== PRICE HISTORY ====================
+
+// Log a price edit if the price actually changed. Call from inside a serialized task.
+const recordPriceChange = async (
+  item: Item,
+  newPrice: number | undefined,
+  source: PriceChangeSource
+): Promise<void> => {
+  if (newPrice === undefined || newPrice === item.pricePerKg) return;
+
+  await repositories().priceHistory.add({
+    id: createId(),
+    itemId: item.id,
+    oldPrice: item.pricePerKg,
+    newPrice,
+    source,
+    timestamp: Date.now(),
+  });
+};
+
+// Newest first
+export const getPriceHistory = async (itemId: string): Promise<PriceChange[]> => {
+  try {
+    return await repositories().priceHistory.getByItem(itemId);
+  } catch (error) {
+    console.error('Error loading price history:', error);
+    return [];
+  }
+};
+
+export const getAllPriceHistory = async (): Promise<PriceChange[]> => {
+  try {
+    return await repositories().priceHistory.getAll();
+  } catch (error) {
+    console.error('Error loading price history:', error);
+    return [];
+  }
+};
+
+export const savePriceHistory = async (changes: PriceChange[]): Promise<void> => {
+  try {
+    await serialized(() => repositories().priceHistory.replaceAll(changes));
+  } catch (error) {
+    console.error('Error saving price history:', error);
+  }
 };
 
 // ==================== CALCULATIONS HISTORY ====================
 
 export const getCalculations = async (): Promise<Calculation[]> => {
   try {
-    const jsonValue = await AsyncStorage.getItem(CALCULATIONS_STORAGE_KEY);
-    if (jsonValue != null) {
-      return JSON.parse(jsonValue);
-    }
-    return [];
+    return await repositories().calculations.getAll();
   } catch (error) {
     console.error('Error loading calculations:', error);
     return [];
   }
 };
 
+// Newest first
+export const getItemCalculations = async (itemId: string): Promise<Calculation[]> => {
+  try {
+    return await repositories().calculations.getByItem(itemId);
+  } catch (error) {
+    console.error('Error loading item calculations:', error);
+    return [];
+  }
+};
+
+export const MAX_CALCULATIONS = 50;
+
+// Amounts are stored to the paisa, unit prices to a thousandth of a paisa
+// and quantities to a thousandth
+const newCalculation = (calculation: Omit<Calculation, 'id' | 'timestamp'>): Calculation => ({
+  ...calculation,
+  input: calculation.mode === 'price' ? roundQuantity(calculation.input) : roundMoney(calculation.input),
+  result: {
+    price: roundMoney(calculation.result),
+    weight: roundQuantity(calculation.result),
+    rate: roundUnitPrice(calculation.result),
+  }[calculation.mode],
+  perKgPrice: roundUnitPrice(calculation.perKgPrice),
+  quantity: calculation.quantity === undefined ? undefined : roundQuantity(calculation.quantity),
+  tare: calculation.tare && { ...calculation.tare, quantity: roundQuantity(calculation.tare.quantity) },
+  id: createId(),
+  timestamp: Date.now(),
+});
+
 export const saveCalculation = async (calculation: Omit<Calculation, 'id' | 'timestamp'>): Promise<void> => {
   try {
-    const calculations = await getCalculations();
-    const newCalculation: Calculation = {
-      ...calculation,
-      id: Date.now().toString(),
-      timestamp: Date.now(),
-    };
+    const saved = newCalculation(calculation);
     // Keep only last 50 calculations
-    const updated = [newCalculation, ...calculations.slice(0, 49)];
-    await AsyncStorage.setItem(CALCULATIONS_STORAGE_KEY, JSON.stringify(updated));
+    await serialized(() => repositories().calculations.add(saved, MAX_CALCULATIONS));
   } catch (error) {
     console.error('Error saving calculation:', error);
   }
 };
 
+export const saveCalculations = async (calculations: Calculation[]): Promise<void> => {
+  try {
+    await serialized(() => repositories().calculations.replaceAll(calculations.slice(0, MAX_CALCULATIONS)));
+  } catch (error) {
+    console.error('Error saving calculations:', error);
+  }
+};
+
 export const clearCalculations = async (): Promise<void> => {
   try {
-    await AsyncStorage.removeItem(CALCULATIONS_STORAGE_KEY);
+    await serialized(() => repositories().calculations.clear());
   } catch (error) {
     console.error('Error clearing calculations:', error);
   }
 };
 
+// ==================== DISCOUNTS ====================
+
+export const getDiscounts = async (): Promise<Discount[]> => {
+  try {
+    return await repositories().discounts.getAll();
+  } catch (error) {
+    console.error('Error loading discounts:', error);
+    return [];
+  }
+};
+
+export const addDiscount = async (discount: Omit<Discount, 'id'>): Promise<Discount> =>
+  serialized(async () => {
+    const { discounts } = repositories();
+    const newDiscount: Discount = { ...discount, id: createId() };
+    await discounts.replaceAll([...(await discounts.getAll()), newDiscount]);
+    return newDiscount;
+  });
+
+export const updateDiscount = async (id: string, updates: Partial<Discount>): Promise<void> => {
+  try {
+    await serialized(async () => {
+      const { discounts } = repositories();
+      const current = await discounts.getAll();
+      await discounts.replaceAll(current.map(discount => (discount.id === id ? { ...discount, ...updates, id } : discount)));
+    });
+  } catch (error) {
+    console.error('Error updating discount:', error);
+  }
+};
+
+export const deleteDiscount = async (id: string): Promise<void> => {
+  try {
+    await serialized(async () => {
+      const { discounts } = repositories();
+      await discounts.replaceAll((await discounts.getAll()).filter(discount => discount.id !== id));
+    });
+  } catch (error) {
+    console.error('Error deleting discount:', error);
+  }
+};
+
+// ==================== BILLS ====================
+
+export const MAX_BILLS = 100;
+
+export const getBills = async (): Promise<Bill[]> => {
+  try {
+    return await repositories().bills.getAll();
+  } catch (error) {
+    console.error('Error loading bills:', error);
+    return [];
+  }
+};
+
+// A bill line as it goes into the calculation history
+const lineCalculation = (line: BillLine): Omit<Calculation, 'id' | 'timestamp'> => ({
+  itemId: line.itemId,
+  itemName: line.itemName,
+  mode: line.mode,
+  input: line.mode === 'price' ? line.quantity : line.amount,
+  result: line.mode === 'price' ? line.amount : line.quantity,
+  perKgPrice: line.price,
+  unit: line.unit,
+});
+
+/**
+ * Record a finished bill and each of its lines as a calculation in one
+ * queued task. If a write fails the bills and history are put back and the
+ * error is rethrown, so checkout can report it.
+ */
+export const checkoutBill = async (bill: Omit<Bill, 'id' | 'timestamp'>): Promise<Bill> =>
+  serialized(async () => {
+    const { bills, calculations } = repositories();
+    const previousBills = await bills.getAll();
+    const previousCalculations = await calculations.getAll();
+    const saved: Bill = { ...bill, id: createId(), timestamp: Date.now() };
+    // Newest first, so the last line ends up on top as if saved one by one
+    const lines = bill.lines.map(line => newCalculation(lineCalculation(line))).reverse();
+
+    try {
+      await bills.add(saved, MAX_BILLS);
+      await calculations.replaceAll([...lines, ...previousCalculations].slice(0, MAX_CALCULATIONS));
+    } catch (error) {
+      try {
+        await bills.replaceAll(previousBills);
+        await calculations.replaceAll(previousCalculations);
+      } catch (rollbackError) {
+        console.error('Error restoring data after a failed checkout:', rollbackError);
+      }
+      throw error;
+    }
+    return saved;
+  });
+
 // ==================== RECENT ITEMS ====================
 
-const MAX_RECENT_ITEMS = 5;
+export const MAX_RECENT_ITEMS = 5;
 
 export const getRecentItems = async (): Promise<string[]> => {
   try {
-    const jsonValue = await AsyncStorage.getItem(RECENT_ITEMS_KEY);
-    if (jsonValue != null) {
-      return JSON.parse(jsonValue);
-    }
-    return [];
+    return await repositories().recentItems.getIds();
   } catch (error) {
     console.error('Error loading recent items:', error);
     return [];
@@ -167,33 +420,79 @@ export const getRecentItems = async (): Promise<string[]> => {
 
 export const addRecentItem = async (itemId: string): Promise<void> => {
   try {
-    const recentIds = await getRecentItems();
-    // Remove if already exists and add to front
-    const filtered = recentIds.filter(id => id !== itemId);
-    const updated = [itemId, ...filtered].slice(0, MAX_RECENT_ITEMS);
-    await AsyncStorage.setItem(RECENT_ITEMS_KEY, JSON.stringify(updated));
+    await serialized(async () => {
+      const { items, recentItems } = repositories();
+      // Moves the item to the front of the list
+      await recentItems.touch(itemId, MAX_RECENT_ITEMS);
 
-    // Also update the item's lastUsed timestamp
-    await updateItem(itemId, { lastUsed: Date.now() });
+      // Also update the item's usage stats
+      const item = await items.getById(itemId);
+      if (item) {
+        await items.update(itemId, { lastUsed: Date.now(), usageCount: (item.usageCount ?? 0) + 1 });
+      }
+    });
   } catch (error) {
     console.error('Error saving recent item:', error);
   }
 };
 
+export const saveRecentItems = async (itemIds: string[]): Promise<void> => {
+  try {
+    await serialized(() => repositories().recentItems.replaceAll(itemIds.slice(0, MAX_RECENT_ITEMS)));
+  } catch (error) {
+    console.error('Error saving recent items:', error);
+  }
+};
+
 export const getRecentItemsWithData = async (): Promise<Item[]> => {
   const recentIds = await getRecentItems();
-  const allItems = await getItems();
-  const recentItems: Item[] = [];
+  return repositories().items.getByIds(recentIds);
+};
 
-  for (const id of recentIds) {
-    const item = allItems.find(i => i.id === id);
-    if (item) {
-      recentItems.push(item);
-    }
-  }
+// ==================== RESTORE ====================
 
-  return recentItems;
-};
+// Collections written together when a backup is imported
+export type StoredData = Pick<
+  ExportData,
+  'items' | 'calculations' | 'recentItems' | 'priceHistory' | 'discounts' | 'bills'
+>;
+
+/**
+ * Replace every stored collection as one queued task. If a write fails the
+ * collections already written are put back and the error is rethrown, so
+ * the caller can report it instead of leaving a mix of old and new data.
+ */
+export const replaceStoredData = async (data: StoredData): Promise<void> =>
+  serialized(async () => {
+    const { items, calculations, recentItems, priceHistory, discounts, bills } = repositories();
+    const previous: StoredData = {
+      items: await items.getAll(),
+      calculations: await calculations.getAll(),
+      recentItems: await recentItems.getIds(),
+      priceHistory: await priceHistory.getAll(),
+      discounts: await discounts.getAll(),
+      bills: await bills.getAll(),
+    };
+    const write = async (snapshot: StoredData) => {
+      await items.replaceAll(snapshot.items);
+      await calculations.replaceAll(snapshot.calculations.slice(0, MAX_CALCULATIONS));
+      await recentItems.replaceAll(snapshot.recentItems.slice(0, MAX_RECENT_ITEMS));
+      await priceHistory.replaceAll(snapshot.priceHistory);
+      await discounts.replaceAll(snapshot.discounts);
+      await bills.replaceAll(snapshot.bills.slice(0, MAX_BILLS));
+    };
+
+    try {
+      await write(data);
+    } catch (error) {
+      try {
+        await write(previous);
+      } catch (rollbackError) {
+        console.error('Error restoring data after a failed import:', rollbackError);
+      }
+      throw error;
+    }
+  });
 
 // Re-export types for convenience
-export type { Item, Calculation, Category };
\ No newline at end of file
+export type { Item, Calculation, Category, Unit, PackQuote, ExportData, PriceChange, PriceChangeSource, Discount, Bill, BillLine };
\ No newline at end of file
@@ -0,0 +1,70 @@
+import i18n from '@/i18n';
+import type { Calculation, TarePreset, Unit } from '@/types';
+import { convertQuantity, formatQuantity, getUnitDimension } from '@/utils/units';
+import { fromMilliUnits, toMilliUnits } from '@/utils/money';
+
+export const isTarePresets = (value: unknown): value is TarePreset[] =>
+  Array.isArray(value) &&
+  value.every(preset =>
+    typeof preset === 'object' &&
+    preset !== null &&
+    typeof preset.id === 'string' &&
+    typeof preset.name === 'string' &&
+    typeof preset.grams === 'number' &&
+    Number.isFinite(preset.grams) &&
+    preset.grams > 0
+  );
+
+/**
+ * A preset's weight in `unit`, or null when `unit` isn't a weight
+ */
+export const tareInUnit = (preset: TarePreset, unit: Unit): number | null =>
+  getUnitDimension(unit) === 'mass' ? convertQuantity(preset.grams, 'g', unit) : null;
+
+/**
+ * Gross weight less the container, to a thousandth of the unit
+ */
+export const netQuantity = (gross: number, tare: number): number =>
+  fromMilliUnits(toMilliUnits(gross) - toMilliUnits(tare));
+
+/**
+ * What the scale reads with the goods in the container
+ */
+export const grossQuantity = (net: number, tare: number): number =>
+  fromMilliUnits(toMilliUnits(net) + toMilliUnits(tare));
+
+/**
+ * Gross, tare and net of a saved calculation, or null if it had no tare
+ */
+export const getTareWeights = (
+  calculation: Calculation
+): { gross: number; tare: number; net: number } | null => {
+  const { tare } = calculation;
+  if (!tare) return null;
+  return calculation.mode === 'price'
+    ? { gross: calculation.input, tare: tare.quantity, net: netQuantity(calculation.input, tare.quantity) }
+    : { gross: grossQuantity(calculation.result, tare.quantity), tare: tare.quantity, net: calculation.result };
+};
+
+/**
+ * e.g. "Gross 1.430 kg · steel dabba 0.180 kg · Net 1.250 kg"
+ */
+export const formatTareWeights = (calculation: Calculation): string | null => {
+  const weights = getTareWeights(calculation);
+  if (!weights || !calculation.tare) return null;
+  return i18n.t('tare.summary', {
+    gross: formatQuantity(weights.gross, calculation.unit),
+    name: calculation.tare.name,
+    tare: formatQuantity(weights.tare, calculation.unit),
+    net: formatQuantity(weights.net, calculation.unit),
+  });
+};
+
+/**
+ * Quantity to replay a calculation with: the net weight, since the
+ * container isn't reselected
+ */
+export const replayInput = (calculation: Calculation): number =>
+  calculation.mode === 'price' && calculation.tare
+    ? netQuantity(calculation.input, calculation.tare.quantity)
+    : calculation.input;
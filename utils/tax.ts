@@ -0,0 +1,66 @@
+import type { Category, CategoryTaxRates, Item } from '@/types';
+import { divideRounded, fromPaise, toPaise } from '@/utils/money';
+
+// GST slabs offered when picking a rate
+export const GST_RATES = [0, 3, 5, 12, 18, 28];
+
+// Rates are handled in basis points so 2.5% stays an integer
+const BASIS_POINTS = 10000;
+
+export interface TaxBreakdown {
+  rate: number; // total GST %
+  base: number; // amount before tax
+  cgst: number;
+  sgst: number;
+  total: number; // base + cgst + sgst
+}
+
+export const isValidTaxRate = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value) && value >= 0 && value <= 100;
+
+export const isCategoryTaxRates = (value: unknown): value is CategoryTaxRates =>
+  typeof value === 'object' &&
+  value !== null &&
+  Object.values(value).every(isValidTaxRate);
+
+export const getCategoryTaxRate = (category: Category, rates: CategoryTaxRates): number =>
+  rates[category] ?? 0;
+
+/**
+ * GST rate for an item: its own override, else its category's rate
+ */
+export const getItemTaxRate = (item: Item, rates: CategoryTaxRates): number =>
+  item.taxRate ?? getCategoryTaxRate(item.category, rates);
+
+// Prices are tax-inclusive unless marked otherwise, as on an MRP label
+export const isTaxInclusive = (item: Item): boolean => item.taxInclusive ?? true;
+
+// CGST and SGST are each half the tax; an odd paisa goes to SGST
+const splitTax = (basePaise: number, taxPaise: number, rate: number): TaxBreakdown => {
+  const cgstPaise = Math.floor(taxPaise / 2);
+  return {
+    rate,
+    base: fromPaise(basePaise),
+    cgst: fromPaise(cgstPaise),
+    sgst: fromPaise(taxPaise - cgstPaise),
+    total: fromPaise(basePaise + taxPaise),
+  };
+};
+
+/**
+ * Add tax on top of a pre-tax amount
+ */
+export const taxOnBase = (base: number, rate: number): TaxBreakdown => {
+  const basePaise = toPaise(base);
+  const taxPaise = divideRounded(basePaise * Math.round(rate * 100), BASIS_POINTS);
+  return splitTax(basePaise, taxPaise, rate);
+};
+
+/**
+ * Back the tax out of an amount that already includes it
+ */
+export const taxInTotal = (total: number, rate: number): TaxBreakdown => {
+  const totalPaise = toPaise(total);
+  const basePaise = divideRounded(totalPaise * BASIS_POINTS, BASIS_POINTS + Math.round(rate * 100));
+  return splitTax(basePaise, totalPaise - basePaise, rate);
+};
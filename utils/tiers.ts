@@ -0,0 +1,70 @@
+import i18n from '@/i18n';
+import { formatQuantity, unitLabel } from '@/utils/units';
+import { toMilliUnits } from '@/utils/money';
+import type { Item, PriceTier } from '@/types';
+
+export interface TierPrice {
+  price: number; // per unit
+  tier: PriceTier | null; // null: the item's regular price
+}
+
+/**
+ * An item's price breaks, smallest quantity first
+ */
+export const getPriceTiers = (item: Item): PriceTier[] =>
+  [...(item.priceTiers ?? [])].sort((a, b) => a.minQuantity - b.minQuantity);
+
+const reachesTier = (quantity: number, tier: PriceTier): boolean =>
+  toMilliUnits(quantity) >= toMilliUnits(tier.minQuantity);
+
+/**
+ * Rate charged for `quantity`: the largest price break it reaches
+ */
+export const priceForQuantity = (item: Item, quantity: number): TierPrice => {
+  let applied: TierPrice = { price: item.pricePerKg, tier: null };
+  for (const tier of getPriceTiers(item)) {
+    if (!reachesTier(quantity, tier)) break;
+    applied = { price: tier.price, tier };
+  }
+  return applied;
+};
+
+/**
+ * Solve for a quantity when the rate depends on the quantity itself.
+ * `solve` works out the quantity at a fixed rate; a tier's answer only
+ * counts if it lands inside that tier, and the largest such answer wins.
+ */
+export const solveAcrossTiers = <T extends { quantity: number }>(
+  item: Item,
+  solve: (price: number) => T
+): T & { tier: PriceTier | null } => {
+  const tiers = getPriceTiers(item);
+  const candidates: TierPrice[] = [{ price: item.pricePerKg, tier: null }, ...tiers.map(tier => ({ price: tier.price, tier }))];
+
+  let best: (T & { tier: PriceTier | null }) | null = null;
+  for (const [index, { price, tier }] of candidates.entries()) {
+    const solved = solve(price);
+    const next = tiers[index]; // the break after this candidate
+    const fits = (!tier || reachesTier(solved.quantity, tier)) && (!next || !reachesTier(solved.quantity, next));
+    if (fits && (!best || solved.quantity > best.quantity)) {
+      best = { ...solved, tier };
+    }
+  }
+
+  // Breaks that cost more than the rate below them can leave no consistent answer
+  return best ?? { ...solve(item.pricePerKg), tier: null };
+};
+
+/**
+ * e.g. "₹72.00/kg from 10 kg"
+ */
+export const formatPriceTier = (
+  tier: PriceTier,
+  unit: Item['unit'],
+  formatPrice: (amount: number) => string
+): string =>
+  i18n.t('tiers.summary', {
+    price: formatPrice(tier.price),
+    unit: unitLabel(unit),
+    quantity: formatQuantity(tier.minQuantity, unit),
+  });
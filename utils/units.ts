@@ -0,0 +1,56 @@
+import i18n from '@/i18n';
+import { UNITS, type Unit, type UnitDimension } from '@/types';
+
+export const DEFAULT_UNIT: Unit = 'kg';
+
+const getUnitInfo = (unit: Unit) => UNITS.find(u => u.id === unit) ?? UNITS[1];
+
+export const isUnit = (value: unknown): value is Unit =>
+  UNITS.some(u => u.id === value);
+
+export const getUnitDimension = (unit: Unit): UnitDimension => getUnitInfo(unit).dimension;
+
+/**
+ * Units a quantity in `unit` can be converted to, including itself
+ */
+export const getCompatibleUnits = (unit: Unit): Unit[] => {
+  const { dimension } = getUnitInfo(unit);
+  return UNITS.filter(u => u.dimension === dimension).map(u => u.id);
+};
+
+/**
+ * Convert a quantity between two units of the same dimension
+ */
+export const convertQuantity = (value: number, from: Unit, to: Unit): number => {
+  const source = getUnitInfo(from);
+  const target = getUnitInfo(to);
+  if (source.dimension !== target.dimension) {
+    throw new Error(`Cannot convert ${from} to ${to}`);
+  }
+  return (value * source.toBase) / target.toBase;
+};
+
+// Small units and countable things read best without long decimals
+const DECIMALS: Record<Unit, number> = {
+  g: 0,
+  kg: 3,
+  quintal: 3,
+  ml: 0,
+  l: 3,
+  piece: 2,
+  dozen: 2,
+  packet: 2,
+};
+
+export const formatQuantityValue = (value: number, unit: Unit): string => {
+  const fixed = value.toFixed(DECIMALS[unit]);
+  const { dimension } = getUnitInfo(unit);
+  // Countable units drop trailing zeros: "2 pc" rather than "2.00 pc"
+  return dimension === 'mass' || dimension === 'volume' ? fixed : String(parseFloat(fixed));
+};
+
+// Short unit label in the current language, e.g. "kg", "pc"
+export const unitLabel = (unit: Unit): string => i18n.t(`units.short.${unit}`);
+
+export const formatQuantity = (value: number, unit: Unit): string =>
+  `${formatQuantityValue(value, unit)} ${unitLabel(unit)}`;
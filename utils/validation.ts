@@ -0,0 +1,133 @@
+// Shared validation rules for item fields. Errors are i18n keys under
+// `items.validation` so every screen reports them the same way.
+
+export type ItemFieldError =
+  | 'nameRequired'
+  | 'priceRequired'
+  | 'invalidPrice'
+  | 'pricePositive'
+  | 'sizeRequired'
+  | 'invalidSize'
+  | 'sizePositive'
+  | 'invalidTier'
+  | 'duplicateTier'
+  | 'tierPriceNotLower'
+  | 'invalidCost'
+  | 'invalidYield';
+
+export interface ItemFieldErrors {
+  name?: ItemFieldError;
+  price?: ItemFieldError;
+  size?: ItemFieldError;
+  tiers?: ItemFieldError;
+  cost?: ItemFieldError;
+  yield?: ItemFieldError;
+}
+
+// A price break as typed into the item form
+export interface PriceTierInput {
+  minQuantity: string;
+  price: string;
+}
+
+// Plain decimals only, so "1,200" or "12 kg" can't be read as 1 or 12
+const DECIMAL_PATTERN = /^[+-]?(\d+\.?\d*|\.\d+)$/;
+
+/**
+ * Read a typed or imported number, or NaN when it isn't a plain decimal
+ */
+export const parseDecimal = (text: string): number =>
+  DECIMAL_PATTERN.test(text.trim()) ? parseFloat(text) : NaN;
+
+export const validateItemName = (name: string): ItemFieldError | undefined => {
+  if (!name.trim()) {
+    return 'nameRequired';
+  }
+  return undefined;
+};
+
+export const validateItemPrice = (price: string): ItemFieldError | undefined => {
+  if (!price.trim()) {
+    return 'priceRequired';
+  }
+  const value = parseDecimal(price);
+  if (isNaN(value)) {
+    return 'invalidPrice';
+  }
+  if (value <= 0) {
+    return 'pricePositive';
+  }
+  return undefined;
+};
+
+export const validatePackSize = (size: string): ItemFieldError | undefined => {
+  if (!size.trim()) {
+    return 'sizeRequired';
+  }
+  const value = parseDecimal(size);
+  if (isNaN(value)) {
+    return 'invalidSize';
+  }
+  if (value <= 0) {
+    return 'sizePositive';
+  }
+  return undefined;
+};
+
+// Cost price is optional
+export const validateCostPrice = (cost: string): ItemFieldError | undefined => {
+  if (!cost.trim()) {
+    return undefined;
+  }
+  const value = parseDecimal(cost);
+  if (isNaN(value) || value <= 0) {
+    return 'invalidCost';
+  }
+  return undefined;
+};
+
+// Yield is optional; when given it's a percentage of the raw weight
+export const validateYieldPercent = (percent: string): ItemFieldError | undefined => {
+  if (!percent.trim()) {
+    return undefined;
+  }
+  const value = parseDecimal(percent);
+  if (isNaN(value) || value <= 0 || value > 100) {
+    return 'invalidYield';
+  }
+  return undefined;
+};
+
+/**
+ * Price breaks need a positive quantity and price each, distinct quantities,
+ * and a lower rate than the one before them
+ */
+export const validatePriceTiers = (
+  tiers: PriceTierInput[],
+  basePrice: number | null
+): ItemFieldError | undefined => {
+  const parsed = tiers.map(tier => ({ minQuantity: parseDecimal(tier.minQuantity), price: parseDecimal(tier.price) }));
+  if (parsed.some(tier => !(tier.minQuantity > 0) || !(tier.price > 0))) {
+    return 'invalidTier';
+  }
+  parsed.sort((a, b) => a.minQuantity - b.minQuantity);
+  if (parsed.some((tier, index) => index > 0 && tier.minQuantity === parsed[index - 1].minQuantity)) {
+    return 'duplicateTier';
+  }
+  let previousPrice = basePrice ?? Infinity;
+  for (const tier of parsed) {
+    if (tier.price >= previousPrice) {
+      return 'tierPriceNotLower';
+    }
+    previousPrice = tier.price;
+  }
+  return undefined;
+};
+
+export const validateItemFields = (name: string, price: string): ItemFieldErrors => ({
+  name: validateItemName(name),
+  price: validateItemPrice(price),
+});
+
+export const hasFieldErrors = (errors: ItemFieldErrors): boolean =>
+  Object.values(errors).some(error => error !== undefined);
@@ -0,0 +1,43 @@
+import i18n from '@/i18n';
+import type { Calculation } from '@/types';
+import { divideRounded, fromMilliPaise, fromMilliUnits, toMilliPaise, toMilliUnits } from '@/utils/money';
+import { formatQuantity } from '@/utils/units';
+
+// Yield is handled in basis points so 72.5% stays an integer
+const BASIS_POINTS = 10000;
+
+const toBasisPoints = (percent: number): number => Math.round(percent * 100);
+
+export const isValidYield = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value) && value > 0 && value <= 100;
+
+/**
+ * Price per usable unit, e.g. ₹200/kg at 80% yield → ₹250 per cleaned kg
+ */
+export const usablePrice = (price: number, yieldPercent: number): number =>
+  fromMilliPaise(divideRounded(toMilliPaise(price) * BASIS_POINTS, toBasisPoints(yieldPercent)));
+
+/**
+ * Raw weight to buy for `cleaned` after cleaning, rounded up so it's enough
+ */
+export const rawQuantity = (cleaned: number, yieldPercent: number): number =>
+  fromMilliUnits(divideRounded(toMilliUnits(cleaned) * BASIS_POINTS, toBasisPoints(yieldPercent), 'up'));
+
+/**
+ * Usable weight left from `raw`, rounded down
+ */
+export const cleanedQuantity = (raw: number, yieldPercent: number): number =>
+  fromMilliUnits(divideRounded(toMilliUnits(raw) * toBasisPoints(yieldPercent), BASIS_POINTS, 'down'));
+
+/**
+ * e.g. "Cleaned weight at 70% yield · raw 1.429 kg" for a saved calculation
+ */
+export const formatCalculationYield = (calculation: Calculation): string | null => {
+  const { yieldPercent } = calculation;
+  if (yieldPercent === undefined) return null;
+  const cleaned = calculation.mode === 'price' ? calculation.input : calculation.result;
+  return i18n.t('yield.summary', {
+    percent: yieldPercent,
+    raw: formatQuantity(rawQuantity(cleaned, yieldPercent), calculation.unit),
+  });
+};